@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native, optional and only loaded by server renders; bundling it would
+  // break builds and deployments that do not install it.
+  serverExternalPackages: ["@napi-rs/canvas"],
 };
 
 export default nextConfig;
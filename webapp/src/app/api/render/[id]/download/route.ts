@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getRenderJob, openRenderOutput } from "@/node/render-queue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const output = await openRenderOutput(id);
+  if (!output) {
+    const job = getRenderJob(id);
+    return NextResponse.json(
+      {
+        error: job
+          ? `This render is ${job.status}, not done.`
+          : "Render not found.",
+      },
+      { status: job ? 409 : 404 },
+    );
+  }
+
+  return new Response(output.stream, {
+    headers: {
+      "Content-Type": output.job.mimeType,
+      "Content-Length": String(output.size),
+      "Content-Disposition": `attachment; filename="${output.job.filename}"`,
+    },
+  });
+}
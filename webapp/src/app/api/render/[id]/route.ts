@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { cancelRender, getRenderJob } from "@/node/render-queue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const job = getRenderJob((await params).id);
+  if (!job) {
+    return NextResponse.json({ error: "Render not found." }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+/** Cancels a queued or running render. */
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!cancelRender(id)) {
+    return NextResponse.json({ error: "Render not found." }, { status: 404 });
+  }
+  return NextResponse.json(getRenderJob(id));
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_PENDING_RENDERS,
+  countPendingRenders,
+  enqueueRender,
+  isServerRenderAvailable,
+} from "@/node/render-queue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Reports whether this deployment can render, for the editor's toggle. */
+export async function GET() {
+  return NextResponse.json({ available: await isServerRenderAvailable() });
+}
+
+/** Queues a project document for rendering; poll `/api/render/[id]`. */
+export async function POST(request: Request) {
+  if (!(await isServerRenderAvailable())) {
+    return NextResponse.json(
+      { error: "Server rendering is not available on this deployment." },
+      { status: 503 },
+    );
+  }
+  if (countPendingRenders() >= MAX_PENDING_RENDERS) {
+    return NextResponse.json(
+      { error: "The render queue is full. Try again in a few minutes." },
+      { status: 503 },
+    );
+  }
+
+  let document: unknown;
+  try {
+    document = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "The request body is not valid JSON." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const job = await enqueueRender(document);
+    return NextResponse.json(job, {
+      status: 202,
+      headers: { Location: `/api/render/${job.id}` },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to read the project.",
+      },
+      { status: 400 },
+    );
+  }
+}
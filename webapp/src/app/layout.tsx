@@ -1,6 +1,5 @@
 import type { Metadata } from "next";
 import localFont from "next/font/local";
-import { Sora } from "next/font/google";
 import "./globals.css";
 
 const geistSans = localFont({
@@ -14,10 +13,18 @@ const geistMono = localFont({
   weight: "100 900",
 });
 
-const sora = Sora({
-  subsets: ["latin"],
+// Vendored rather than fetched from Google Fonts, so the golden-frame
+// harness renders with exactly the files the app ships.
+const sora = localFont({
+  src: "./fonts/SoraVF.woff2",
   variable: "--font-sora",
-  weight: ["400", "500", "600", "700"],
+  weight: "100 800",
+  display: "swap",
+});
+const inter = localFont({
+  src: "./fonts/InterVF.woff2",
+  variable: "--font-inter",
+  weight: "100 900",
   display: "swap",
 });
 
@@ -35,7 +42,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body
-        className={`${geistSans.variable} ${geistMono.variable} ${sora.variable} antialiased`}
+        className={`${geistSans.variable} ${geistMono.variable} ${sora.variable} ${inter.variable} antialiased`}
       >
         {children}
       </body>
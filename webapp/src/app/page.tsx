@@ -3,138 +3,425 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { nanoid } from "nanoid";
 import classNames from "classnames";
-import { getFFmpeg } from "@/lib/ffmpeg";
-import { GRADIENTS, drawGradient, type GradientSpec } from "@/lib/palette";
-import { ANIMATION_OPTIONS, type SceneAnimation } from "@/lib/animation";
-
-type Scene = {
-  id: string;
-  title: string;
-  description: string;
-  duration: number;
-  gradientId: string;
-  textColor: string;
-  accent: string;
-  animation: SceneAnimation;
-};
+import { GRADIENTS } from "@/lib/palette";
+import {
+  audioPlanKey,
+  buildAudioPlan,
+  loadAudioAsset,
+  type Soundtrack,
+  type VoiceOver,
+} from "@/lib/audio";
+import { createAudioPreview, type AudioPreview } from "@/lib/audio-preview";
+import {
+  DEFAULT_BACKGROUND,
+  cloneBackground,
+  type CustomGradient,
+} from "@/lib/backgrounds";
+import {
+  applyBrandKit,
+  brandGradient,
+  createBrandKit,
+  readBrandKitFile,
+  resolveWatermark,
+  type BrandColor,
+  type BrandKit,
+} from "@/lib/brand";
+import { clamp } from "@/lib/easing";
+import {
+  MAX_TRANSITION,
+  MIN_TRANSITION,
+  TRANSITION_OPTIONS,
+  computeSceneTimings,
+  totalDurationForTimings,
+  type SceneTransition,
+} from "@/lib/transitions";
+import {
+  MAX_DURATION,
+  MAX_SCENES,
+  MIN_DURATION,
+  buildInitialScenes,
+  type Scene,
+} from "@/lib/scene";
+import {
+  createProject,
+  downloadProjectFile,
+  readProjectFile,
+  type Project,
+  type ProjectSettings,
+  type ProjectSummary,
+} from "@/lib/project";
+import {
+  clearRenderCache,
+  deleteBrandKit,
+  deleteMotionTemplate,
+  deleteStoryboardTemplate,
+  getRenderCacheSize,
+  listBrandKits,
+  listMotionTemplates,
+  listRecentProjects,
+  listStoryboardTemplates,
+  loadProject,
+  saveBrandKit,
+  saveMotionTemplate,
+  saveProject,
+  saveStoryboardTemplate,
+} from "@/lib/project-store";
+import {
+  STORYBOARD_TEMPLATES,
+  createProjectFromTemplate,
+  createTemplateFromProject,
+  type StoryboardTemplate,
+} from "@/lib/storyboard-templates";
+import { BUILT_IN_TEMPLATES, type MotionTemplate } from "@/lib/motion";
+import {
+  applySceneMotion,
+  createDefaultLayers,
+  extractSceneMotion,
+} from "@/lib/layers";
+import {
+  createHistory,
+  currentHistoryState,
+  describeSceneEdit,
+  jumpToHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type HistoryCommand,
+} from "@/lib/history";
+import { createFontAsset, type FontAsset } from "@/lib/fonts";
+import { cloneTypography } from "@/lib/typography";
+import { downloadBlob, slugify } from "@/lib/assets";
+import { buildCaptionTrack, formatSrt, formatWebVtt } from "@/lib/captions";
+import {
+  DEFAULT_OUTPUT,
+  normalizeOutput,
+  type OutputProfile,
+} from "@/lib/output";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  exportFilename,
+  getExportFormat,
+  normalizeExportSettings,
+  type ExportSettings,
+} from "@/lib/export-formats";
+import { checkServerRender, renderOnServer } from "@/lib/render-api";
+import { RENDER_CACHE_LIMIT } from "@/lib/render-cache";
+import { synthesizeVideo, type RenderStats, type Stage } from "@/lib/export";
+import { renderStill, type StillRequest } from "@/lib/stills";
+import { chooseEncoder, type EncoderChoice } from "@/lib/webcodecs";
+import {
+  commentMarkers,
+  downloadReviewFile,
+  mergeReviewComments,
+  readReviewFile,
+  type ReviewComment,
+} from "@/lib/review";
+import { createReviewLink, type ReviewLink } from "@/lib/share";
+import { usePreviewPlayback } from "@/lib/use-preview-playback";
+import { BackgroundPanel } from "@/components/BackgroundPanel";
+import { BrandKitPanel } from "@/components/BrandKitPanel";
+import { ColorField } from "@/components/ColorField";
+import { CaptionPanel } from "@/components/CaptionPanel";
+import { StillsPanel } from "@/components/StillsPanel";
+import { ReviewCommentsPanel } from "@/components/ReviewCommentsPanel";
+import { ExportFormatPanel } from "@/components/ExportFormatPanel";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { LayerPanel } from "@/components/LayerPanel";
+import { MotionPanel } from "@/components/MotionPanel";
+import { OutputProfilePanel } from "@/components/OutputProfilePanel";
+import { ProjectMenu, type SaveState } from "@/components/ProjectMenu";
+import { SceneCaptionsPanel } from "@/components/SceneCaptionsPanel";
+import { SceneList } from "@/components/SceneList";
+import { ScriptImportPanel } from "@/components/ScriptImportPanel";
+import { SoundtrackPanel } from "@/components/SoundtrackPanel";
+import { TemplateGallery } from "@/components/TemplateGallery";
+import { TypographyPanel } from "@/components/TypographyPanel";
+import { Timeline } from "@/components/Timeline";
+import { Transport } from "@/components/Transport";
 
 type RenderState =
   | { status: "idle"; progress: 0; url?: string }
   | { status: "loading-encoder"; progress: number; url?: string }
-  | { status: "encoding"; progress: number; url?: string }
-  | { status: "ready"; progress: 1; url: string }
+  | {
+      status: "encoding";
+      progress: number;
+      url?: string;
+      stats?: RenderStats;
+      encoder?: EncoderChoice;
+    }
+  | {
+      status: "ready";
+      progress: 1;
+      url: string;
+      filename: string;
+      mimeType: string;
+      /** Scene segments the render cache supplied, out of all. */
+      reused?: { segments: number; total: number };
+      encoder?: EncoderChoice;
+    }
+  | { status: "cancelled"; progress: number; url?: string }
   | { status: "error"; progress: number; url?: string; error: string };
 
-const CANVAS_WIDTH = 1280;
-const CANVAS_HEIGHT = 720;
-const FPS = 24;
-
-const MAX_SCENES = 6;
-const MIN_DURATION = 2;
-const MAX_DURATION = 8;
-
-const fontStyles = {
-  title: "700 64px 'Sora', 'Inter', sans-serif",
-  description: "400 30px 'Inter', system-ui, sans-serif",
-};
-
-const buildInitialScenes = () => [
-  {
-    id: nanoid(),
-    title: "Showcase your ideas in motion",
-    description:
-      "Craft cinematic storyboards that turn into silky, production-ready clips with zero hassle.",
-    duration: 4,
-    gradientId: "aurora",
-    textColor: "#f8fafc",
-    accent: "#facc15",
-    animation: "zoom" as SceneAnimation,
-  },
-  {
-    id: nanoid(),
-    title: "Scene-aware pacing",
-    description:
-      "Fine-tune every beat. Dial in timing, gradients, and motion for a smooth narrative arc.",
-    duration: 3.5,
-    gradientId: "midnight",
-    textColor: "#e2e8f0",
-    accent: "#38bdf8",
-    animation: "slide" as SceneAnimation,
-  },
-  {
-    id: nanoid(),
-    title: "Render to share in one click",
-    description:
-      "Generate studio-grade MP4s in-browser using a fast WASM encoder optimized for Vercel deploys.",
-    duration: 3,
-    gradientId: "sunset",
-    textColor: "#fff7ed",
-    accent: "#fb7185",
-    animation: "drift" as SceneAnimation,
-  },
-];
+const AUTOSAVE_DELAY = 800;
+
+const buildProjectSettings = (
+  output: OutputProfile,
+  exportSettings: ExportSettings,
+): ProjectSettings => ({
+  canvas: { width: output.width, height: output.height },
+  render: { fps: output.fps, export: exportSettings },
+});
 
 export default function Home() {
-  const [scenes, setScenes] = useState<Scene[]>(() => buildInitialScenes());
+  const [projectMeta, setProjectMeta] = useState(() => {
+    const { id, name, createdAt } = createProject(
+      buildProjectSettings(DEFAULT_OUTPUT, DEFAULT_EXPORT_SETTINGS),
+    );
+    return { id, name, createdAt };
+  });
+  const [isHydrated, setHydrated] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [motionTemplates, setMotionTemplates] = useState<MotionTemplate[]>([]);
+  const [projectError, setProjectError] = useState<string>();
+  const [history, setHistory] = useState(() =>
+    createHistory(buildInitialScenes(), "New storyboard"),
+  );
+  const scenes = currentHistoryState(history);
   const [selectedSceneId, setSelectedSceneId] = useState<string>(
     () => scenes[0]?.id,
   );
-  const [previewTime, setPreviewTime] = useState(0);
-  const [isPreviewPlaying, setPreviewPlaying] = useState(true);
+  const [soundtrack, setSoundtrack] = useState<Soundtrack | null>(null);
+  const [fonts, setFonts] = useState<FontAsset[]>([]);
+  const [gradients, setGradients] = useState<CustomGradient[]>([]);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [selectedCommentId, setSelectedCommentId] = useState<string>();
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [reviewLink, setReviewLink] = useState<ReviewLink | null>(null);
+  const [output, setOutput] = useState<OutputProfile>(DEFAULT_OUTPUT);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(
+    DEFAULT_EXPORT_SETTINGS,
+  );
+  const [isScriptImportOpen, setScriptImportOpen] = useState(false);
+  const [isTemplateGalleryOpen, setTemplateGalleryOpen] = useState(false);
+  const [storyboardTemplates, setStoryboardTemplates] = useState<
+    StoryboardTemplate[]
+  >([]);
+  const [isServerRender, setServerRender] = useState(false);
+  const [canRenderOnServer, setCanRenderOnServer] = useState(false);
+  /** Bytes in the render cache; `null` where IndexedDB is unavailable. */
+  const [renderCacheSize, setRenderCacheSize] = useState<number | null>(null);
+  /** The encoder a browser render of the current settings would use. */
+  const [detectedEncoder, setDetectedEncoder] = useState<EncoderChoice | null>(
+    null,
+  );
+  const [isExportingStill, setExportingStill] = useState(false);
+  const [stillError, setStillError] = useState<string | null>(null);
   const [renderState, setRenderState] = useState<RenderState>({
     status: "idle",
     progress: 0,
   });
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const requestRef = useRef<number>();
   const previousUrlRef = useRef<string>();
+  const audioPreviewRef = useRef<AudioPreview>();
+  const renderAbortRef = useRef<AbortController>();
 
+  const sceneTimings = useMemo(() => computeSceneTimings(scenes), [scenes]);
   const totalDuration = useMemo(
-    () => scenes.reduce((total, scene) => total + scene.duration, 0),
-    [scenes],
+    () => totalDurationForTimings(sceneTimings),
+    [sceneTimings],
+  );
+  const audioPlan = useMemo(
+    () => buildAudioPlan(soundtrack, scenes, sceneTimings, totalDuration),
+    [soundtrack, scenes, sceneTimings, totalDuration],
   );
+  const audioKey = useMemo(() => audioPlanKey(audioPlan), [audioPlan]);
 
-  useEffect(() => {
-    if (!isPreviewPlaying) {
-      return;
-    }
+  const watermark = useMemo(() => resolveWatermark(brandKit), [brandKit]);
+  const captionTrack = useMemo(
+    () => buildCaptionTrack(scenes, sceneTimings),
+    [scenes, sceneTimings],
+  );
+  const burnedCaptions = useMemo(
+    () =>
+      exportSettings.captions.burnIn
+        ? { track: captionTrack, settings: exportSettings.captions }
+        : null,
+    [captionTrack, exportSettings.captions],
+  );
 
-    let startTimestamp: number | null = null;
+  const {
+    canvasRef,
+    time: previewTime,
+    setTime: setPreviewTime,
+    seek: seekPreview,
+    isPlaying: isPreviewPlaying,
+    setPlaying: setPreviewPlaying,
+    rate: playbackRate,
+    setRate: setPlaybackRate,
+    loopRange: activeLoopRange,
+    setLoopRange,
+  } = usePreviewPlayback({
+    scenes,
+    timings: sceneTimings,
+    totalDuration,
+    output,
+    fonts,
+    gradients,
+    watermark,
+    captions: burnedCaptions,
+    autoPlay: true,
+  });
+
+  const currentProject = useMemo<Project>(
+    () => ({
+      ...projectMeta,
+      updatedAt: new Date().toISOString(),
+      scenes,
+      soundtrack,
+      fonts,
+      gradients,
+      brandKit,
+      comments,
+      settings: buildProjectSettings(output, exportSettings),
+    }),
+    [
+      projectMeta,
+      scenes,
+      soundtrack,
+      fonts,
+      gradients,
+      brandKit,
+      comments,
+      output,
+      exportSettings,
+    ],
+  );
 
-    const raf = (timestamp: number) => {
-      if (startTimestamp === null) {
-        startTimestamp = timestamp - previewTime * 1000;
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const recent = await listRecentProjects();
+        if (cancelled) return;
+        setRecentProjects(recent);
+        const latest = recent[0] ? await loadProject(recent[0].id) : null;
+        if (latest && !cancelled) {
+          applyProject(latest);
+        }
+      } catch {
+        // Storage can be unavailable (private mode); keep the default project.
+      } finally {
+        if (!cancelled) setHydrated(true);
       }
+    };
 
-      const elapsed = (timestamp - startTimestamp) / 1000;
+    void restore();
+    listMotionTemplates()
+      .then((templates) => {
+        if (!cancelled) setMotionTemplates(templates);
+      })
+      .catch(() => undefined);
+    listBrandKits()
+      .then((kits) => {
+        if (!cancelled) setBrandKits(kits);
+      })
+      .catch(() => undefined);
+    listStoryboardTemplates()
+      .then((templates) => {
+        if (!cancelled) setStoryboardTemplates(templates);
+      })
+      .catch(() => undefined);
+    getRenderCacheSize()
+      .then((size) => {
+        if (!cancelled) setRenderCacheSize(size);
+      })
+      .catch(() => undefined);
+    void checkServerRender().then((available) => {
+      if (!cancelled) setCanRenderOnServer(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Restoring only happens once, on mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-      if (elapsed >= totalDuration) {
-        setPreviewTime(0);
-        startTimestamp = timestamp;
-      } else {
-        setPreviewTime(elapsed);
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const timeout = window.setTimeout(async () => {
+      setSaveState("saving");
+      try {
+        await saveProject(currentProject);
+        setRecentProjects(await listRecentProjects());
+        setSaveState("saved");
+      } catch {
+        setSaveState("error");
       }
+    }, AUTOSAVE_DELAY);
+
+    return () => window.clearTimeout(timeout);
+  }, [currentProject, isHydrated]);
 
-      requestRef.current = requestAnimationFrame(raf);
+  useEffect(() => {
+    let cancelled = false;
+    void chooseEncoder(exportSettings, normalizeOutput(output)).then(
+      (encoder) => {
+        if (!cancelled) setDetectedEncoder(encoder);
+      },
+    );
+    return () => {
+      cancelled = true;
     };
+  }, [exportSettings, output]);
 
-    requestRef.current = requestAnimationFrame(raf);
+  useEffect(() => {
+    audioPreviewRef.current?.setPlan(audioPlan);
+    // Scene edits rebuild the plan; only a change to what it plays should
+    // restart the soundtrack.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioKey]);
+
+  useEffect(() => {
+    audioPreviewRef.current?.sync(previewTime, isPreviewPlaying, playbackRate);
+  }, [previewTime, isPreviewPlaying, playbackRate]);
 
+  useEffect(() => {
+    const audioPreview = createAudioPreview();
+    audioPreviewRef.current = audioPreview;
     return () => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-      }
+      audioPreview.dispose();
+      audioPreviewRef.current = undefined;
     };
-  }, [isPreviewPlaying, totalDuration, previewTime]);
+  }, []);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const context = canvas.getContext("2d");
-    if (!context) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      const isRedo = (key === "z" && event.shiftKey) || key === "y";
+      if (key !== "z" && !isRedo) return;
+      // Fields keep the browser's own undo; their edits already coalesce
+      // into storyboard history entries.
+      const target = event.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
 
-    renderPreviewFrame(context, scenes, previewTime);
-  }, [previewTime, scenes]);
+      event.preventDefault();
+      setHistory(isRedo ? redoHistory : undoHistory);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -144,15 +431,101 @@ export default function Home() {
     };
   }, []);
 
+  const scriptGradients = useMemo(
+    () => [...GRADIENTS, ...gradients],
+    [gradients],
+  );
+  const scriptTemplates = useMemo(
+    () => [...BUILT_IN_TEMPLATES, ...motionTemplates],
+    [motionTemplates],
+  );
+
+  const galleryTemplates = useMemo(
+    () => [...STORYBOARD_TEMPLATES, ...storyboardTemplates],
+    [storyboardTemplates],
+  );
+
   const activeScene = useMemo(
     () => scenes.find((scene) => scene.id === selectedSceneId) ?? scenes[0],
     [scenes, selectedSceneId],
   );
 
-  const updateScene = (id: string, updater: (scene: Scene) => Scene) => {
-    setScenes((current) =>
-      current.map((scene) => (scene.id === id ? updater(scene) : scene)),
+  function applyProject(project: Project) {
+    setProjectMeta({
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+    });
+    setHistory(createHistory(project.scenes, `Opened ${project.name}`));
+    setSoundtrack(project.soundtrack);
+    setFonts(project.fonts);
+    setGradients(project.gradients);
+    setBrandKit(project.brandKit);
+    setComments(project.comments);
+    setSelectedCommentId(undefined);
+    setCommentError(null);
+    setReviewLink(null);
+    setOutput(
+      normalizeOutput({
+        width: project.settings.canvas.width,
+        height: project.settings.canvas.height,
+        fps: project.settings.render.fps,
+      }),
+    );
+    setExportSettings(normalizeExportSettings(project.settings.render.export));
+    setSelectedSceneId(project.scenes[0]?.id);
+    setPreviewTime(0);
+    setLoopRange(null);
+    setProjectError(undefined);
+  }
+
+  const openProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (!project) throw new Error("That project is no longer available.");
+      applyProject(project);
+    } catch (error) {
+      setProjectError(
+        error instanceof Error ? error.message : "Unable to open project.",
+      );
+    }
+  };
+
+  const importProject = async (file: File) => {
+    try {
+      const warnings: string[] = [];
+      applyProject(await readProjectFile(file, warnings));
+      if (warnings.length) setProjectError(warnings.join(" "));
+    } catch (error) {
+      setProjectError(
+        error instanceof Error ? error.message : "Unable to import project.",
+      );
+    }
+  };
+
+  const commitScenes = (
+    update: (scenes: Scene[]) => Scene[],
+    command: HistoryCommand,
+  ) =>
+    setHistory((current) =>
+      pushHistory(current, update(currentHistoryState(current)), command),
     );
+
+  const updateScene = (id: string, updater: (scene: Scene) => Scene) => {
+    setHistory((current) => {
+      const currentScenes = currentHistoryState(current);
+      const index = currentScenes.findIndex((scene) => scene.id === id);
+      if (index < 0) return current;
+
+      const before = currentScenes[index];
+      const after = updater(before);
+      if (after === before) return current;
+      return pushHistory(
+        current,
+        currentScenes.map((scene) => (scene.id === id ? after : scene)),
+        describeSceneEdit(before, after, index),
+      );
+    });
   };
 
   const addScene = () => {
@@ -160,8 +533,10 @@ export default function Home() {
 
     const template = scenes[scenes.length - 1] ?? buildInitialScenes()[0];
     const gradient =
-      GRADIENTS[(GRADIENTS.findIndex((g) => g.id === template.gradientId) + 1) %
-        GRADIENTS.length];
+      GRADIENTS[
+        (GRADIENTS.findIndex((g) => g.id === template.gradientId) + 1) %
+          GRADIENTS.length
+      ];
 
     const newScene: Scene = {
       id: nanoid(),
@@ -170,18 +545,36 @@ export default function Home() {
         "Swap in your copy and colors, then keep sculpting the flow.",
       duration: clamp(template.duration, MIN_DURATION, MAX_DURATION),
       gradientId: gradient.id,
+      background: cloneBackground(DEFAULT_BACKGROUND),
       textColor: template.textColor,
       accent: template.accent,
-      animation: template.animation,
+      typography: cloneTypography(template.typography),
+      layers: createDefaultLayers(extractSceneMotion(template.layers)),
+      motionTemplate: template.motionTemplate,
+      transition: { ...template.transition },
     };
 
-    setScenes((current) => [...current, newScene]);
+    commitScenes((current) => [...current, newScene], { label: "Add scene" });
     setSelectedSceneId(newScene.id);
   };
 
+  const applyScriptImport = (imported: Scene[], count: number) => {
+    const firstNew = imported.find(
+      (scene) => !scenes.some((existing) => existing.id === scene.id),
+    );
+    commitScenes(() => imported, {
+      label: `Import script (${count} ${count === 1 ? "scene" : "scenes"})`,
+    });
+    if (firstNew) setSelectedSceneId(firstNew.id);
+    setScriptImportOpen(false);
+  };
+
   const removeScene = (id: string) => {
     if (scenes.length === 1) return;
-    setScenes((current) => current.filter((scene) => scene.id !== id));
+    const position = scenes.findIndex((scene) => scene.id === id);
+    commitScenes((current) => current.filter((scene) => scene.id !== id), {
+      label: `Remove scene ${position + 1}`,
+    });
     if (selectedSceneId === id) {
       const nextScene = scenes.find((scene) => scene.id !== id);
       if (nextScene) {
@@ -190,49 +583,365 @@ export default function Home() {
     }
   };
 
+  const changeChapter = (id: string, title: string | undefined) =>
+    updateScene(id, ({ chapter: _chapter, ...scene }) =>
+      title === undefined ? scene : { ...scene, chapter: title },
+    );
+
+  const uploadFont = async (file: File) => {
+    const font = await createFontAsset(
+      file,
+      fonts.map((existing) => existing.family),
+    );
+    setFonts((current) => [...current, font]);
+  };
+
+  const saveGradient = (gradient: CustomGradient) =>
+    setGradients((current) =>
+      current.some((entry) => entry.id === gradient.id)
+        ? current.map((entry) => (entry.id === gradient.id ? gradient : entry))
+        : [...current, gradient],
+    );
+
+  // Scenes using the gradient move to the first built-in one; undo can
+  // still point a scene back at it, which the renderer tolerates.
+  const deleteGradient = (id: string) => {
+    const gradient = gradients.find((entry) => entry.id === id);
+    setGradients((current) => current.filter((entry) => entry.id !== id));
+    if (!gradient || !scenes.some((scene) => scene.gradientId === id)) return;
+    commitScenes(
+      (current) =>
+        current.map((scene) =>
+          scene.gradientId === id
+            ? { ...scene, gradientId: GRADIENTS[0].id }
+            : scene,
+        ),
+      { label: `Delete gradient ${gradient.label}` },
+    );
+  };
+
+  // Kit fonts join the project's so scenes can render the pair.
+  const mergeFonts = (kitFonts: FontAsset[]) =>
+    setFonts((current) => [
+      ...current,
+      ...kitFonts.filter(
+        (font) => !current.some((existing) => existing.family === font.family),
+      ),
+    ]);
+
+  const storeBrandKit = (kit: BrandKit) => {
+    setBrandKits((current) =>
+      [...current.filter((entry) => entry.id !== kit.id), kit].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+    saveBrandKit(kit).catch(() => undefined);
+  };
+
+  const selectBrandKit = (kit: BrandKit | null) => {
+    setBrandKit(kit);
+    if (kit) mergeFonts(kit.fontAssets);
+  };
+
+  const changeBrandKit = (kit: BrandKit) => {
+    setBrandKit(kit);
+    storeBrandKit(kit);
+  };
+
+  const removeBrandKit = (id: string) => {
+    setBrandKits((current) => current.filter((entry) => entry.id !== id));
+    if (brandKit?.id === id) setBrandKit(null);
+    deleteBrandKit(id).catch(() => undefined);
+  };
+
+  const importBrandKit = async (file: File) => {
+    const kit = await readBrandKitFile(file);
+    storeBrandKit(kit);
+    selectBrandKit(kit);
+  };
+
+  const applyBrandToAll = () => {
+    if (!brandKit) return;
+    mergeFonts(brandKit.fontAssets);
+    const gradient = brandGradient(brandKit);
+    if (gradient) saveGradient(gradient);
+    commitScenes(
+      (current) => current.map((scene) => applyBrandKit(scene, brandKit)),
+      { label: `Apply ${brandKit.name} brand` },
+    );
+  };
+
+  const moveScene = (id: string, index: number) => {
+    const from = scenes.findIndex((scene) => scene.id === id);
+    if (from < 0 || from === index) return;
+    commitScenes(
+      (current) => {
+        const next = current.filter((scene) => scene.id !== id);
+        next.splice(index, 0, current[from]);
+        return next;
+      },
+      { label: `Move scene ${from + 1} to position ${index + 1}` },
+    );
+  };
+
+  const saveTemplateFromScene = async (scene: Scene, label: string) => {
+    const template: MotionTemplate = {
+      id: nanoid(),
+      label,
+      builtIn: false,
+      motion: extractSceneMotion(scene.layers),
+    };
+    setMotionTemplates((current) => [...current, template]);
+    updateScene(scene.id, (current) => ({
+      ...current,
+      motionTemplate: template.id,
+    }));
+    try {
+      await saveMotionTemplate(template);
+    } catch (error) {
+      setProjectError(
+        error instanceof Error ? error.message : "Unable to save template.",
+      );
+    }
+  };
+
+  const removeTemplate = async (id: string) => {
+    setMotionTemplates((current) =>
+      current.filter((template) => template.id !== id),
+    );
+    try {
+      await deleteMotionTemplate(id);
+    } catch {
+      // The template is already gone from this session.
+    }
+  };
+
+  const startFromTemplate = (template: StoryboardTemplate) => {
+    applyProject(
+      createProjectFromTemplate(
+        template,
+        buildProjectSettings(output, exportSettings),
+      ),
+    );
+    setTemplateGalleryOpen(false);
+  };
+
+  const saveStoryboardFromProject = async (
+    name: string,
+    description: string,
+  ) => {
+    const template = createTemplateFromProject(
+      currentProject,
+      name,
+      description,
+    );
+    await saveStoryboardTemplate(template);
+    setStoryboardTemplates((current) =>
+      [...current, template].sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  };
+
+  const removeStoryboardTemplate = async (id: string) => {
+    setStoryboardTemplates((current) =>
+      current.filter((template) => template.id !== id),
+    );
+    try {
+      await deleteStoryboardTemplate(id);
+    } catch {
+      // The template is already gone from this session.
+    }
+  };
+
+  const downloadCaptions = (format: "srt" | "vtt") => {
+    const basename = slugify(projectMeta.name) || "storyboard";
+    downloadBlob(
+      format === "srt"
+        ? new Blob([formatSrt(captionTrack)], { type: "application/x-subrip" })
+        : new Blob([formatWebVtt(captionTrack)], { type: "text/vtt" }),
+      `${basename}.${format}`,
+    );
+  };
+
+  const markers = useMemo(
+    () => commentMarkers(comments, scenes, sceneTimings, selectedCommentId),
+    [comments, scenes, sceneTimings, selectedCommentId],
+  );
+
+  const jumpToComment = (comment: ReviewComment, time: number) => {
+    setSelectedCommentId(comment.id);
+    setPreviewPlaying(false);
+    seekPreview(time);
+    if (comment.sceneId) setSelectedSceneId(comment.sceneId);
+  };
+
+  const importComments = async (file: File) => {
+    setCommentError(null);
+    try {
+      const review = await readReviewFile(file);
+      if (review.projectId && review.projectId !== projectMeta.id) {
+        throw new Error(
+          `These comments are for "${review.projectName || "another project"}".`,
+        );
+      }
+      setComments((current) => mergeReviewComments(current, review.comments));
+    } catch (error) {
+      setCommentError(
+        error instanceof Error ? error.message : "Unable to import comments.",
+      );
+    }
+  };
+
+  const shareForReview = async () => {
+    try {
+      // A link by project ID opens from local storage, so make sure the
+      // latest edits are there before handing it out.
+      await saveProject(currentProject);
+      const link = await createReviewLink(currentProject);
+      await navigator.clipboard?.writeText(link.url).catch(() => undefined);
+      setReviewLink(link);
+    } catch (error) {
+      setProjectError(
+        error instanceof Error
+          ? error.message
+          : "Unable to create a review link.",
+      );
+    }
+  };
+
+  const exportStill = async (request: StillRequest) => {
+    setExportingStill(true);
+    setStillError(null);
+    try {
+      const { width, height } = normalizeOutput(output);
+      const { blob, filename } = await renderStill(
+        {
+          scenes,
+          width,
+          height,
+          fonts,
+          gradients,
+          watermark,
+          captions: burnedCaptions,
+        },
+        request,
+        projectMeta.name,
+      );
+      downloadBlob(blob, filename);
+    } catch (error) {
+      setStillError(
+        error instanceof Error ? error.message : "Unable to export stills.",
+      );
+    } finally {
+      setExportingStill(false);
+    }
+  };
+
+  const refreshRenderCacheSize = () =>
+    getRenderCacheSize()
+      .then(setRenderCacheSize)
+      .catch(() => undefined);
+
+  const emptyRenderCache = async () => {
+    try {
+      await clearRenderCache();
+    } finally {
+      await refreshRenderCacheSize();
+    }
+  };
+
   const handleRender = async () => {
     if (previousUrlRef.current) {
       URL.revokeObjectURL(previousUrlRef.current);
       previousUrlRef.current = undefined;
     }
 
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
     setRenderState({ status: "loading-encoder", progress: 0.05 });
 
+    let encoder: EncoderChoice | undefined;
+    const onStage = (stage: Stage, progress: number, stats?: RenderStats) => {
+      if (stage === "loading") {
+        setRenderState({
+          status: "loading-encoder",
+          progress: 0.05 + progress * 0.15,
+        });
+      } else if (stage === "frames") {
+        setRenderState({
+          status: "encoding",
+          progress: 0.2 + progress * 0.6,
+          stats,
+          encoder,
+        });
+      } else if (stage === "muxing") {
+        setRenderState({
+          status: "encoding",
+          progress: 0.8 + progress * 0.2,
+          encoder,
+        });
+      }
+    };
+
+    let reused: { segments: number; total: number } | undefined;
     try {
-      const blob = await synthesizeVideo(scenes, {
-        onStage: (stage, progress) => {
-          if (stage === "loading") {
-            setRenderState({
-              status: "loading-encoder",
-              progress: 0.05 + progress * 0.15,
-            });
-          } else if (stage === "frames") {
-            setRenderState({
-              status: "encoding",
-              progress: 0.2 + progress * 0.6,
-            });
-          } else if (stage === "muxing") {
-            setRenderState({
-              status: "encoding",
-              progress: 0.8 + progress * 0.2,
-            });
-          }
-        },
-      });
+      const blob = isServerRender
+        ? await renderOnServer(currentProject, {
+            signal: controller.signal,
+            onStage,
+          })
+        : await synthesizeVideo(scenes, {
+            soundtrack,
+            output,
+            exportSettings,
+            fonts,
+            gradients,
+            watermark,
+            signal: controller.signal,
+            onStage,
+            onSegments: (segments, total) => {
+              reused = { segments, total };
+            },
+            onEncoder: (choice) => {
+              encoder = choice;
+            },
+            onCacheWrites: (pending) =>
+              void pending.then(refreshRenderCacheSize),
+          });
 
       const url = URL.createObjectURL(blob);
       previousUrlRef.current = url;
-      setRenderState({ status: "ready", progress: 1, url });
+      setRenderState({
+        status: "ready",
+        progress: 1,
+        url,
+        filename: exportFilename(exportSettings, "agentic-motion-studio"),
+        mimeType: blob.type,
+        reused,
+        encoder,
+      });
     } catch (error) {
+      if (controller.signal.aborted) {
+        setRenderState({ status: "cancelled", progress: 0 });
+        return;
+      }
       setRenderState({
         status: "error",
         progress: 0,
-        error:
-          error instanceof Error ? error.message : "Something went wrong.",
+        error: error instanceof Error ? error.message : "Something went wrong.",
       });
+    } finally {
+      if (renderAbortRef.current === controller) {
+        renderAbortRef.current = undefined;
+      }
     }
   };
 
+  const cancelRender = () => renderAbortRef.current?.abort();
+
+  const isRendering =
+    renderState.status === "loading-encoder" ||
+    renderState.status === "encoding";
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
       <div className="mx-auto flex max-w-7xl flex-col gap-8 px-6 pb-24 pt-12 lg:px-12">
@@ -245,118 +954,228 @@ export default function Home() {
             polished MP4 without leaving your browser. Every render uses a
             wasm-accelerated pipeline tuned for smooth, high-fidelity output.
           </p>
+          <ProjectMenu
+            projectId={projectMeta.id}
+            name={projectMeta.name}
+            saveState={saveState}
+            recentProjects={recentProjects}
+            onRename={(name) =>
+              setProjectMeta((current) => ({ ...current, name }))
+            }
+            onNew={() =>
+              applyProject(
+                createProject(buildProjectSettings(output, exportSettings)),
+              )
+            }
+            onTemplates={() => setTemplateGalleryOpen((state) => !state)}
+            onOpen={(id) => void openProject(id)}
+            onImport={(file) => void importProject(file)}
+            onExport={() => void downloadProjectFile(currentProject)}
+            onShare={() => void shareForReview()}
+          />
+          {reviewLink && (
+            <div className="flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-4 text-xs text-slate-300">
+              <input
+                readOnly
+                value={reviewLink.url}
+                aria-label="Review link"
+                onFocus={(event) => event.target.select()}
+                className="min-w-0 flex-1 rounded-lg border border-white/10 bg-black/30 px-3 py-1.5 font-mono text-[11px] text-slate-200 focus:outline-none"
+              />
+              <span className={reviewLink.embedded ? "" : "text-amber-300"}>
+                {reviewLink.embedded
+                  ? "Copied. The project travels inside the link."
+                  : "Copied, but this link only opens in this browser: the project is too large to travel inside one. Send reviewers the file from Export instead."}
+              </span>
+              <button
+                type="button"
+                onClick={() => setReviewLink(null)}
+                aria-label="Dismiss review link"
+                className="text-slate-500 transition hover:text-white"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          {projectError && (
+            <div className="rounded-xl border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-300">
+              {projectError}
+            </div>
+          )}
+          {isTemplateGalleryOpen && (
+            <TemplateGallery
+              templates={galleryTemplates}
+              projectName={projectMeta.name}
+              onUse={startFromTemplate}
+              onSave={saveStoryboardFromProject}
+              onDelete={(id) => void removeStoryboardTemplate(id)}
+              onClose={() => setTemplateGalleryOpen(false)}
+            />
+          )}
         </header>
 
         <div className="grid gap-8 lg:grid-cols-[360px_1fr]">
           <aside className="flex flex-col gap-6 rounded-2xl border border-white/10 bg-white/[0.01] p-6 backdrop-blur">
+            <HistoryPanel
+              history={history}
+              onUndo={() => setHistory(undoHistory)}
+              onRedo={() => setHistory(redoHistory)}
+              onJump={(id) =>
+                setHistory((current) => jumpToHistory(current, id))
+              }
+            />
+
             <div className="flex items-center justify-between text-sm">
               <span className="font-medium text-slate-200">
                 Scenes ({scenes.length}/{MAX_SCENES})
               </span>
-              <button
-                type="button"
-                disabled={scenes.length >= MAX_SCENES}
-                onClick={addScene}
-                className={classNames(
-                  "rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide transition hover:border-white/30 hover:text-white",
-                  scenes.length >= MAX_SCENES && "opacity-40",
-                )}
-              >
-                Add Scene
-              </button>
-            </div>
-
-            <div className="flex flex-col gap-3">
-              {scenes.map((scene, index) => (
+              <span className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setScriptImportOpen((open) => !open)}
+                  aria-expanded={isScriptImportOpen}
+                  className="rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide transition hover:border-white/30 hover:text-white"
+                >
+                  Import Script
+                </button>
                 <button
-                  key={scene.id}
-                  onClick={() => setSelectedSceneId(scene.id)}
+                  type="button"
+                  disabled={scenes.length >= MAX_SCENES}
+                  onClick={addScene}
                   className={classNames(
-                    "group relative flex flex-col gap-1 rounded-xl border border-white/[0.08] p-4 text-left transition hover:border-white/30",
-                    selectedSceneId === scene.id &&
-                      "border-white/50 bg-white/[0.05] shadow-[0_0_0_1px_rgba(255,255,255,0.08)]",
+                    "rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide transition hover:border-white/30 hover:text-white",
+                    scenes.length >= MAX_SCENES && "opacity-40",
                   )}
                 >
-                  <span className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
-                    <span>Scene {index + 1}</span>
-                    <span>{scene.duration.toFixed(1)}s</span>
-                  </span>
-                  <span className="line-clamp-2 text-sm font-medium text-white">
-                    {scene.title}
-                  </span>
-                  <span className="line-clamp-2 text-xs text-slate-400">
-                    {scene.description}
-                  </span>
-                  <span className="absolute inset-y-0 right-3 flex items-center gap-2 opacity-0 transition group-hover:opacity-100">
-                    <button
-                      type="button"
-                      className="rounded-full bg-white/10 px-2 py-1 text-[10px] uppercase tracking-wide text-white hover:bg-white/20"
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        removeScene(scene.id);
-                      }}
-                    >
-                      Remove
-                    </button>
-                  </span>
+                  Add Scene
                 </button>
-              ))}
+              </span>
             </div>
 
+            {isScriptImportOpen && activeScene && (
+              <ScriptImportPanel
+                scenes={scenes}
+                template={activeScene}
+                gradients={scriptGradients}
+                templates={scriptTemplates}
+                onApply={applyScriptImport}
+                onClose={() => setScriptImportOpen(false)}
+              />
+            )}
+
+            <SceneList
+              scenes={scenes}
+              selectedSceneId={selectedSceneId}
+              onSelect={setSelectedSceneId}
+              onRemove={removeScene}
+              onChapterChange={changeChapter}
+            />
+
             {activeScene && (
               <SceneEditor
                 key={activeScene.id}
                 scene={activeScene}
-                onChange={(updated) => updateScene(activeScene.id, () => updated)}
+                isFirstScene={activeScene.id === scenes[0]?.id}
+                motionTemplates={motionTemplates}
+                fonts={fonts}
+                onUploadFont={uploadFont}
+                gradients={gradients}
+                onSaveGradient={saveGradient}
+                onDeleteGradient={deleteGradient}
+                swatches={brandKit?.colors ?? []}
+                onChange={(updated) =>
+                  updateScene(activeScene.id, () => updated)
+                }
+                onSaveTemplate={(label) =>
+                  void saveTemplateFromScene(activeScene, label)
+                }
+                onDeleteTemplate={(id) => void removeTemplate(id)}
               />
             )}
           </aside>
 
           <main className="flex flex-col gap-6">
             <div className="relative overflow-hidden rounded-3xl border border-white/[0.07] bg-slate-950/50 p-6 shadow-2xl shadow-blue-500/10">
-              <div className="mb-4 flex items-center justify-between">
-                <div>
-                  <h2 className="text-lg font-semibold text-white">
-                    Live Motion Preview
-                  </h2>
-                  <p className="text-sm text-slate-400">
-                    {totalDuration.toFixed(1)}s total runtime · {FPS}fps render
-                    target
-                  </p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <button
-                    type="button"
-                    onClick={() => setPreviewPlaying((state) => !state)}
-                    className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:border-white/50 hover:bg-white/10"
-                  >
-                    {isPreviewPlaying ? "Pause" : "Play"}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setPreviewTime(0)}
-                    className="rounded-full border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/50 hover:text-white"
-                  >
-                    Restart
-                  </button>
-                </div>
+              <div className="mb-4">
+                <h2 className="text-lg font-semibold text-white">
+                  Live Motion Preview
+                </h2>
+                <p className="text-sm text-slate-400">
+                  {totalDuration.toFixed(1)}s total runtime · {output.fps}fps
+                  render target
+                </p>
               </div>
 
               <div className="relative rounded-2xl border border-white/5 bg-slate-900/40 p-3">
                 <canvas
                   ref={canvasRef}
-                  width={CANVAS_WIDTH}
-                  height={CANVAS_HEIGHT}
-                  className="aspect-video w-full rounded-xl bg-black"
+                  width={output.width}
+                  height={output.height}
+                  className="mx-auto block max-h-[70vh] max-w-full rounded-xl bg-black"
+                  style={{
+                    aspectRatio: `${output.width} / ${output.height}`,
+                    width: output.width > output.height ? "100%" : "auto",
+                    height: output.width > output.height ? "auto" : "70vh",
+                  }}
+                />
+                <Transport
+                  time={previewTime}
+                  duration={totalDuration}
+                  fps={output.fps}
+                  isPlaying={isPreviewPlaying}
+                  rate={playbackRate}
+                  loopRange={activeLoopRange}
+                  onTogglePlay={() => setPreviewPlaying((state) => !state)}
+                  onSeek={seekPreview}
+                  onRateChange={setPlaybackRate}
+                  onLoopRangeChange={setLoopRange}
                 />
                 <Timeline
                   scenes={scenes}
+                  timings={sceneTimings}
                   currentTime={previewTime}
                   totalDuration={totalDuration}
+                  loopRange={activeLoopRange}
+                  selectedSceneId={activeScene?.id}
+                  markers={markers}
+                  onSeek={seekPreview}
+                  onSelect={setSelectedSceneId}
+                  onMarkerSelect={setSelectedCommentId}
+                  onMove={moveScene}
+                  onTrim={(id, duration) =>
+                    updateScene(id, (scene) =>
+                      scene.duration === duration
+                        ? scene
+                        : { ...scene, duration },
+                    )
+                  }
                 />
               </div>
             </div>
 
+            <BrandKitPanel
+              kit={brandKit}
+              library={brandKits}
+              fonts={fonts}
+              gradients={gradients}
+              onSelect={selectBrandKit}
+              onChange={changeBrandKit}
+              onCreate={() => {
+                const kit = createBrandKit("New brand", activeScene);
+                storeBrandKit(kit);
+                selectBrandKit(kit);
+              }}
+              onDelete={removeBrandKit}
+              onImport={importBrandKit}
+              onApplyToAll={applyBrandToAll}
+            />
+
+            <SoundtrackPanel
+              soundtrack={soundtrack}
+              totalDuration={totalDuration}
+              onChange={setSoundtrack}
+            />
+
             <section className="rounded-3xl border border-white/10 bg-slate-900/60 p-6">
               <div className="flex flex-wrap items-center justify-between gap-4">
                 <div>
@@ -364,19 +1183,109 @@ export default function Home() {
                     Render Export
                   </h3>
                   <p className="text-sm text-slate-400">
-                    Generates a smooth 1280×720 MP4 with a buttery 24fps cadence.
+                    Generates a smooth {output.width}×{output.height}{" "}
+                    {getExportFormat(exportSettings.format).label} with a
+                    buttery {output.fps}fps cadence.
                   </p>
                 </div>
-                <button
-                  type="button"
-                  onClick={handleRender}
-                  className="rounded-full bg-gradient-to-r from-cyan-400 via-blue-500 to-indigo-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:shadow-[0_12px_35px_-15px_rgba(59,130,246,0.8)]"
-                >
-                  Render Video
-                </button>
+                {isRendering ? (
+                  <button
+                    type="button"
+                    onClick={cancelRender}
+                    className="rounded-full border border-white/20 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-200 transition hover:border-red-400/60 hover:text-red-300"
+                  >
+                    Cancel Render
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleRender}
+                    className="rounded-full bg-gradient-to-r from-cyan-400 via-blue-500 to-indigo-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:shadow-[0_12px_35px_-15px_rgba(59,130,246,0.8)]"
+                  >
+                    Render Video
+                  </button>
+                )}
               </div>
 
-              <RenderStatus status={renderState} />
+              {canRenderOnServer && (
+                <label className="mt-4 flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={isServerRender}
+                    disabled={isRendering}
+                    onChange={(event) => setServerRender(event.target.checked)}
+                    className="h-4 w-4 accent-blue-500"
+                  />
+                  Render on the server
+                  <span className="text-xs text-slate-500">
+                    for long or high-resolution videos
+                  </span>
+                </label>
+              )}
+              {renderCacheSize !== null && (
+                <div className="mt-2 flex items-center gap-3 text-xs text-slate-500">
+                  <span>
+                    Render cache · {formatMegabytes(renderCacheSize)} of{" "}
+                    {formatMegabytes(RENDER_CACHE_LIMIT)} · unchanged scenes
+                    skip re-encoding
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => void emptyRenderCache()}
+                    disabled={isRendering || !renderCacheSize}
+                    className="font-semibold uppercase tracking-wide text-slate-300 transition hover:text-white disabled:opacity-30"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+
+              <OutputProfilePanel output={output} onChange={setOutput} />
+              <ExportFormatPanel
+                settings={exportSettings}
+                onChange={setExportSettings}
+              />
+              <CaptionPanel
+                settings={exportSettings.captions}
+                cueCount={captionTrack.length}
+                canEmbed={Boolean(
+                  getExportFormat(exportSettings.format).subtitleCodec,
+                )}
+                onChange={(captions) =>
+                  setExportSettings((current) => ({ ...current, captions }))
+                }
+                onDownload={downloadCaptions}
+              />
+              <StillsPanel
+                currentTime={previewTime}
+                totalDuration={totalDuration}
+                sceneCount={scenes.length}
+                busy={isExportingStill}
+                error={stillError}
+                onExport={(request) => void exportStill(request)}
+              />
+              <ReviewCommentsPanel
+                comments={comments}
+                scenes={scenes}
+                timings={sceneTimings}
+                currentTime={previewTime}
+                fps={output.fps}
+                selectedCommentId={selectedCommentId}
+                error={commentError}
+                onJump={jumpToComment}
+                onDelete={(id) =>
+                  setComments((current) =>
+                    current.filter((comment) => comment.id !== id),
+                  )
+                }
+                onImport={(file) => void importComments(file)}
+                onExport={() => downloadReviewFile(projectMeta, comments)}
+              />
+
+              <RenderStatus
+                status={renderState}
+                encoder={isServerRender ? null : detectedEncoder}
+              />
             </section>
           </main>
         </div>
@@ -387,11 +1296,59 @@ export default function Home() {
 
 function SceneEditor({
   scene,
+  isFirstScene,
+  motionTemplates,
+  fonts,
+  onUploadFont,
+  gradients,
+  onSaveGradient,
+  onDeleteGradient,
+  swatches,
   onChange,
+  onSaveTemplate,
+  onDeleteTemplate,
 }: {
   scene: Scene;
+  isFirstScene: boolean;
+  motionTemplates: MotionTemplate[];
+  fonts: FontAsset[];
+  onUploadFont: (file: File) => Promise<void>;
+  gradients: CustomGradient[];
+  onSaveGradient: (gradient: CustomGradient) => void;
+  onDeleteGradient: (id: string) => void;
+  swatches: BrandColor[];
   onChange: (scene: Scene) => void;
+  onSaveTemplate: (label: string) => void;
+  onDeleteTemplate: (id: string) => void;
 }) {
+  const [voiceOverError, setVoiceOverError] = useState<string>();
+
+  const updateTransition = (patch: Partial<SceneTransition>) =>
+    onChange({ ...scene, transition: { ...scene.transition, ...patch } });
+
+  const updateVoiceOver = (patch: Partial<VoiceOver>) => {
+    if (!scene.voiceOver) return;
+    onChange({ ...scene, voiceOver: { ...scene.voiceOver, ...patch } });
+  };
+
+  const handleVoiceOverFile = async (file: File | undefined) => {
+    if (!file) return;
+    setVoiceOverError(undefined);
+    try {
+      const asset = await loadAudioAsset(file);
+      onChange({
+        ...scene,
+        voiceOver: { offset: 0, volume: 1, ...scene.voiceOver, asset },
+      });
+    } catch (error) {
+      setVoiceOverError(
+        error instanceof Error
+          ? error.message
+          : "Unable to load that audio file.",
+      );
+    }
+  };
+
   return (
     <div className="flex flex-col gap-5 rounded-2xl border border-white/10 bg-slate-900/40 p-5 text-sm">
       <div className="flex flex-col gap-1.5">
@@ -400,7 +1357,9 @@ function SceneEditor({
         </label>
         <input
           value={scene.title}
-          onChange={(event) => onChange({ ...scene, title: event.target.value })}
+          onChange={(event) =>
+            onChange({ ...scene, title: event.target.value })
+          }
           className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none"
         />
       </div>
@@ -417,6 +1376,9 @@ function SceneEditor({
           }
           className="resize-none rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none"
         />
+        <p className="text-xs text-slate-500">
+          Wrap words in *asterisks* to set them in the accent color.
+        </p>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -447,13 +1409,11 @@ function SceneEditor({
           <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
             Text Color
           </label>
-          <input
-            type="color"
+          <ColorField
             value={scene.textColor}
-            onChange={(event) =>
-              onChange({ ...scene, textColor: event.target.value })
-            }
-            className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5"
+            swatches={swatches}
+            label="Text color"
+            onChange={(textColor) => onChange({ ...scene, textColor })}
           />
         </div>
       </div>
@@ -462,152 +1422,232 @@ function SceneEditor({
         <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
           Accent Color
         </label>
-        <input
-          type="color"
+        <ColorField
           value={scene.accent}
-          onChange={(event) =>
-            onChange({ ...scene, accent: event.target.value })
-          }
-          className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5"
+          swatches={swatches}
+          label="Accent color"
+          onChange={(accent) => onChange({ ...scene, accent })}
         />
       </div>
 
+      <TypographyPanel
+        typography={scene.typography}
+        fonts={fonts}
+        onChange={(typography) => onChange({ ...scene, typography })}
+        onUploadFont={onUploadFont}
+      />
+
+      <BackgroundPanel
+        gradientId={scene.gradientId}
+        background={scene.background}
+        gradients={gradients}
+        swatches={swatches}
+        onChange={(patch) => onChange({ ...scene, ...patch })}
+        onSaveGradient={onSaveGradient}
+        onDeleteGradient={onDeleteGradient}
+      />
+
+      <MotionPanel
+        templateId={scene.motionTemplate}
+        userTemplates={motionTemplates}
+        onApply={(template) =>
+          onChange({
+            ...scene,
+            layers: applySceneMotion(scene.layers, template.motion),
+            motionTemplate: template.id,
+          })
+        }
+        onSaveTemplate={onSaveTemplate}
+        onDeleteTemplate={onDeleteTemplate}
+      />
+
+      <LayerPanel
+        layers={scene.layers}
+        defaultColor={scene.textColor}
+        fonts={fonts}
+        onChange={(layers, motionEdited) =>
+          onChange({
+            ...scene,
+            layers,
+            motionTemplate: motionEdited ? null : scene.motionTemplate,
+          })
+        }
+      />
+
       <div className="flex flex-col gap-1.5">
         <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
-          Gradient
+          Transition In
         </label>
-        <div className="grid grid-cols-3 gap-2">
-          {GRADIENTS.map((gradient) => (
-            <button
-              type="button"
-              key={gradient.id}
-              onClick={() => onChange({ ...scene, gradientId: gradient.id })}
-              className={classNames(
-                "relative h-16 overflow-hidden rounded-xl border border-white/10 transition hover:border-white/40",
-                scene.gradientId === gradient.id && "border-white/60",
-              )}
-            >
-              <GradientSwatch gradient={gradient} />
-              <span className="absolute bottom-1 left-1 rounded-full bg-black/60 px-2 text-[10px] font-medium uppercase tracking-wide text-white">
-                {gradient.label}
-              </span>
-            </button>
-          ))}
-        </div>
+        {isFirstScene ? (
+          <p className="text-xs text-slate-500">
+            The opening scene starts the video, so it has no incoming
+            transition.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2">
+              {TRANSITION_OPTIONS.map((option) => (
+                <button
+                  type="button"
+                  key={option.id}
+                  onClick={() => updateTransition({ type: option.id })}
+                  className={classNames(
+                    "rounded-xl border border-white/10 px-2 py-2 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white",
+                    scene.transition.type === option.id &&
+                      "border-white/60 bg-white/10",
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                min={MIN_TRANSITION}
+                max={MAX_TRANSITION}
+                step={0.1}
+                value={scene.transition.duration}
+                disabled={scene.transition.type === "cut"}
+                onChange={(event) =>
+                  updateTransition({
+                    duration: clamp(
+                      Number(event.target.value),
+                      MIN_TRANSITION,
+                      MAX_TRANSITION,
+                    ),
+                  })
+                }
+                className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none disabled:opacity-40"
+              />
+              <input
+                type="color"
+                value={scene.transition.color}
+                disabled={scene.transition.type !== "dip-to-color"}
+                onChange={(event) =>
+                  updateTransition({ color: event.target.value })
+                }
+                className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5 disabled:cursor-not-allowed disabled:opacity-40"
+              />
+            </div>
+          </>
+        )}
       </div>
 
       <div className="flex flex-col gap-1.5">
-        <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
-          Motion System
-        </label>
-        <div className="grid grid-cols-3 gap-2">
-          {ANIMATION_OPTIONS.map((option) => (
-            <button
-              type="button"
-              key={option.id}
-              onClick={() => onChange({ ...scene, animation: option.id })}
-              className={classNames(
-                "rounded-xl border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white",
-                scene.animation === option.id && "border-white/60 bg-white/10",
-              )}
-            >
-              {option.label}
-            </button>
-          ))}
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Voice-over
+          </label>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white">
+              {scene.voiceOver ? "Replace" : "Upload"}
+              <input
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(event) => {
+                  void handleVoiceOverFile(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+            {scene.voiceOver && (
+              <button
+                type="button"
+                onClick={() => onChange({ ...scene, voiceOver: undefined })}
+                className="rounded-full bg-white/10 px-2 py-1 text-[10px] uppercase tracking-wide text-white hover:bg-white/20"
+              >
+                Remove
+              </button>
+            )}
+          </div>
         </div>
+        {voiceOverError && (
+          <p className="text-xs text-red-300">{voiceOverError}</p>
+        )}
+        {scene.voiceOver ? (
+          <>
+            <p className="truncate text-xs text-slate-400">
+              {scene.voiceOver.asset.name} ·{" "}
+              {scene.voiceOver.asset.duration.toFixed(1)}s
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                min={0}
+                max={scene.duration}
+                step={0.1}
+                value={scene.voiceOver.offset}
+                aria-label="Voice-over start offset in seconds"
+                onChange={(event) =>
+                  updateVoiceOver({
+                    offset: clamp(
+                      Number(event.target.value),
+                      0,
+                      scene.duration,
+                    ),
+                  })
+                }
+                className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none"
+              />
+              <input
+                type="range"
+                min={0}
+                max={1.5}
+                step={0.05}
+                value={scene.voiceOver.volume}
+                aria-label="Voice-over volume"
+                onChange={(event) =>
+                  updateVoiceOver({ volume: Number(event.target.value) })
+                }
+                className="accent-blue-500"
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500">
+            Optional narration that starts with this scene.
+          </p>
+        )}
       </div>
-    </div>
-  );
-}
 
-function GradientSwatch({ gradient }: { gradient: GradientSpec }) {
-  return (
-    <svg className="h-full w-full" role="presentation">
-      <defs>
-        <linearGradient
-          id={`${gradient.id}-swatch`}
-          gradientUnits="userSpaceOnUse"
-          x1="0%"
-          y1="0%"
-          x2={`${50 + 50 * Math.cos((gradient.angle * Math.PI) / 180)}%`}
-          y2={`${50 + 50 * Math.sin((gradient.angle * Math.PI) / 180)}%`}
-        >
-          {gradient.stops.map((stop) => (
-            <stop
-              key={stop.at}
-              offset={`${stop.at * 100}%`}
-              stopColor={stop.color}
-            />
-          ))}
-        </linearGradient>
-      </defs>
-      <rect
-        x="0"
-        y="0"
-        width="100%"
-        height="100%"
-        fill={`url(#${gradient.id}-swatch)`}
+      <SceneCaptionsPanel
+        scene={scene}
+        onChange={(captions) => onChange({ ...scene, captions })}
       />
-    </svg>
+    </div>
   );
 }
 
-function Timeline({
-  scenes,
-  currentTime,
-  totalDuration,
+function RenderStatus({
+  status,
+  encoder,
 }: {
-  scenes: Scene[];
-  currentTime: number;
-  totalDuration: number;
+  status: RenderState;
+  /** The encoder detected for the current settings, shown before a render. */
+  encoder: EncoderChoice | null;
 }) {
-  let elapsed = 0;
-
-  return (
-    <div className="mt-4 flex flex-col gap-2">
-      <div className="relative h-1 rounded-full bg-white/10">
-        <div
-          className="absolute inset-y-0 left-0 rounded-full bg-gradient-to-r from-cyan-400 via-blue-500 to-indigo-500"
-          style={{
-            width: `${totalDuration ? (currentTime / totalDuration) * 100 : 0}%`,
-          }}
-        />
-      </div>
-      <div className="grid grid-cols-12 gap-2 text-[10px] uppercase tracking-wider text-slate-400">
-        {scenes.map((scene, index) => {
-          const width = totalDuration
-            ? (scene.duration / totalDuration) * 100
-            : 0;
-          const start = elapsed;
-          elapsed += scene.duration;
-          const span = Math.max(
-            1,
-            Math.round(((width || (100 / scenes.length)) / 100) * 12),
-          );
-
-          return (
-            <div
-              key={scene.id}
-              className="relative rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-center font-semibold text-slate-300"
-              style={{ gridColumn: `span ${span} / span ${span}` }}
-            >
-              Scene {index + 1} · {scene.duration.toFixed(1)}s
-              <span className="pointer-events-none absolute inset-x-0 -bottom-2 text-[9px] font-medium text-blue-400/80">
-                {start.toFixed(1)}s
-              </span>
-            </div>
-          );
-        })}
+  if (status.status === "idle") {
+    return (
+      <div className="mt-4 flex flex-col gap-1">
+        <p className="text-sm text-slate-400">
+          No render yet. Tune your scenes, then export whenever you&apos;re
+          ready.
+        </p>
+        {encoder && (
+          <p className="text-xs text-slate-500">
+            Encoder: {describeEncoder(encoder)}
+          </p>
+        )}
       </div>
-    </div>
-  );
-}
+    );
+  }
 
-function RenderStatus({ status }: { status: RenderState }) {
-  if (status.status === "idle") {
+  if (status.status === "cancelled") {
     return (
       <p className="mt-4 text-sm text-slate-400">
-        No render yet. Tune your scenes, then export whenever you&apos;re ready.
+        Render cancelled. Adjust anything you like and render again.
       </p>
     );
   }
@@ -624,20 +1664,42 @@ function RenderStatus({ status }: { status: RenderState }) {
     return (
       <div className="mt-4 flex flex-col gap-3 rounded-xl border border-emerald-500/40 bg-emerald-500/10 p-4">
         <p className="text-sm font-medium text-emerald-200">
-          Render complete. Download your MP4 below.
+          Render complete. Download {status.filename} below.
         </p>
+        {status.reused && status.reused.segments > 0 && (
+          <p className="text-xs text-emerald-300/80">
+            {status.reused.segments} of {status.reused.total} scene segments
+            came from the render cache.
+          </p>
+        )}
+        {status.encoder && (
+          <p className="text-xs text-emerald-300/80">
+            Encoded with {describeEncoder(status.encoder)}.
+          </p>
+        )}
         <a
           href={status.url}
-          download="agentic-motion-studio.mp4"
+          download={status.filename}
+          type={status.mimeType}
           className="inline-flex w-fit items-center gap-2 rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 transition hover:bg-emerald-300"
         >
-          Download video
+          {status.mimeType.startsWith("video/") ? "Download video" : "Download"}
         </a>
-        <video
-          controls
-          src={status.url}
-          className="mt-2 w-full rounded-xl border border-white/10"
-        />
+        {status.mimeType.startsWith("video/") && (
+          <video
+            controls
+            src={status.url}
+            className="mt-2 w-full rounded-xl border border-white/10"
+          />
+        )}
+        {status.mimeType.startsWith("image/") && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={status.url}
+            alt="Rendered animation"
+            className="mt-2 w-full rounded-xl border border-white/10"
+          />
+        )}
       </div>
     );
   }
@@ -661,376 +1723,37 @@ function RenderStatus({ status }: { status: RenderState }) {
         />
       </div>
       <p className="text-xs text-slate-400">
-        Rendering happens entirely in-browser with WebAssembly acceleration.
-        Keep this tab focused for the fastest result.
+        {status.status === "encoding" && status.stats
+          ? `${status.stats.fps.toFixed(1)} frames/s · ${formatEta(status.stats.eta)} remaining`
+          : "Frames render in a background worker, so you can keep editing while you wait."}
       </p>
+      {status.status === "encoding" && status.encoder && (
+        <p className="text-xs text-slate-500">
+          Encoder: {describeEncoder(status.encoder)}
+        </p>
+      )}
     </div>
   );
 }
 
-type Stage = "loading" | "frames" | "muxing";
-
-type FFmpegInstance = Awaited<ReturnType<typeof getFFmpeg>>;
-
-async function synthesizeVideo(
-  scenes: Scene[],
-  options: {
-    onStage?: (stage: Stage, progress: number) => void;
-  } = {},
-) {
-  if (!scenes.length) {
-    throw new Error("Add at least one scene before rendering.");
-  }
-
-  const onStage = options.onStage ?? (() => undefined);
-  const ffmpeg = await loadEncoder(onStage);
-  const canvas = document.createElement("canvas");
-  canvas.width = CANVAS_WIDTH;
-  canvas.height = CANVAS_HEIGHT;
-  const context = canvas.getContext("2d");
-  if (!context) {
-    throw new Error("Unable to access 2D context for rendering.");
-  }
-
-  const totalFrames = Math.max(1, Math.round(totalDurationForScenes(scenes) * FPS));
-  const writtenFiles: string[] = [];
-  let frameIndex = 0;
-
-  for (const scene of scenes) {
-    const framesForScene = Math.max(1, Math.round(scene.duration * FPS));
-
-    for (let frame = 0; frame < framesForScene; frame += 1) {
-      const progress = framesForScene <= 1 ? 1 : frame / (framesForScene - 1);
-      renderSceneFrame(context, scene, progress);
-      const filename = `frame_${String(frameIndex).padStart(5, "0")}.png`;
-      const pixels = canvasToUint8(canvas);
-      await ffmpeg.writeFile(filename, pixels);
-      writtenFiles.push(filename);
-      frameIndex += 1;
-      onStage("frames", frameIndex / totalFrames);
-    }
-  }
-
-  onStage("muxing", 0.1);
-
-  let data: Uint8Array | null = null;
-
-  try {
-    await ffmpeg.exec([
-      "-framerate",
-      String(FPS),
-      "-i",
-      "frame_%05d.png",
-      "-c:v",
-      "libx264",
-      "-pix_fmt",
-      "yuv420p",
-      "output.mp4",
-    ]);
-
-    onStage("muxing", 0.9);
-    const fileData = await ffmpeg.readFile("output.mp4");
-    if (!(fileData instanceof Uint8Array)) {
-      throw new Error("Unexpected encoder output format.");
-    }
-    data = fileData;
-    onStage("muxing", 1);
-  } finally {
-    await cleanupFfmpeg(ffmpeg, writtenFiles);
-  }
-
-  if (!data) {
-    throw new Error("Failed to read rendered video output.");
-  }
-
-  const copy = new Uint8Array(data.length);
-  copy.set(data);
-
-  return new Blob([copy.buffer], { type: "video/mp4" });
-}
-
-async function loadEncoder(
-  onStage: (stage: Stage, progress: number) => void,
-): Promise<FFmpegInstance> {
-  onStage("loading", 0.1);
-  const ffmpeg = await getFFmpeg();
-  onStage("loading", 1);
-  return ffmpeg;
-}
-
-function totalDurationForScenes(scenes: Scene[]) {
-  return scenes.reduce((total, scene) => total + scene.duration, 0);
-}
-
-function renderPreviewFrame(
-  context: CanvasRenderingContext2D,
-  scenes: Scene[],
-  time: number,
-) {
-  const totalDuration = totalDurationForScenes(scenes);
-  if (totalDuration === 0) return;
-
-  let elapsed = 0;
-
-  for (const scene of scenes) {
-    const start = elapsed;
-    const end = start + scene.duration;
-    elapsed = end;
-
-    if (time >= start && time < end) {
-      const progress = (time - start) / scene.duration;
-      renderSceneFrame(context, scene, progress);
-      return;
-    }
+function describeEncoder(encoder: EncoderChoice) {
+  switch (encoder.kind) {
+    case "webcodecs":
+      return `WebCodecs ${encoder.label} (${encoder.hardware ? "hardware" : "software"})`;
+    case "ffmpeg":
+      return `ffmpeg.wasm · ${encoder.reason}`;
+    case "zip":
+      return "PNG frames, no video encoder";
   }
-
-  renderSceneFrame(context, scenes[scenes.length - 1], 1);
 }
 
-function renderSceneFrame(
-  context: CanvasRenderingContext2D,
-  scene: Scene,
-  progress: number,
-) {
-  const gradient = GRADIENTS.find((entry) => entry.id === scene.gradientId);
-  if (!gradient) {
-    throw new Error(`Missing gradient "${scene.gradientId}".`);
-  }
-
-  context.save();
-  drawGradient(context, CANVAS_WIDTH, CANVAS_HEIGHT, gradient);
-
-  drawMist(context);
-  drawAccent(context, scene.accent, progress, scene.animation);
-  drawTextBlock(context, scene, progress);
-
-  context.restore();
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
 }
 
-function drawMist(context: CanvasRenderingContext2D) {
-  const gradient = context.createRadialGradient(
-    CANVAS_WIDTH * 0.3,
-    CANVAS_HEIGHT * 0.2,
-    0,
-    CANVAS_WIDTH * 0.4,
-    CANVAS_HEIGHT * 0.3,
-    CANVAS_WIDTH * 0.8,
-  );
-  gradient.addColorStop(0, "rgba(255,255,255,0.18)");
-  gradient.addColorStop(1, "rgba(255,255,255,0)");
-
-  context.fillStyle = gradient;
-  context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-}
-
-function drawAccent(
-  context: CanvasRenderingContext2D,
-  accent: string,
-  progress: number,
-  animation: SceneAnimation,
-) {
-  const eased = easeInOut(progress);
-  const baseOpacity = 0.35 + 0.15 * Math.sin(progress * Math.PI);
-  context.save();
-  context.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-
-  const scale =
-    animation === "zoom"
-      ? 1 + eased * 0.08
-      : animation === "slide"
-        ? 1.05 + Math.sin(progress * Math.PI) * 0.05
-        : 1 + Math.cos(progress * Math.PI * 2) * 0.04;
-
-  context.scale(scale, scale);
-
-  const rotation =
-    animation === "slide"
-      ? (easeOut(progress) - 0.5) * 0.4
-      : animation === "drift"
-        ? Math.sin(progress * Math.PI * 2) * 0.2
-        : easeInOut(progress) * 0.15;
-
-  context.rotate(rotation);
-
-  const rectWidth = CANVAS_WIDTH * 0.65;
-  const rectHeight = CANVAS_HEIGHT * 0.65;
-
-  const gradient = context.createLinearGradient(
-    -rectWidth / 2,
-    -rectHeight / 2,
-    rectWidth / 2,
-    rectHeight / 2,
-  );
-
-  gradient.addColorStop(0, `${accent}30`);
-  gradient.addColorStop(1, `${accent}00`);
-
-  context.fillStyle = gradient;
-  context.globalAlpha = baseOpacity;
-  roundedRect(
-    context,
-    -rectWidth / 2,
-    -rectHeight / 2,
-    rectWidth,
-    rectHeight,
-    48,
-  );
-  context.fill();
-  context.restore();
-}
-
-function drawTextBlock(
-  context: CanvasRenderingContext2D,
-  scene: Scene,
-  progress: number,
-) {
-  const padding = 120;
-  const textWidth = CANVAS_WIDTH - padding * 2;
-  context.save();
-  context.translate(padding, padding);
-
-  const offset =
-    scene.animation === "slide"
-      ? (1 - easeOut(progress)) * 80
-      : scene.animation === "drift"
-        ? Math.sin(progress * Math.PI * 2) * 20
-        : (1 - easeOut(progress)) * 40;
-
-  context.translate(0, offset);
-  context.globalAlpha = easeIn(progress);
-
-  context.fillStyle = scene.textColor;
-
-  context.font = fontStyles.title;
-  context.textBaseline = "top";
-
-  const titleLines = wrapText(context, scene.title, textWidth);
-
-  let currentY = 0;
-
-  titleLines.forEach((line) => {
-    context.fillText(line, 0, currentY);
-    currentY += 70;
-  });
-
-  context.globalAlpha = easeIn(progress) * 0.9;
-  context.font = fontStyles.description;
-
-  const bodyLines = wrapText(context, scene.description, textWidth);
-  currentY += 20;
-
-  bodyLines.forEach((line) => {
-    context.fillText(line, 0, currentY);
-    currentY += 44;
-  });
-
-  context.restore();
-}
-
-function wrapText(
-  context: CanvasRenderingContext2D,
-  text: string,
-  maxWidth: number,
-) {
-  const words = text.split(" ");
-  const lines: string[] = [];
-  let currentLine = "";
-
-  for (const word of words) {
-    const testLine = currentLine ? `${currentLine} ${word}` : word;
-    const metrics = context.measureText(testLine);
-    if (metrics.width > maxWidth && currentLine) {
-      lines.push(currentLine);
-      currentLine = word;
-    } else {
-      currentLine = testLine;
-    }
-  }
-
-  if (currentLine) {
-    lines.push(currentLine);
-  }
-
-  return lines;
-}
-
-function clamp(value: number, min: number, max: number) {
-  return Math.min(Math.max(value, min), max);
-}
-
-function easeInOut(value: number) {
-  return value < 0.5
-    ? 4 * value * value * value
-    : 1 - Math.pow(-2 * value + 2, 3) / 2;
-}
-
-function easeOut(value: number) {
-  return 1 - Math.pow(1 - value, 3);
-}
-
-function easeIn(value: number) {
-  return value * value;
-}
-
-function roundedRect(
-  context: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number,
-) {
-  context.beginPath();
-  context.moveTo(x + radius, y);
-  context.lineTo(x + width - radius, y);
-  context.quadraticCurveTo(x + width, y, x + width, y + radius);
-  context.lineTo(x + width, y + height - radius);
-  context.quadraticCurveTo(
-    x + width,
-    y + height,
-    x + width - radius,
-    y + height,
-  );
-  context.lineTo(x + radius, y + height);
-  context.quadraticCurveTo(x, y + height, x, y + height - radius);
-  context.lineTo(x, y + radius);
-  context.quadraticCurveTo(x, y, x + radius, y);
-  context.closePath();
-}
-
-function canvasToUint8(canvas: HTMLCanvasElement) {
-  const dataUrl = canvas.toDataURL("image/png");
-  const base64 = dataUrl.split(",")[1];
-  const decoder =
-    typeof window !== "undefined" && typeof window.atob === "function"
-      ? window.atob.bind(window)
-      : null;
-
-  if (!decoder) {
-    throw new Error("Base64 decoding is not available in this environment.");
-  }
-
-  const binary = decoder(base64);
-  const length = binary.length;
-  const bytes = new Uint8Array(length);
-  for (let i = 0; i < length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function cleanupFfmpeg(ffmpeg: FFmpegInstance, files: string[]) {
-  for (const file of files) {
-    try {
-      await ffmpeg.deleteFile(file);
-    } catch {
-      // ignore
-    }
-  }
-
-  try {
-    await ffmpeg.deleteFile("output.mp4");
-  } catch {
-    // ignore
-  }
+function formatEta(seconds: number) {
+  if (!Number.isFinite(seconds)) return "--:--";
+  const total = Math.max(0, Math.ceil(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
 }
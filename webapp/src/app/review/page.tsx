@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { resolveWatermark } from "@/lib/brand";
+import { buildCaptionTrack } from "@/lib/captions";
+import { normalizeOutput } from "@/lib/output";
+import type { Project } from "@/lib/project";
+import { loadReviewComments, saveReviewComments } from "@/lib/project-store";
+import {
+  commentMarkers,
+  downloadReviewFile,
+  mergeReviewComments,
+  type ReviewComment,
+} from "@/lib/review";
+import { loadReviewProject } from "@/lib/share";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+} from "@/lib/transitions";
+import { usePreviewPlayback } from "@/lib/use-preview-playback";
+import { ReviewCommentsPanel } from "@/components/ReviewCommentsPanel";
+import { Timeline } from "@/components/Timeline";
+import { Transport } from "@/components/Transport";
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "ready"; project: Project };
+
+/**
+ * Read-only review of a shared project. Reviewers watch the preview, pin
+ * comments to moments or scenes and export them for the author; their
+ * comments are kept in this browser between visits.
+ */
+export default function ReviewPage() {
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReviewProject(window.location).then(
+      (project) => {
+        if (!cancelled) setState({ status: "ready", project });
+      },
+      (error) => {
+        if (cancelled) return;
+        setState({
+          status: "error",
+          error:
+            error instanceof Error
+              ? error.message
+              : "Unable to open this review link.",
+        });
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex max-w-5xl flex-col gap-8 px-6 pb-24 pt-12 lg:px-12">
+        <header className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Review
+          </span>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-100">
+            {state.status === "ready"
+              ? state.project.name
+              : "Agentic Motion Studio"}
+          </h1>
+        </header>
+        {state.status === "loading" && (
+          <p className="text-sm text-slate-400">Opening project…</p>
+        )}
+        {state.status === "error" && (
+          <div className="rounded-xl border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-300">
+            {state.error}
+          </div>
+        )}
+        {state.status === "ready" && <ProjectReview project={state.project} />}
+      </div>
+    </div>
+  );
+}
+
+function ProjectReview({ project }: { project: Project }) {
+  const { scenes, fonts, gradients } = project;
+  const output = useMemo(
+    () =>
+      normalizeOutput({
+        width: project.settings.canvas.width,
+        height: project.settings.canvas.height,
+        fps: project.settings.render.fps,
+      }),
+    [project],
+  );
+  const [selectedSceneId, setSelectedSceneId] = useState(scenes[0]?.id);
+  const [comments, setComments] = useState(project.comments);
+  const [selectedCommentId, setSelectedCommentId] = useState<string>();
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [isRestored, setRestored] = useState(false);
+
+  const sceneTimings = useMemo(() => computeSceneTimings(scenes), [scenes]);
+  const totalDuration = useMemo(
+    () => totalDurationForTimings(sceneTimings),
+    [sceneTimings],
+  );
+  const watermark = useMemo(
+    () => resolveWatermark(project.brandKit),
+    [project.brandKit],
+  );
+  const burnedCaptions = useMemo(() => {
+    const settings = project.settings.render.export.captions;
+    return settings.burnIn
+      ? { track: buildCaptionTrack(scenes, sceneTimings), settings }
+      : null;
+  }, [project, scenes, sceneTimings]);
+
+  const {
+    canvasRef,
+    time: previewTime,
+    seek,
+    isPlaying,
+    setPlaying,
+    rate,
+    setRate,
+    loopRange,
+    setLoopRange,
+  } = usePreviewPlayback({
+    scenes,
+    timings: sceneTimings,
+    totalDuration,
+    output,
+    fonts,
+    gradients,
+    watermark,
+    captions: burnedCaptions,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReviewComments(project.id)
+      .then((saved) => {
+        if (!cancelled) {
+          setComments((current) => mergeReviewComments(current, saved));
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
+
+  // Written only after the restore, so an empty first render cannot
+  // replace what an earlier visit saved.
+  useEffect(() => {
+    if (!isRestored) return;
+    saveReviewComments(project.id, comments).catch(() =>
+      setCommentError("Comments could not be saved in this browser."),
+    );
+  }, [comments, isRestored, project.id]);
+
+  const markers = useMemo(
+    () => commentMarkers(comments, scenes, sceneTimings, selectedCommentId),
+    [comments, scenes, sceneTimings, selectedCommentId],
+  );
+
+  const jumpToComment = (comment: ReviewComment, time: number) => {
+    setSelectedCommentId(comment.id);
+    setPlaying(false);
+    seek(time);
+    if (comment.sceneId) setSelectedSceneId(comment.sceneId);
+  };
+
+  return (
+    <main className="flex flex-col gap-6">
+      <div className="relative overflow-hidden rounded-3xl border border-white/[0.07] bg-slate-950/50 p-6 shadow-2xl shadow-blue-500/10">
+        <p className="mb-4 text-sm text-slate-400">
+          {scenes.length} scenes · {totalDuration.toFixed(1)}s · read-only
+        </p>
+        <div className="relative rounded-2xl border border-white/5 bg-slate-900/40 p-3">
+          <canvas
+            ref={canvasRef}
+            width={output.width}
+            height={output.height}
+            className="mx-auto block max-h-[70vh] max-w-full rounded-xl bg-black"
+            style={{
+              aspectRatio: `${output.width} / ${output.height}`,
+              width: output.width > output.height ? "100%" : "auto",
+              height: output.width > output.height ? "auto" : "70vh",
+            }}
+          />
+          <Transport
+            time={previewTime}
+            duration={totalDuration}
+            fps={output.fps}
+            isPlaying={isPlaying}
+            rate={rate}
+            loopRange={loopRange}
+            onTogglePlay={() => setPlaying((state) => !state)}
+            onSeek={seek}
+            onRateChange={setRate}
+            onLoopRangeChange={setLoopRange}
+          />
+          <Timeline
+            scenes={scenes}
+            timings={sceneTimings}
+            currentTime={previewTime}
+            totalDuration={totalDuration}
+            loopRange={loopRange}
+            selectedSceneId={selectedSceneId}
+            markers={markers}
+            onSeek={seek}
+            onSelect={(id) => {
+              setSelectedSceneId(id);
+              const index = scenes.findIndex((scene) => scene.id === id);
+              if (sceneTimings[index]) seek(sceneTimings[index].start);
+            }}
+            onMarkerSelect={setSelectedCommentId}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-3xl border border-white/[0.07] bg-slate-950/50 p-6">
+        <p className="text-sm text-slate-400">
+          Comments stay in this browser. Export them and send the file to the
+          author, who imports it into the project.
+        </p>
+        <ReviewCommentsPanel
+          comments={comments}
+          scenes={scenes}
+          timings={sceneTimings}
+          currentTime={previewTime}
+          fps={output.fps}
+          selectedCommentId={selectedCommentId}
+          error={commentError}
+          onJump={jumpToComment}
+          onAdd={(comment) => {
+            setComments((current) => [...current, comment]);
+            setSelectedCommentId(comment.id);
+          }}
+          onDelete={(id) =>
+            setComments((current) =>
+              current.filter((comment) => comment.id !== id),
+            )
+          }
+          onExport={() => downloadReviewFile(project, comments)}
+        />
+      </div>
+    </main>
+  );
+}
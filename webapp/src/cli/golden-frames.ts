@@ -0,0 +1,140 @@
+import { parseArgs } from "node:util";
+import { installNodeCanvas, registerNodeFonts } from "@/node/canvas-backend";
+import {
+  DEFAULT_GOLDEN_TOLERANCE,
+  checkGoldens,
+  checkPreviewParity,
+  listGoldenCases,
+  updateGoldens,
+  writeGoldenReport,
+} from "@/node/golden-frames";
+
+/** The fonts the app ships; goldens are always rendered with them. */
+const BUNDLED_FONT_DIR = "src/app/fonts";
+
+const USAGE = `Usage: golden-frames <check|update> [options]
+
+Commands:
+  check                Render every case, compare it with its golden and
+                       check that preview and export frames are identical
+  update               Overwrite the goldens with the current rendering;
+                       commit them with the change that altered the frames
+
+Options:
+  --only <name>        Only cases whose name starts with <name>; repeatable
+  --dir <dir>          Where the goldens live (default: goldens)
+  --report <dir>       Where check writes its HTML report (default: golden-report)
+  --threshold <0-1>    Color distance a pixel may drift (default: ${DEFAULT_GOLDEN_TOLERANCE.threshold})
+  --max-diff <ratio>   Share of pixels allowed past it (default: ${DEFAULT_GOLDEN_TOLERANCE.maxDiffRatio})
+  --font-dir <dir>     Also load every font file in <dir>; repeatable.
+                       The bundled fonts in ${BUNDLED_FONT_DIR} always load
+  --help, -h           Show this message`;
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      only: { type: "string", multiple: true },
+      dir: { type: "string" },
+      report: { type: "string" },
+      threshold: { type: "string" },
+      "max-diff": { type: "string" },
+      "font-dir": { type: "string", multiple: true },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== "check" && command !== "update") {
+    throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+
+  const ratio = (name: string, value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new Error(`--${name} must be a number from 0 to 1.`);
+    }
+    return parsed;
+  };
+  const tolerance = {
+    threshold: ratio(
+      "threshold",
+      values.threshold,
+      DEFAULT_GOLDEN_TOLERANCE.threshold,
+    ),
+    maxDiffRatio: ratio(
+      "max-diff",
+      values["max-diff"],
+      DEFAULT_GOLDEN_TOLERANCE.maxDiffRatio,
+    ),
+  };
+  const directory = values.dir ?? "goldens";
+  const only = values.only;
+  const cases = listGoldenCases().filter(
+    (goldenCase) =>
+      !only || only.some((prefix) => goldenCase.name.startsWith(prefix)),
+  );
+  if (!cases.length) {
+    throw new Error("No golden cases match --only.");
+  }
+
+  installNodeCanvas();
+  await registerNodeFonts(
+    [],
+    [BUNDLED_FONT_DIR, ...(values["font-dir"] ?? [])],
+  );
+
+  if (command === "update") {
+    await updateGoldens(cases, directory);
+    process.stderr.write(`Wrote ${cases.length} goldens to ${directory}\n`);
+    return;
+  }
+
+  const results = await checkGoldens(cases, directory, tolerance);
+  const parity = await checkPreviewParity();
+  for (const result of results) {
+    const detail =
+      result.status === "pass" || result.status === "fail"
+        ? ` · ${result.mismatched} px differ`
+        : "";
+    process.stderr.write(
+      `${result.status.toUpperCase().padEnd(8)}${result.name}${detail}\n`,
+    );
+  }
+  process.stderr.write(
+    parity.length
+      ? `FAIL    preview and export differ on ${parity.length} frames (first: ${parity[0].frame})\n`
+      : "PASS    preview and export frames are identical\n",
+  );
+
+  const failed = results.filter((result) => result.status !== "pass");
+  if (!failed.length && !parity.length) return;
+
+  const report = await writeGoldenReport(
+    values.report ?? "golden-report",
+    results,
+    parity,
+  );
+  process.stderr.write(
+    `\n${failed.length} of ${results.length} goldens failed; see ${report}\n`,
+  );
+  if (failed.some((result) => result.status === "missing")) {
+    process.stderr.write(
+      "Run `golden-frames update` to record missing goldens.\n",
+    );
+  }
+  process.exitCode = 1;
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  process.stderr.write(
+    `\n${error instanceof Error ? error.message : String(error)}\n`,
+  );
+  process.exitCode = 1;
+});
@@ -0,0 +1,112 @@
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export-formats";
+import { loadProjectFile, renderProject } from "@/node/render-project";
+
+const USAGE = `Usage: motion-studio render <project.json> --out <file> [options]
+
+Options:
+  --out, -o <file>     Where to write the video
+  --format, -f <id>    ${EXPORT_FORMATS.map((format) => format.id).join(", ")}
+                       (default: from --out's extension, then the project)
+  --width <px>         Override the project's canvas width
+  --height <px>        Override the project's canvas height
+  --fps <n>            Override the project's frame rate
+  --font-dir <dir>     Load every font file in <dir>; repeatable
+  --ffmpeg <path>      ffmpeg binary to encode with (default: ffmpeg)
+  --help, -h           Show this message`;
+
+const STAGE_LABELS = {
+  loading: "Loading",
+  frames: "Rendering frames",
+  muxing: "Encoding",
+};
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      width: { type: "string" },
+      height: { type: "string" },
+      fps: { type: "string" },
+      "font-dir": { type: "string", multiple: true },
+      ffmpeg: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, projectPath] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== "render") {
+    throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+  if (!projectPath || !values.out) {
+    throw new Error(`A project file and --out are required.\n\n${USAGE}`);
+  }
+
+  const format = resolveFormat(values.format, values.out);
+  const number = (name: string, value: string | undefined) => {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`--${name} must be a number.`);
+    }
+    return parsed;
+  };
+
+  const project = await loadProjectFile(projectPath);
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  await renderProject(project, {
+    out: values.out,
+    format,
+    output: {
+      width: number("width", values.width),
+      height: number("height", values.height),
+      fps: number("fps", values.fps),
+    },
+    fontDirectories: values["font-dir"],
+    ffmpegPath: values.ffmpeg,
+    signal: controller.signal,
+    onStage: (stage, progress, stats) => {
+      const detail = stats
+        ? ` · ${stats.fps.toFixed(1)} fps · ${Math.ceil(stats.eta)}s left`
+        : "";
+      process.stderr.write(
+        `\r${STAGE_LABELS[stage]} ${Math.round(progress * 100)}%${detail}\u001b[K`,
+      );
+    },
+  });
+  process.stderr.write(`\nWrote ${values.out}\n`);
+}
+
+function resolveFormat(
+  requested: string | undefined,
+  out: string,
+): ExportFormat | undefined {
+  if (requested) {
+    const format = EXPORT_FORMATS.find((spec) => spec.id === requested);
+    if (!format) {
+      throw new Error(
+        `Unknown format "${requested}". Use one of: ${EXPORT_FORMATS.map((spec) => spec.id).join(", ")}.`,
+      );
+    }
+    return format.id;
+  }
+  const extension = extname(out).slice(1).toLowerCase();
+  return EXPORT_FORMATS.find((spec) => spec.extension === extension)?.id;
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  process.stderr.write(
+    `\n${error instanceof Error ? error.message : String(error)}\n`,
+  );
+  process.exitCode = 1;
+});
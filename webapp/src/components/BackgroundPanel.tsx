@@ -0,0 +1,437 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import { GRADIENTS } from "@/lib/palette";
+import {
+  BACKGROUND_KINDS,
+  DEFAULT_BACKGROUND,
+  GRADIENT_TYPES,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  cloneBackground,
+  createCustomGradient,
+  createVideoAsset,
+  resolveGradient,
+  type BackgroundFit,
+  type CustomGradient,
+  type GradientAnimation,
+  type GradientStop,
+  type SceneBackground,
+} from "@/lib/backgrounds";
+import type { BrandColor } from "@/lib/brand";
+import { createImageAsset } from "@/lib/layers";
+import { ColorField } from "@/components/ColorField";
+import { GradientSwatch } from "@/components/GradientSwatch";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const smallLabelClassName =
+  "text-[10px] font-semibold uppercase tracking-wide text-slate-400";
+const compactFieldClassName =
+  "w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white focus:border-white/50 focus:outline-none";
+const optionClassName =
+  "rounded-xl border border-white/10 px-2 py-2 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white disabled:opacity-30";
+const smallButtonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+type BackgroundPatch = { gradientId?: string; background?: SceneBackground };
+
+/**
+ * Scene background picker. Project gradients are listed after the built-in
+ * palette and can be edited in place; edits apply to every scene that uses
+ * them.
+ */
+export function BackgroundPanel({
+  gradientId,
+  background,
+  gradients,
+  swatches,
+  onChange,
+  onSaveGradient,
+  onDeleteGradient,
+}: {
+  gradientId: string;
+  background: SceneBackground;
+  gradients: CustomGradient[];
+  swatches: BrandColor[];
+  onChange: (patch: BackgroundPatch) => void;
+  onSaveGradient: (gradient: CustomGradient) => void;
+  onDeleteGradient: (id: string) => void;
+}) {
+  const [error, setError] = useState<string>();
+
+  const selected = resolveGradient(gradientId, gradients);
+  const custom = gradients.find((gradient) => gradient.id === gradientId);
+
+  const selectGradient = (id: string) =>
+    onChange({
+      gradientId: id,
+      ...(background.kind !== "gradient" && {
+        background: cloneBackground(DEFAULT_BACKGROUND),
+      }),
+    });
+
+  const duplicateGradient = () => {
+    const gradient = createCustomGradient(selected);
+    onSaveGradient(gradient);
+    selectGradient(gradient.id);
+  };
+
+  const handleMedia = async (kind: "image" | "video", file?: File) => {
+    if (!file) return;
+    setError(undefined);
+    const fit: BackgroundFit =
+      background.kind === "image" || background.kind === "video"
+        ? background.fit
+        : "cover";
+    try {
+      onChange({
+        background:
+          kind === "image"
+            ? { kind, asset: await createImageAsset(file), fit }
+            : { kind, asset: await createVideoAsset(file), fit },
+      });
+    } catch (uploadError) {
+      setError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : "Unable to load that file.",
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span className={labelClassName}>Background</span>
+      <div className="grid grid-cols-4 gap-1">
+        {BACKGROUND_KINDS.map((option) =>
+          option.id === "image" || option.id === "video" ? (
+            <label
+              key={option.id}
+              className={classNames(
+                optionClassName,
+                "cursor-pointer text-center",
+                background.kind === option.id && "border-white/60 bg-white/10",
+              )}
+            >
+              {option.label}
+              <input
+                type="file"
+                accept={option.id === "image" ? "image/*" : "video/*"}
+                className="hidden"
+                onChange={(event) => {
+                  void handleMedia(
+                    option.id as "image" | "video",
+                    event.target.files?.[0],
+                  );
+                  event.target.value = "";
+                }}
+              />
+            </label>
+          ) : (
+            <button
+              type="button"
+              key={option.id}
+              onClick={() => {
+                if (background.kind === option.id) return;
+                onChange({
+                  background:
+                    option.id === "solid"
+                      ? { kind: "solid", color: "#0f172a" }
+                      : cloneBackground(DEFAULT_BACKGROUND),
+                });
+              }}
+              className={classNames(
+                optionClassName,
+                background.kind === option.id && "border-white/60 bg-white/10",
+              )}
+            >
+              {option.label}
+            </button>
+          ),
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {background.kind === "gradient" && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {[...GRADIENTS, ...gradients].map((gradient) => (
+              <button
+                type="button"
+                key={gradient.id}
+                onClick={() => selectGradient(gradient.id)}
+                className={classNames(
+                  "relative h-16 overflow-hidden rounded-xl border border-white/10 transition hover:border-white/40",
+                  selected?.id === gradient.id && "border-white/60",
+                )}
+              >
+                <GradientSwatch gradient={gradient} />
+                <span className="absolute bottom-1 left-1 max-w-[90%] truncate rounded-full bg-black/60 px-2 text-[10px] font-medium uppercase tracking-wide text-white">
+                  {gradient.label}
+                </span>
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={duplicateGradient}
+              className="h-16 rounded-xl border border-dashed border-white/20 text-[10px] font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/50 hover:text-white"
+            >
+              {custom ? "Duplicate" : "Customize"}
+            </button>
+          </div>
+
+          {custom && (
+            <GradientEditor
+              gradient={custom}
+              onChange={onSaveGradient}
+              onDelete={() => onDeleteGradient(custom.id)}
+            />
+          )}
+
+          <AnimationFields
+            animation={background.animation}
+            onChange={(animation) =>
+              onChange({ background: { ...background, animation } })
+            }
+          />
+        </>
+      )}
+
+      {background.kind === "solid" && (
+        <ColorField
+          value={background.color}
+          swatches={swatches}
+          label="Background color"
+          onChange={(color) =>
+            onChange({ background: { kind: "solid", color } })
+          }
+        />
+      )}
+
+      {(background.kind === "image" || background.kind === "video") && (
+        <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 p-3">
+          <p className="truncate text-xs text-slate-300">
+            {background.asset.name}
+            {background.kind === "video" &&
+              ` · loops every ${background.asset.duration.toFixed(1)}s`}
+          </p>
+          <div className="grid grid-cols-2 gap-1">
+            {(["cover", "contain"] as const).map((fit) => (
+              <button
+                type="button"
+                key={fit}
+                onClick={() => onChange({ background: { ...background, fit } })}
+                className={classNames(
+                  optionClassName,
+                  background.fit === fit && "border-white/60 bg-white/10",
+                )}
+              >
+                {fit === "cover" ? "Fill" : "Fit"}
+              </button>
+            ))}
+          </div>
+          {background.kind === "video" && (
+            <p className="text-xs text-slate-500">
+              Video backgrounds render on the main thread, so exports take
+              longer.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GradientEditor({
+  gradient,
+  onChange,
+  onDelete,
+}: {
+  gradient: CustomGradient;
+  onChange: (gradient: CustomGradient) => void;
+  onDelete: () => void;
+}) {
+  const updateStop = (index: number, patch: Partial<GradientStop>) =>
+    onChange({
+      ...gradient,
+      stops: gradient.stops.map((stop, position) =>
+        position === index ? { ...stop, ...patch } : stop,
+      ),
+    });
+
+  // New stops split the widest gap, taking the color at its start.
+  const addStop = () => {
+    const sorted = [...gradient.stops].sort((a, b) => a.at - b.at);
+    let gap = 0;
+    for (let index = 1; index < sorted.length; index += 1) {
+      if (
+        sorted[index].at - sorted[index - 1].at >
+        sorted[gap + 1].at - sorted[gap].at
+      ) {
+        gap = index - 1;
+      }
+    }
+    const from = sorted[gap];
+    const at = (from.at + sorted[gap + 1].at) / 2;
+    onChange({ ...gradient, stops: [...sorted, { at, color: from.color }] });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center gap-2">
+        <input
+          value={gradient.label}
+          onChange={(event) =>
+            onChange({ ...gradient, label: event.target.value })
+          }
+          aria-label="Gradient name"
+          className={compactFieldClassName}
+        />
+        <button
+          type="button"
+          onClick={onDelete}
+          className={smallButtonClassName}
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {GRADIENT_TYPES.map((option) => (
+          <button
+            type="button"
+            key={option.id}
+            onClick={() => onChange({ ...gradient, type: option.id })}
+            className={classNames(
+              optionClassName,
+              gradient.type === option.id && "border-white/60 bg-white/10",
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className={smallLabelClassName}>
+          Angle · {Math.round(gradient.angle)}°
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={360}
+          step={1}
+          value={gradient.angle}
+          disabled={gradient.type === "radial"}
+          onChange={(event) =>
+            onChange({ ...gradient, angle: Number(event.target.value) })
+          }
+          className="accent-blue-500 disabled:opacity-40"
+        />
+      </label>
+
+      <div className="flex items-center justify-between">
+        <span className={smallLabelClassName}>Stops</span>
+        <button
+          type="button"
+          onClick={addStop}
+          disabled={gradient.stops.length >= MAX_GRADIENT_STOPS}
+          className={smallButtonClassName}
+        >
+          Add Stop
+        </button>
+      </div>
+      {gradient.stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(event) =>
+              updateStop(index, { color: event.target.value })
+            }
+            aria-label={`Stop ${index + 1} color`}
+            className="h-7 w-10 cursor-pointer rounded-lg border border-white/10 bg-white/5"
+          />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={stop.at}
+            onChange={(event) =>
+              updateStop(index, { at: Number(event.target.value) })
+            }
+            aria-label={`Stop ${index + 1} position`}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="w-9 text-right text-[10px] tabular-nums text-slate-400">
+            {Math.round(stop.at * 100)}%
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...gradient,
+                stops: gradient.stops.filter(
+                  (_, position) => position !== index,
+                ),
+              })
+            }
+            disabled={gradient.stops.length <= MIN_GRADIENT_STOPS}
+            aria-label={`Remove stop ${index + 1}`}
+            className={smallButtonClassName}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AnimationFields({
+  animation,
+  onChange,
+}: {
+  animation: GradientAnimation;
+  onChange: (animation: GradientAnimation) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <label className="flex flex-col gap-1">
+        <span className={smallLabelClassName}>
+          Hue Shift · {Math.round(animation.hueShift)}°
+        </span>
+        <input
+          type="range"
+          min={-180}
+          max={180}
+          step={5}
+          value={animation.hueShift}
+          onChange={(event) =>
+            onChange({ ...animation, hueShift: Number(event.target.value) })
+          }
+          className="accent-blue-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className={smallLabelClassName}>
+          Stop Drift · {Math.round(animation.stopDrift * 100)}%
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={0.5}
+          step={0.01}
+          value={animation.stopDrift}
+          onChange={(event) =>
+            onChange({ ...animation, stopDrift: Number(event.target.value) })
+          }
+          className="accent-blue-500"
+        />
+      </label>
+    </div>
+  );
+}
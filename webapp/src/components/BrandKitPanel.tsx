@@ -0,0 +1,525 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import { nanoid } from "nanoid";
+import { GRADIENTS } from "@/lib/palette";
+import type { CustomGradient } from "@/lib/backgrounds";
+import {
+  MAX_BRAND_COLORS,
+  WATERMARK_POSITIONS,
+  downloadBrandKitFile,
+  type BrandColor,
+  type BrandKit,
+  type Watermark,
+} from "@/lib/brand";
+import { BUILT_IN_FONTS, type FontAsset } from "@/lib/fonts";
+import { createImageAsset } from "@/lib/layers";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const compactFieldClassName =
+  "w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white focus:border-white/50 focus:outline-none";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/50 hover:text-white disabled:opacity-30";
+const optionClassName =
+  "rounded-xl border border-white/10 px-2 py-2 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white";
+
+/**
+ * Project brand kit. Kits live in a browser-wide library and the project
+ * keeps a copy of the selected one, so edits here update both.
+ */
+export function BrandKitPanel({
+  kit,
+  library,
+  fonts,
+  gradients,
+  onSelect,
+  onChange,
+  onCreate,
+  onDelete,
+  onImport,
+  onApplyToAll,
+}: {
+  kit: BrandKit | null;
+  library: BrandKit[];
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  onSelect: (kit: BrandKit | null) => void;
+  onChange: (kit: BrandKit) => void;
+  onCreate: () => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<void>;
+  onApplyToAll: () => void;
+}) {
+  const [error, setError] = useState<string>();
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setError(undefined);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallback);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-900/60 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Brand Kit</h3>
+          <p className="text-sm text-slate-400">
+            Shared colors, fonts and a logo watermark for every scene.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={kit?.id ?? ""}
+            onChange={(event) =>
+              onSelect(
+                library.find((entry) => entry.id === event.target.value) ??
+                  null,
+              )
+            }
+            aria-label="Brand kit"
+            className="rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs font-semibold text-white focus:border-white/50 focus:outline-none"
+          >
+            <option value="" className="bg-slate-900">
+              No brand kit
+            </option>
+            {kit && !library.some((entry) => entry.id === kit.id) && (
+              <option value={kit.id} className="bg-slate-900">
+                {kit.name}
+              </option>
+            )}
+            {library.map((entry) => (
+              <option key={entry.id} value={entry.id} className="bg-slate-900">
+                {entry.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={onCreate} className={buttonClassName}>
+            New
+          </button>
+          <label className={classNames(buttonClassName, "cursor-pointer")}>
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  void run(() => onImport(file), "Unable to import that kit.");
+                }
+                event.target.value = "";
+              }}
+            />
+          </label>
+          {kit && (
+            <>
+              <button
+                type="button"
+                onClick={() =>
+                  void run(
+                    () => downloadBrandKitFile(kit),
+                    "Unable to export the kit.",
+                  )
+                }
+                className={buttonClassName}
+              >
+                Export
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(kit.id)}
+                className={buttonClassName}
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-xl border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {kit && (
+        <BrandKitEditor
+          kit={kit}
+          fonts={fonts}
+          gradients={gradients}
+          onChange={onChange}
+          onApplyToAll={onApplyToAll}
+          onError={setError}
+        />
+      )}
+    </section>
+  );
+}
+
+function BrandKitEditor({
+  kit,
+  fonts,
+  gradients,
+  onChange,
+  onApplyToAll,
+  onError,
+}: {
+  kit: BrandKit;
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  onChange: (kit: BrandKit) => void;
+  onApplyToAll: () => void;
+  onError: (message: string | undefined) => void;
+}) {
+  const fontFamilies = [
+    ...new Set([
+      ...BUILT_IN_FONTS.map((font) => font.family),
+      ...fonts.map((font) => font.family),
+      ...kit.fontAssets.map((font) => font.family),
+    ]),
+  ];
+  const allGradients = [...GRADIENTS, ...gradients];
+
+  const updateColor = (id: string, patch: Partial<BrandColor>) =>
+    onChange({
+      ...kit,
+      colors: kit.colors.map((color) =>
+        color.id === id ? { ...color, ...patch } : color,
+      ),
+    });
+
+  const removeColor = (id: string) => {
+    const colors = kit.colors.filter((color) => color.id !== id);
+    const fallback = (role: string) =>
+      role === id ? (colors[0]?.id ?? "") : role;
+    onChange({
+      ...kit,
+      colors,
+      roles: {
+        text: fallback(kit.roles.text),
+        accent: fallback(kit.roles.accent),
+      },
+    });
+  };
+
+  // Uploaded families are copied into the kit so exported files carry them.
+  const updateFont = (role: "title" | "body", family: string) => {
+    const pair = { ...kit.fonts, [role]: family };
+    const used = [pair.title, pair.body];
+    const assets = [...kit.fontAssets, ...fonts].filter(
+      (font, index, all) =>
+        used.includes(font.family) &&
+        all.findIndex((other) => other.family === font.family) === index,
+    );
+    onChange({ ...kit, fonts: pair, fontAssets: assets });
+  };
+
+  const updateWatermark = (patch: Partial<Watermark>) =>
+    onChange({ ...kit, watermark: { ...kit.watermark, ...patch } });
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    onError(undefined);
+    try {
+      onChange({ ...kit, logo: await createImageAsset(file) });
+    } catch (uploadError) {
+      onError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : "Unable to load that logo.",
+      );
+    }
+  };
+
+  return (
+    <div className="mt-5 grid gap-5 text-sm lg:grid-cols-2">
+      <div className="flex flex-col gap-4">
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Name</span>
+          <input
+            value={kit.name}
+            onChange={(event) => onChange({ ...kit, name: event.target.value })}
+            className={fieldClassName}
+          />
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Colors</span>
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...kit,
+                  colors: [
+                    ...kit.colors,
+                    { id: nanoid(), name: "Color", color: "#38bdf8" },
+                  ],
+                })
+              }
+              disabled={kit.colors.length >= MAX_BRAND_COLORS}
+              className={buttonClassName}
+            >
+              Add Color
+            </button>
+          </div>
+          {kit.colors.map((color) => (
+            <div key={color.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={color.color}
+                onChange={(event) =>
+                  updateColor(color.id, { color: event.target.value })
+                }
+                aria-label={`${color.name} color`}
+                className="h-8 w-10 cursor-pointer rounded-lg border border-white/10 bg-transparent"
+              />
+              <input
+                value={color.name}
+                onChange={(event) =>
+                  updateColor(color.id, { name: event.target.value })
+                }
+                aria-label="Color name"
+                className={compactFieldClassName}
+              />
+              <button
+                type="button"
+                onClick={() => removeColor(color.id)}
+                aria-label={`Remove ${color.name}`}
+                className="rounded-full border border-white/10 px-2 py-1 text-[10px] text-slate-300 transition hover:border-white/40 hover:text-white"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            {(["text", "accent"] as const).map((role) => (
+              <label key={role} className="flex flex-col gap-1">
+                <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                  {role === "text" ? "Text Color" : "Accent Color"}
+                </span>
+                <select
+                  value={kit.roles[role]}
+                  onChange={(event) =>
+                    onChange({
+                      ...kit,
+                      roles: { ...kit.roles, [role]: event.target.value },
+                    })
+                  }
+                  className={compactFieldClassName}
+                >
+                  {kit.colors.map((color) => (
+                    <option
+                      key={color.id}
+                      value={color.id}
+                      className="bg-slate-900"
+                    >
+                      {color.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(["title", "body"] as const).map((role) => (
+            <label key={role} className="flex flex-col gap-1.5">
+              <span className={labelClassName}>
+                {role === "title" ? "Title Font" : "Body Font"}
+              </span>
+              <select
+                value={kit.fonts[role]}
+                onChange={(event) => updateFont(role, event.target.value)}
+                className={compactFieldClassName}
+              >
+                {!fontFamilies.includes(kit.fonts[role]) && (
+                  <option value={kit.fonts[role]} className="bg-slate-900">
+                    {kit.fonts[role]} (missing)
+                  </option>
+                )}
+                {fontFamilies.map((family) => (
+                  <option key={family} value={family} className="bg-slate-900">
+                    {family}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Gradient</span>
+          <select
+            value={kit.gradient?.id ?? ""}
+            onChange={(event) =>
+              onChange({
+                ...kit,
+                gradient:
+                  allGradients.find(
+                    (gradient) => gradient.id === event.target.value,
+                  ) ??
+                  (kit.gradient?.id === event.target.value
+                    ? kit.gradient
+                    : null),
+              })
+            }
+            className={compactFieldClassName}
+          >
+            <option value="" className="bg-slate-900">
+              Keep scene gradients
+            </option>
+            {kit.gradient &&
+              !allGradients.some(
+                (gradient) => gradient.id === kit.gradient?.id,
+              ) && (
+                <option value={kit.gradient.id} className="bg-slate-900">
+                  {kit.gradient.label}
+                </option>
+              )}
+            {allGradients.map((gradient) => (
+              <option
+                key={gradient.id}
+                value={gradient.id}
+                className="bg-slate-900"
+              >
+                {gradient.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Logo Watermark</span>
+            <div className="flex items-center gap-2">
+              <label className={classNames(buttonClassName, "cursor-pointer")}>
+                {kit.logo ? "Replace" : "Upload Logo"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(event) => {
+                    void handleLogo(event.target.files?.[0]);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+              {kit.logo && (
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...kit, logo: null })}
+                  className={buttonClassName}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+          {kit.logo && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={kit.watermark.enabled}
+                  onChange={(event) =>
+                    updateWatermark({ enabled: event.target.checked })
+                  }
+                  className="h-4 w-4 accent-blue-500"
+                />
+                Stamp {kit.logo.name} on every frame
+              </label>
+              <div className="grid grid-cols-4 gap-1">
+                {WATERMARK_POSITIONS.map((option) => (
+                  <button
+                    type="button"
+                    key={option.id}
+                    onClick={() => updateWatermark({ position: option.id })}
+                    className={classNames(
+                      optionClassName,
+                      kit.watermark.position === option.id &&
+                        "border-white/60 bg-white/10",
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                    Size · {Math.round(kit.watermark.size * 100)}%
+                  </span>
+                  <input
+                    type="range"
+                    min={0.04}
+                    max={0.4}
+                    step={0.01}
+                    value={kit.watermark.size}
+                    onChange={(event) =>
+                      updateWatermark({ size: Number(event.target.value) })
+                    }
+                    className="accent-blue-500"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                    Opacity · {Math.round(kit.watermark.opacity * 100)}%
+                  </span>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={kit.watermark.opacity}
+                    onChange={(event) =>
+                      updateWatermark({ opacity: Number(event.target.value) })
+                    }
+                    className="accent-blue-500"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                    Margin
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={200}
+                    step={4}
+                    value={kit.watermark.margin}
+                    onChange={(event) =>
+                      updateWatermark({
+                        margin: Math.max(0, Number(event.target.value)),
+                      })
+                    }
+                    className={compactFieldClassName}
+                  />
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={onApplyToAll}
+          className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:border-white/50 hover:bg-white/10"
+        >
+          Apply Brand to All Scenes
+        </button>
+      </div>
+    </div>
+  );
+}
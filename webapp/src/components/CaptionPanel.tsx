@@ -0,0 +1,164 @@
+"use client";
+
+import classNames from "classnames";
+import type { CaptionPosition, CaptionSettings } from "@/lib/captions";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+const POSITIONS: { id: CaptionPosition; label: string }[] = [
+  { id: "bottom", label: "Bottom" },
+  { id: "top", label: "Top" },
+];
+
+/**
+ * Project captions: sidecar downloads, burn-in styling and whether the
+ * export carries a soft subtitle track.
+ */
+export function CaptionPanel({
+  settings,
+  cueCount,
+  canEmbed,
+  onChange,
+  onDownload,
+}: {
+  settings: CaptionSettings;
+  cueCount: number;
+  /** Whether the selected export format has a subtitle stream. */
+  canEmbed: boolean;
+  onChange: (settings: CaptionSettings) => void;
+  onDownload: (format: "srt" | "vtt") => void;
+}) {
+  const update = (patch: Partial<CaptionSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mt-5 flex flex-col gap-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className={labelClassName}>
+          Captions · {cueCount} {cueCount === 1 ? "cue" : "cues"}
+        </span>
+        <span className="flex gap-2">
+          <button
+            type="button"
+            disabled={!cueCount}
+            onClick={() => onDownload("srt")}
+            className={buttonClassName}
+          >
+            Download SRT
+          </button>
+          <button
+            type="button"
+            disabled={!cueCount}
+            onClick={() => onDownload("vtt")}
+            className={buttonClassName}
+          >
+            Download VTT
+          </button>
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.burnIn}
+            onChange={(event) => update({ burnIn: event.target.checked })}
+            className="h-4 w-4 accent-blue-500"
+          />
+          Burn into video
+        </label>
+        <label
+          className={classNames(
+            "flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-300",
+            !canEmbed && "opacity-40",
+          )}
+          title={
+            canEmbed ? undefined : "Only MP4, WebM and MOV carry subtitles"
+          }
+        >
+          <input
+            type="checkbox"
+            checked={settings.embed && canEmbed}
+            disabled={!canEmbed}
+            onChange={(event) => update({ embed: event.target.checked })}
+            className="h-4 w-4 accent-blue-500"
+          />
+          Embed subtitle track
+        </label>
+      </div>
+
+      {settings.burnIn && (
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Size · {settings.size}px</span>
+            <input
+              type="range"
+              min={16}
+              max={64}
+              value={settings.size}
+              onChange={(event) => update({ size: Number(event.target.value) })}
+              className="accent-blue-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Text</span>
+            <input
+              type="color"
+              value={settings.color}
+              onChange={(event) => update({ color: event.target.value })}
+              className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5"
+            />
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Bar</span>
+            <input
+              type="color"
+              value={settings.background}
+              onChange={(event) => update({ background: event.target.value })}
+              className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5"
+            />
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>
+              Bar Opacity · {Math.round(settings.opacity * 100)}%
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.opacity}
+              onChange={(event) =>
+                update({ opacity: Number(event.target.value) })
+              }
+              className="accent-blue-500"
+            />
+          </label>
+          <div className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Position</span>
+            <div className="flex gap-2">
+              {POSITIONS.map((position) => (
+                <button
+                  type="button"
+                  key={position.id}
+                  onClick={() => update({ position: position.id })}
+                  aria-pressed={settings.position === position.id}
+                  className={classNames(
+                    buttonClassName,
+                    settings.position === position.id &&
+                      "border-white/60 bg-white/10 text-white",
+                  )}
+                >
+                  {position.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import classNames from "classnames";
+import type { BrandColor } from "@/lib/brand";
+
+/** Color input that offers the project's brand swatches first. */
+export function ColorField({
+  value,
+  swatches,
+  label,
+  onChange,
+}: {
+  value: string;
+  swatches: BrandColor[];
+  label: string;
+  onChange: (color: string) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      {swatches.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {swatches.map((swatch) => (
+            <button
+              type="button"
+              key={swatch.id}
+              onClick={() => onChange(swatch.color)}
+              title={swatch.name}
+              aria-label={`${label}: ${swatch.name}`}
+              aria-pressed={swatch.color.toLowerCase() === value.toLowerCase()}
+              style={{ backgroundColor: swatch.color }}
+              className={classNames(
+                "h-6 w-6 rounded-full border border-white/20 transition hover:scale-110",
+                swatch.color.toLowerCase() === value.toLowerCase() &&
+                  "ring-2 ring-white/80 ring-offset-2 ring-offset-slate-900",
+              )}
+            />
+          ))}
+        </div>
+      )}
+      <input
+        type="color"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        aria-label={label}
+        className="h-10 w-full cursor-pointer rounded-xl border border-white/10 bg-white/5"
+      />
+    </div>
+  );
+}
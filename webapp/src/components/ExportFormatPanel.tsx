@@ -0,0 +1,261 @@
+"use client";
+
+import classNames from "classnames";
+import {
+  EXPORT_FORMATS,
+  GIF_DITHERS,
+  PRORES_PROFILES,
+  X264_PRESETS,
+  type ExportSettings,
+  type GifDither,
+  type ProResProfile,
+  type X264Preset,
+} from "@/lib/export-formats";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+
+export function ExportFormatPanel({
+  settings,
+  onChange,
+}: {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+}) {
+  const update = <K extends Exclude<keyof ExportSettings, "format">>(
+    key: K,
+    patch: Partial<ExportSettings[K]>,
+  ) => onChange({ ...settings, [key]: { ...settings[key], ...patch } });
+
+  return (
+    <div className="mt-5 flex flex-col gap-4 text-sm">
+      <div className="flex flex-col gap-1.5">
+        <span className={labelClassName}>Export Format</span>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              type="button"
+              key={format.id}
+              onClick={() => onChange({ ...settings, format: format.id })}
+              title={format.description}
+              className={classNames(
+                "flex flex-col rounded-xl border border-white/10 px-3 py-2 text-left transition hover:border-white/40",
+                settings.format === format.id && "border-white/60 bg-white/10",
+              )}
+            >
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-200">
+                {format.label}
+              </span>
+              <span className="text-[10px] text-slate-400">
+                .{format.extension}
+                {format.supportsAudio ? " · audio" : ""}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.format === "mp4" && (
+        <div className="grid grid-cols-3 gap-4">
+          <RangeField
+            label="Quality (CRF)"
+            min={14}
+            max={35}
+            value={settings.mp4.crf}
+            disabled={settings.mp4.bitrate > 0}
+            onChange={(crf) => update("mp4", { crf })}
+          />
+          <BitrateField
+            value={settings.mp4.bitrate}
+            onChange={(bitrate) => update("mp4", { bitrate })}
+          />
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Preset</span>
+            <select
+              value={settings.mp4.preset}
+              onChange={(event) =>
+                update("mp4", { preset: event.target.value as X264Preset })
+              }
+              className={fieldClassName}
+            >
+              {X264_PRESETS.map((preset) => (
+                <option key={preset} value={preset} className="bg-slate-900">
+                  {preset}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {settings.format === "webm" && (
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <RangeField
+            label="Quality (CRF)"
+            min={15}
+            max={50}
+            value={settings.webm.crf}
+            onChange={(crf) => update("webm", { crf })}
+          />
+          <BitrateField
+            value={settings.webm.bitrate}
+            onChange={(bitrate) => update("webm", { bitrate })}
+          />
+          <RangeField
+            label="Speed"
+            min={0}
+            max={8}
+            value={settings.webm.speed}
+            onChange={(speed) => update("webm", { speed })}
+          />
+          <label className="flex items-center gap-2 self-end text-xs font-semibold uppercase tracking-wide text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.webm.alpha}
+              onChange={(event) =>
+                update("webm", { alpha: event.target.checked })
+              }
+              className="h-4 w-4 accent-blue-500"
+            />
+            Transparent background
+          </label>
+        </div>
+      )}
+
+      {settings.format === "gif" && (
+        <div className="grid grid-cols-3 gap-4">
+          <RangeField
+            label="Colors"
+            min={16}
+            max={256}
+            step={16}
+            value={settings.gif.colors}
+            onChange={(colors) => update("gif", { colors })}
+          />
+          <label className="flex flex-col gap-1.5">
+            <span className={labelClassName}>Dither</span>
+            <select
+              value={settings.gif.dither}
+              onChange={(event) =>
+                update("gif", { dither: event.target.value as GifDither })
+              }
+              className={fieldClassName}
+            >
+              {GIF_DITHERS.map((dither) => (
+                <option key={dither} value={dither} className="bg-slate-900">
+                  {dither.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </label>
+          <RangeField
+            label="Scale"
+            min={0.25}
+            max={1}
+            step={0.25}
+            value={settings.gif.scale}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onChange={(scale) => update("gif", { scale })}
+          />
+        </div>
+      )}
+
+      {settings.format === "png-zip" && (
+        <p className="text-xs text-slate-400">
+          Every frame is exported as a lossless PNG and bundled into a ZIP.
+          Audio is not included.
+        </p>
+      )}
+
+      {settings.format === "mov" && (
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>ProRes Profile</span>
+          <select
+            value={settings.mov.profile}
+            onChange={(event) =>
+              update("mov", {
+                profile: Number(event.target.value) as ProResProfile,
+              })
+            }
+            className={fieldClassName}
+          >
+            {PRORES_PROFILES.map((profile) => (
+              <option
+                key={profile.id}
+                value={profile.id}
+                className="bg-slate-900"
+              >
+                {profile.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
+
+function RangeField({
+  label,
+  min,
+  max,
+  step = 1,
+  value,
+  disabled,
+  format = String,
+  onChange,
+}: {
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  value: number;
+  disabled?: boolean;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5">
+      <span className={labelClassName}>
+        {label} · {format(value)}
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="accent-blue-500 disabled:opacity-40"
+      />
+    </label>
+  );
+}
+
+function BitrateField({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5">
+      <span className={labelClassName}>Bitrate (kbps)</span>
+      <input
+        type="number"
+        min={0}
+        step={500}
+        value={value}
+        placeholder="Auto"
+        onChange={(event) =>
+          onChange(Math.max(0, Math.round(Number(event.target.value) || 0)))
+        }
+        className={fieldClassName}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { drawGradientFill, type AnyGradient } from "@/lib/backgrounds";
+
+const SWATCH_WIDTH = 160;
+const SWATCH_HEIGHT = 90;
+
+/**
+ * Gradient preview drawn with the renderer's own fill, at the frame's
+ * aspect ratio, so what the swatch shows is what a scene exports.
+ */
+export function GradientSwatch({ gradient }: { gradient: AnyGradient }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    context.clearRect(0, 0, SWATCH_WIDTH, SWATCH_HEIGHT);
+    drawGradientFill(context, SWATCH_WIDTH, SWATCH_HEIGHT, gradient);
+  }, [gradient]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={SWATCH_WIDTH}
+      height={SWATCH_HEIGHT}
+      role="presentation"
+      className="h-full w-full object-cover"
+    />
+  );
+}
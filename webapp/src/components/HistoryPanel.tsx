@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import { canRedo, canUndo, type History } from "@/lib/history";
+
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+export function HistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+  onJump,
+}: {
+  history: History<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (id: string) => void;
+}) {
+  const [isOpen, setOpen] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!canUndo(history)}
+          title="Undo (Ctrl/⌘+Z)"
+          className={buttonClassName}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!canRedo(history)}
+          title="Redo (Ctrl/⌘+Shift+Z)"
+          className={buttonClassName}
+        >
+          Redo
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen((state) => !state)}
+          aria-expanded={isOpen}
+          className="ml-auto text-[10px] font-semibold uppercase tracking-wide text-slate-400 transition hover:text-white"
+        >
+          History ({history.index + 1}/{history.entries.length})
+        </button>
+      </div>
+
+      {isOpen && (
+        <ol className="flex max-h-56 flex-col gap-1 overflow-y-auto rounded-xl border border-white/10 bg-white/[0.02] p-1.5">
+          {history.entries
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  onClick={() => onJump(entry.id)}
+                  className={classNames(
+                    "flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1 text-left text-xs transition hover:bg-white/10",
+                    index === history.index && "bg-white/10 text-white",
+                    index < history.index && "text-slate-300",
+                    index > history.index && "text-slate-500 line-through",
+                  )}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0 text-[10px] text-slate-500">
+                    {new Date(entry.timestamp).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                      second: "2-digit",
+                    })}
+                  </span>
+                </button>
+              </li>
+            ))}
+        </ol>
+      )}
+    </div>
+  );
+}
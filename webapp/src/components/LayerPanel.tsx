@@ -0,0 +1,435 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import {
+  BLEND_MODES,
+  createImageLayer,
+  createLayer,
+  isBuiltInLayer,
+  type AddableLayer,
+  type BlendMode,
+  type LayerTransform,
+  type SceneLayer,
+} from "@/lib/layers";
+import { BUILT_IN_FONTS, type FontAsset } from "@/lib/fonts";
+import { KeyframeEditor } from "@/components/MotionPanel";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const smallButtonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+const ADD_OPTIONS: { id: Exclude<AddableLayer, "image">; label: string }[] = [
+  { id: "text", label: "Text" },
+  { id: "rectangle", label: "Rectangle" },
+  { id: "ellipse", label: "Ellipse" },
+  { id: "line", label: "Line" },
+];
+
+const BUILT_IN_HINTS: Partial<Record<SceneLayer["kind"], string>> = {
+  background: "Draws the scene background chosen above.",
+  accent: "Draws the glow in the scene's accent color.",
+  headline: "Draws the scene title and description.",
+};
+
+const TRANSFORM_FIELDS: {
+  key: keyof LayerTransform;
+  label: string;
+  step: number;
+}[] = [
+  { key: "x", label: "X", step: 1 },
+  { key: "y", label: "Y", step: 1 },
+  { key: "scale", label: "Scale", step: 0.05 },
+  { key: "rotation", label: "Rotate", step: 1 },
+  { key: "opacity", label: "Opacity", step: 0.05 },
+];
+
+/**
+ * Layer stack editor. `onChange` reports whether keyframes changed so the
+ * scene can drop its motion template once the built-in motion is edited.
+ */
+export function LayerPanel({
+  layers,
+  defaultColor,
+  fonts,
+  onChange,
+}: {
+  layers: SceneLayer[];
+  defaultColor: string;
+  /** Uploaded fonts text layers can use besides the built-in ones. */
+  fonts: FontAsset[];
+  onChange: (layers: SceneLayer[], motionEdited: boolean) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | undefined>(
+    () => layers[layers.length - 1]?.id,
+  );
+  const [error, setError] = useState<string>();
+
+  const selected = layers.find((layer) => layer.id === selectedId);
+
+  const addLayer = (layer: SceneLayer) => {
+    onChange([...layers, layer], false);
+    setSelectedId(layer.id);
+  };
+
+  const handleImage = async (file: File | undefined) => {
+    if (!file) return;
+    setError(undefined);
+    try {
+      addLayer(await createImageLayer(file));
+    } catch (imageError) {
+      setError(
+        imageError instanceof Error
+          ? imageError.message
+          : "Unable to load that image.",
+      );
+    }
+  };
+
+  const updateLayer = (
+    id: string,
+    patch: Partial<SceneLayer>,
+    motionEdited = false,
+  ) =>
+    onChange(
+      layers.map((layer) =>
+        layer.id === id ? ({ ...layer, ...patch } as SceneLayer) : layer,
+      ),
+      motionEdited,
+    );
+
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    const index = layers.findIndex((layer) => layer.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next, false);
+  };
+
+  const removeLayer = (id: string) => {
+    onChange(
+      layers.filter((layer) => layer.id !== id),
+      false,
+    );
+    if (selectedId === id) setSelectedId(undefined);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1.5">
+        <span className={labelClassName}>Layers</span>
+        <div className="flex flex-wrap gap-1.5">
+          {ADD_OPTIONS.map((option) => (
+            <button
+              type="button"
+              key={option.id}
+              onClick={() => addLayer(createLayer(option.id, defaultColor))}
+              className={smallButtonClassName}
+            >
+              + {option.label}
+            </button>
+          ))}
+          <label className={classNames(smallButtonClassName, "cursor-pointer")}>
+            + Image
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(event) => {
+                void handleImage(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+
+      <ol className="flex flex-col gap-1">
+        {layers
+          .map((layer, index) => ({ layer, index }))
+          .reverse()
+          .map(({ layer, index }) => (
+            <li
+              key={layer.id}
+              className={classNames(
+                "flex items-center gap-2 rounded-xl border border-white/10 px-2 py-1.5 text-xs",
+                layer.id === selectedId && "border-white/50 bg-white/10",
+              )}
+            >
+              <button
+                type="button"
+                onClick={() =>
+                  updateLayer(layer.id, { visible: !layer.visible })
+                }
+                aria-label={layer.visible ? "Hide layer" : "Show layer"}
+                className={classNames(
+                  "h-3 w-3 rounded-full border border-white/40",
+                  layer.visible && "bg-cyan-400",
+                )}
+              />
+              <button
+                type="button"
+                onClick={() => setSelectedId(layer.id)}
+                className={classNames(
+                  "flex-1 truncate text-left",
+                  layer.visible ? "text-slate-200" : "text-slate-500",
+                )}
+              >
+                {layer.name}
+                <span className="ml-2 text-[10px] uppercase text-slate-500">
+                  {layer.kind === "shape" ? layer.shape : layer.kind}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => moveLayer(layer.id, 1)}
+                disabled={index === layers.length - 1}
+                aria-label="Bring forward"
+                className="px-1 text-slate-400 hover:text-white disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveLayer(layer.id, -1)}
+                disabled={index === 0}
+                aria-label="Send backward"
+                className="px-1 text-slate-400 hover:text-white disabled:opacity-30"
+              >
+                ↓
+              </button>
+              {!isBuiltInLayer(layer) && (
+                <button
+                  type="button"
+                  onClick={() => removeLayer(layer.id)}
+                  aria-label="Delete layer"
+                  className="px-1 text-slate-400 hover:text-red-300"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+      </ol>
+
+      {selected && (
+        <LayerInspector
+          key={selected.id}
+          layer={selected}
+          families={[
+            ...BUILT_IN_FONTS.map((font) => font.family),
+            ...fonts.map((font) => font.family),
+          ]}
+          onChange={(patch, motionEdited) =>
+            updateLayer(selected.id, patch, motionEdited)
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+function LayerInspector({
+  layer,
+  families,
+  onChange,
+}: {
+  layer: SceneLayer;
+  families: string[];
+  onChange: (patch: Partial<SceneLayer>, motionEdited?: boolean) => void;
+}) {
+  const numberField = (
+    label: string,
+    value: number,
+    step: number,
+    update: (value: number) => void,
+  ) => (
+    <label key={label} className="flex flex-col gap-1">
+      <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+        {label}
+      </span>
+      <input
+        type="number"
+        step={step}
+        value={Math.round(value * 1000) / 1000}
+        onChange={(event) => {
+          const next = Number(event.target.value);
+          if (Number.isFinite(next)) update(next);
+        }}
+        className={classNames(fieldClassName, "px-2 py-1 text-xs")}
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-3">
+      {isBuiltInLayer(layer) ? (
+        <p className="text-xs text-slate-400">{BUILT_IN_HINTS[layer.kind]}</p>
+      ) : (
+        <input
+          value={layer.name}
+          onChange={(event) => onChange({ name: event.target.value })}
+          aria-label="Layer name"
+          className={fieldClassName}
+        />
+      )}
+
+      {layer.kind === "text" && (
+        <>
+          <textarea
+            value={layer.text}
+            rows={2}
+            onChange={(event) => onChange({ text: event.target.value })}
+            className={classNames(fieldClassName, "resize-none")}
+          />
+          <select
+            value={layer.family}
+            onChange={(event) => onChange({ family: event.target.value })}
+            aria-label="Layer font"
+            className={classNames(fieldClassName, "px-2 py-1 text-xs")}
+          >
+            {!families.includes(layer.family) && (
+              <option value={layer.family} className="bg-slate-900">
+                {layer.family} (missing)
+              </option>
+            )}
+            {families.map((family) => (
+              <option key={family} value={family} className="bg-slate-900">
+                {family}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-4 gap-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                Color
+              </span>
+              <input
+                type="color"
+                value={layer.color}
+                onChange={(event) => onChange({ color: event.target.value })}
+                className="h-8 w-full cursor-pointer rounded-lg border border-white/10 bg-transparent"
+              />
+            </label>
+            {numberField("Size", layer.size, 1, (size) =>
+              onChange({ size: Math.max(8, size) }),
+            )}
+            {numberField("Width", layer.width, 10, (width) =>
+              onChange({ width: Math.max(40, width) }),
+            )}
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                Weight
+              </span>
+              <select
+                value={layer.weight}
+                onChange={(event) =>
+                  onChange({ weight: Number(event.target.value) })
+                }
+                className={classNames(fieldClassName, "px-2 py-1 text-xs")}
+              >
+                {[400, 600, 700].map((weight) => (
+                  <option key={weight} value={weight} className="bg-slate-900">
+                    {weight}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {(["left", "center", "right"] as const).map((align) => (
+              <button
+                type="button"
+                key={align}
+                onClick={() => onChange({ align })}
+                className={classNames(
+                  smallButtonClassName,
+                  layer.align === align && "border-white/60 bg-white/10",
+                )}
+              >
+                {align}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {layer.kind === "image" &&
+        numberField("Width", layer.width, 10, (width) =>
+          onChange({ width: Math.max(16, width) }),
+        )}
+
+      {layer.kind === "shape" && (
+        <div className="grid grid-cols-4 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+              Color
+            </span>
+            <input
+              type="color"
+              value={layer.color}
+              onChange={(event) => onChange({ color: event.target.value })}
+              className="h-8 w-full cursor-pointer rounded-lg border border-white/10 bg-transparent"
+            />
+          </label>
+          {numberField("Width", layer.width, 10, (width) =>
+            onChange({ width: Math.max(1, width) }),
+          )}
+          {numberField(
+            layer.shape === "line" ? "Thickness" : "Height",
+            layer.height,
+            layer.shape === "line" ? 1 : 10,
+            (height) => onChange({ height: Math.max(1, height) }),
+          )}
+          {layer.shape === "rectangle" &&
+            numberField("Radius", layer.radius, 2, (radius) =>
+              onChange({ radius: Math.max(0, radius) }),
+            )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-2">
+        {TRANSFORM_FIELDS.map((field) =>
+          numberField(
+            field.label,
+            layer.transform[field.key],
+            field.step,
+            (value) =>
+              onChange({
+                transform: { ...layer.transform, [field.key]: value },
+              }),
+          ),
+        )}
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+          Blend Mode
+        </span>
+        <select
+          value={layer.blendMode}
+          onChange={(event) =>
+            onChange({ blendMode: event.target.value as BlendMode })
+          }
+          className={classNames(fieldClassName, "px-2 py-1 text-xs")}
+        >
+          {BLEND_MODES.map((mode) => (
+            <option key={mode.id} value={mode.id} className="bg-slate-900">
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <KeyframeEditor
+        animation={layer.motion}
+        onChange={(motion) => onChange({ motion }, true)}
+      />
+    </div>
+  );
+}
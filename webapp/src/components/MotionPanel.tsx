@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import { clamp } from "@/lib/easing";
+import {
+  EASING_OPTIONS,
+  createEasing,
+  evaluateTrack,
+  sortTrack,
+  type Easing,
+  type EasingType,
+  type Keyframe,
+  type KeyframeTrack,
+} from "@/lib/keyframes";
+import {
+  BUILT_IN_TEMPLATES,
+  MOTION_PROPERTIES,
+  type LayerAnimation,
+  type MotionProperty,
+  type MotionTemplate,
+} from "@/lib/motion";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const compactFieldClassName =
+  "w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white focus:border-white/50 focus:outline-none";
+
+/** Built-in and saved templates for the accent and headline layers. */
+export function MotionPanel({
+  templateId,
+  userTemplates,
+  onApply,
+  onSaveTemplate,
+  onDeleteTemplate,
+}: {
+  templateId: string | null;
+  userTemplates: MotionTemplate[];
+  onApply: (template: MotionTemplate) => void;
+  onSaveTemplate: (label: string) => void;
+  onDeleteTemplate: (id: string) => void;
+}) {
+  const [templateName, setTemplateName] = useState("");
+
+  const saveTemplate = () => {
+    const label = templateName.trim();
+    if (!label) return;
+    onSaveTemplate(label);
+    setTemplateName("");
+  };
+
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className={labelClassName}>Motion System</span>
+      <div className="grid grid-cols-3 gap-2">
+        {templates.map((template) => (
+          <div key={template.id} className="relative">
+            <button
+              type="button"
+              onClick={() => onApply(template)}
+              className={classNames(
+                "w-full truncate rounded-xl border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white",
+                templateId === template.id && "border-white/60 bg-white/10",
+              )}
+            >
+              {template.label}
+            </button>
+            {!template.builtIn && (
+              <button
+                type="button"
+                onClick={() => onDeleteTemplate(template.id)}
+                aria-label={`Delete ${template.label} template`}
+                className="absolute -right-1.5 -top-1.5 flex h-4 w-4 items-center justify-center rounded-full bg-slate-700 text-[10px] text-slate-200 hover:bg-red-500"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={templateName}
+          onChange={(event) => setTemplateName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") saveTemplate();
+          }}
+          placeholder="Template name"
+          className={classNames(fieldClassName, "flex-1")}
+        />
+        <button
+          type="button"
+          onClick={saveTemplate}
+          disabled={!templateName.trim()}
+          className="rounded-xl border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-40"
+        >
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Keyframe tracks for one layer, edited one property at a time. */
+export function KeyframeEditor({
+  animation,
+  onChange,
+}: {
+  animation: LayerAnimation;
+  onChange: (animation: LayerAnimation) => void;
+}) {
+  const [property, setProperty] = useState<MotionProperty>("opacity");
+
+  const spec = MOTION_PROPERTIES.find((entry) => entry.id === property)!;
+  const track = animation[property] ?? [];
+
+  const updateTrack = (next: KeyframeTrack) => {
+    const tracks = { ...animation };
+    if (next.length) {
+      tracks[property] = sortTrack(next);
+    } else {
+      delete tracks[property];
+    }
+    onChange(tracks);
+  };
+
+  const updateKeyframe = (index: number, patch: Partial<Keyframe>) =>
+    updateTrack(
+      track.map((keyframe, position) =>
+        position === index ? { ...keyframe, ...patch } : keyframe,
+      ),
+    );
+
+  // New keyframes split the widest gap so they never stack on an existing one.
+  const addKeyframe = () => {
+    if (!track.length) {
+      updateTrack([
+        { time: 0, value: spec.fallback, easing: createEasing("ease-in-out") },
+        { time: 1, value: spec.fallback, easing: createEasing("linear") },
+      ]);
+      return;
+    }
+
+    const edges = [0, ...track.map((keyframe) => keyframe.time), 1];
+    let time = 0.5;
+    let widest = -1;
+    for (let index = 0; index < edges.length - 1; index += 1) {
+      const gap = edges[index + 1] - edges[index];
+      if (gap > widest) {
+        widest = gap;
+        time = edges[index] + gap / 2;
+      }
+    }
+
+    updateTrack([
+      ...track,
+      {
+        time,
+        value: evaluateTrack(track, time, spec.fallback),
+        easing: createEasing("ease-in-out"),
+      },
+    ]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className={labelClassName}>Keyframes</span>
+      <div className="grid grid-cols-6 gap-1">
+        {MOTION_PROPERTIES.map((entry) => (
+          <button
+            type="button"
+            key={entry.id}
+            onClick={() => setProperty(entry.id)}
+            className={classNames(
+              "relative rounded-lg border border-white/10 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/40",
+              property === entry.id && "border-white/60 bg-white/10 text-white",
+            )}
+          >
+            {entry.label}
+            {animation[entry.id]?.length ? (
+              <span className="absolute right-1 top-1 h-1.5 w-1.5 rounded-full bg-cyan-400" />
+            ) : null}
+          </button>
+        ))}
+      </div>
+
+      {track.length ? (
+        <div className="flex flex-col gap-2">
+          {track.map((keyframe, index) => (
+            <KeyframeRow
+              key={index}
+              keyframe={keyframe}
+              step={spec.step}
+              isLast={index === track.length - 1}
+              onChange={(patch) => updateKeyframe(index, patch)}
+              onRemove={() =>
+                updateTrack(track.filter((_, position) => position !== index))
+              }
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          No keyframes. {spec.label} stays at {spec.fallback} for the whole
+          scene.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={addKeyframe}
+          className="rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40"
+        >
+          Add Keyframe
+        </button>
+        {track.length > 0 && (
+          <button
+            type="button"
+            onClick={() => updateTrack([])}
+            className="rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-400 transition hover:border-red-400/60 hover:text-red-300"
+          >
+            Clear Track
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function KeyframeRow({
+  keyframe,
+  step,
+  isLast,
+  onChange,
+  onRemove,
+}: {
+  keyframe: Keyframe;
+  step: number;
+  isLast: boolean;
+  onChange: (patch: Partial<Keyframe>) => void;
+  onRemove: () => void;
+}) {
+  const { easing } = keyframe;
+  const setEasing = (patch: Partial<Easing>) =>
+    onChange({ easing: { ...easing, ...patch } as Easing });
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-white/10 bg-white/5 p-2">
+      <div className="grid grid-cols-[1fr_1fr_1.4fr_auto] items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={1}
+          value={Math.round(keyframe.time * 1000) / 10}
+          onChange={(event) =>
+            onChange({ time: clamp(Number(event.target.value) / 100, 0, 1) })
+          }
+          aria-label="Keyframe time (%)"
+          title="Time (% of scene)"
+          className={compactFieldClassName}
+        />
+        <input
+          type="number"
+          step={step}
+          value={Math.round(keyframe.value * 1000) / 1000}
+          onChange={(event) => onChange({ value: Number(event.target.value) })}
+          aria-label="Keyframe value"
+          className={compactFieldClassName}
+        />
+        <select
+          value={easing.type}
+          disabled={isLast}
+          onChange={(event) =>
+            onChange({ easing: createEasing(event.target.value as EasingType) })
+          }
+          aria-label="Easing to next keyframe"
+          title={isLast ? "The last keyframe holds its value" : undefined}
+          className={classNames(compactFieldClassName, "disabled:opacity-40")}
+        >
+          {EASING_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id} className="bg-slate-900">
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label="Remove keyframe"
+          className="rounded-full px-2 text-sm text-slate-400 hover:text-red-300"
+        >
+          ×
+        </button>
+      </div>
+
+      {!isLast && easing.type === "cubic-bezier" && (
+        <div className="grid grid-cols-4 gap-2">
+          {(["x1", "y1", "x2", "y2"] as const).map((point) => (
+            <input
+              key={point}
+              type="number"
+              step={0.05}
+              min={point.startsWith("x") ? 0 : undefined}
+              max={point.startsWith("x") ? 1 : undefined}
+              value={easing[point]}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                setEasing({
+                  [point]: point.startsWith("x") ? clamp(value, 0, 1) : value,
+                });
+              }}
+              aria-label={`Bezier ${point}`}
+              title={point}
+              className={compactFieldClassName}
+            />
+          ))}
+        </div>
+      )}
+
+      {!isLast && easing.type === "spring" && (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            min={1}
+            step={10}
+            value={easing.stiffness}
+            onChange={(event) =>
+              setEasing({ stiffness: Math.max(1, Number(event.target.value)) })
+            }
+            aria-label="Spring stiffness"
+            title="Stiffness"
+            className={compactFieldClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={easing.damping}
+            onChange={(event) =>
+              setEasing({ damping: Math.max(0, Number(event.target.value)) })
+            }
+            aria-label="Spring damping"
+            title="Damping"
+            className={compactFieldClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
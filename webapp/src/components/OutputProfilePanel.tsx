@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import classNames from "classnames";
+import {
+  FPS_OPTIONS,
+  MAX_DIMENSION,
+  MIN_DIMENSION,
+  OUTPUT_PRESETS,
+  findOutputPreset,
+  normalizeOutput,
+  type OutputProfile,
+} from "@/lib/output";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+
+export function OutputProfilePanel({
+  output,
+  onChange,
+}: {
+  output: OutputProfile;
+  onChange: (output: OutputProfile) => void;
+}) {
+  const activePreset = findOutputPreset(output);
+  const [draft, setDraft] = useState({
+    width: String(output.width),
+    height: String(output.height),
+  });
+
+  useEffect(() => {
+    setDraft({ width: String(output.width), height: String(output.height) });
+  }, [output.width, output.height]);
+
+  const commitDraft = () =>
+    onChange(
+      normalizeOutput({
+        ...output,
+        width: Number(draft.width),
+        height: Number(draft.height),
+      }),
+    );
+
+  return (
+    <div className="mt-5 flex flex-col gap-4 text-sm">
+      <div className="flex flex-col gap-1.5">
+        <span className={labelClassName}>Output Format</span>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {OUTPUT_PRESETS.map((preset) => (
+            <button
+              type="button"
+              key={preset.id}
+              onClick={() =>
+                onChange({
+                  ...output,
+                  width: preset.width,
+                  height: preset.height,
+                })
+              }
+              className={classNames(
+                "flex flex-col rounded-xl border border-white/10 px-3 py-2 text-left transition hover:border-white/40",
+                activePreset?.id === preset.id && "border-white/60 bg-white/10",
+              )}
+            >
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-200">
+                {preset.label}
+              </span>
+              <span className="text-[10px] text-slate-400">
+                {preset.width}×{preset.height}
+              </span>
+            </button>
+          ))}
+          <span
+            className={classNames(
+              "flex flex-col rounded-xl border border-dashed border-white/10 px-3 py-2",
+              !activePreset && "border-white/60 bg-white/10",
+            )}
+          >
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-200">
+              Custom
+            </span>
+            <span className="text-[10px] text-slate-400">Any size</span>
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Width</span>
+          <input
+            type="number"
+            min={MIN_DIMENSION}
+            max={MAX_DIMENSION}
+            step={2}
+            value={draft.width}
+            onChange={(event) =>
+              setDraft((current) => ({ ...current, width: event.target.value }))
+            }
+            onBlur={commitDraft}
+            onKeyDown={(event) => event.key === "Enter" && commitDraft()}
+            className={fieldClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Height</span>
+          <input
+            type="number"
+            min={MIN_DIMENSION}
+            max={MAX_DIMENSION}
+            step={2}
+            value={draft.height}
+            onChange={(event) =>
+              setDraft((current) => ({
+                ...current,
+                height: event.target.value,
+              }))
+            }
+            onBlur={commitDraft}
+            onKeyDown={(event) => event.key === "Enter" && commitDraft()}
+            className={fieldClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Frame Rate</span>
+          <select
+            value={output.fps}
+            onChange={(event) =>
+              onChange({ ...output, fps: Number(event.target.value) })
+            }
+            className={fieldClassName}
+          >
+            {FPS_OPTIONS.map((fps) => (
+              <option key={fps} value={fps} className="bg-slate-900">
+                {fps} fps
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import type { ProjectSummary } from "@/lib/project";
+
+export type SaveState = "idle" | "saving" | "saved" | "error";
+
+const buttonClassName =
+  "rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:text-white";
+
+export function ProjectMenu({
+  projectId,
+  name,
+  saveState,
+  recentProjects,
+  onRename,
+  onNew,
+  onTemplates,
+  onOpen,
+  onImport,
+  onExport,
+  onShare,
+}: {
+  projectId: string;
+  name: string;
+  saveState: SaveState;
+  recentProjects: ProjectSummary[];
+  onRename: (name: string) => void;
+  onNew: () => void;
+  onTemplates: () => void;
+  onOpen: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onShare: () => void;
+}) {
+  const [isRecentOpen, setRecentOpen] = useState(false);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <input
+        value={name}
+        onChange={(event) => onRename(event.target.value)}
+        aria-label="Project name"
+        className="min-w-[220px] rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm font-medium text-white transition focus:border-white/50 focus:outline-none"
+      />
+      <span
+        className={classNames(
+          "text-[10px] uppercase tracking-wider",
+          saveState === "error" ? "text-red-300" : "text-slate-500",
+        )}
+      >
+        {saveState === "saving"
+          ? "Saving…"
+          : saveState === "saved"
+            ? "Saved locally"
+            : saveState === "error"
+              ? "Autosave failed"
+              : ""}
+      </span>
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <button type="button" onClick={onNew} className={buttonClassName}>
+          New
+        </button>
+        <button type="button" onClick={onTemplates} className={buttonClassName}>
+          Templates
+        </button>
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setRecentOpen((state) => !state)}
+            aria-expanded={isRecentOpen}
+            className={buttonClassName}
+          >
+            Recent
+          </button>
+          {isRecentOpen && (
+            <div className="absolute right-0 z-20 mt-2 flex w-72 flex-col gap-1 rounded-2xl border border-white/10 bg-slate-900/95 p-2 shadow-2xl backdrop-blur">
+              {recentProjects.length === 0 && (
+                <p className="px-3 py-2 text-xs text-slate-400">
+                  Projects you edit are saved here automatically.
+                </p>
+              )}
+              {recentProjects.map((project) => (
+                <button
+                  type="button"
+                  key={project.id}
+                  onClick={() => {
+                    setRecentOpen(false);
+                    onOpen(project.id);
+                  }}
+                  className={classNames(
+                    "flex flex-col rounded-xl px-3 py-2 text-left transition hover:bg-white/10",
+                    project.id === projectId && "bg-white/[0.05]",
+                  )}
+                >
+                  <span className="truncate text-sm font-medium text-white">
+                    {project.name || "Untitled storyboard"}
+                  </span>
+                  <span className="text-[10px] uppercase tracking-wide text-slate-400">
+                    {project.sceneCount} scenes ·{" "}
+                    {new Date(project.updatedAt).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <label className={classNames(buttonClassName, "cursor-pointer")}>
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onImport(file);
+              event.target.value = "";
+            }}
+          />
+        </label>
+        <button type="button" onClick={onExport} className={buttonClassName}>
+          Export
+        </button>
+        <button type="button" onClick={onShare} className={buttonClassName}>
+          Share for Review
+        </button>
+      </div>
+    </div>
+  );
+}
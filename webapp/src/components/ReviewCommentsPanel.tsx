@@ -0,0 +1,251 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import classNames from "classnames";
+import {
+  createReviewComment,
+  resolveCommentTime,
+  type ReviewComment,
+} from "@/lib/review";
+import type { Scene } from "@/lib/scene";
+import type { SceneTiming } from "@/lib/transitions";
+import { formatTimecode } from "@/lib/transport";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+type PinMode = "time" | "scene";
+
+/**
+ * Time-coded review comments. Reviewers add them at the playhead, pinned
+ * to the moment or to the scene under it; authors import them and jump
+ * from each one to where it was left.
+ */
+export function ReviewCommentsPanel({
+  comments,
+  scenes,
+  timings,
+  currentTime,
+  fps,
+  selectedCommentId,
+  error,
+  onJump,
+  onAdd,
+  onDelete,
+  onImport,
+  onExport,
+}: {
+  comments: ReviewComment[];
+  scenes: Scene[];
+  timings: SceneTiming[];
+  currentTime: number;
+  fps: number;
+  selectedCommentId?: string;
+  error?: string | null;
+  onJump: (comment: ReviewComment, time: number) => void;
+  /** Shows the form for new comments when set. */
+  onAdd?: (comment: ReviewComment) => void;
+  onDelete: (id: string) => void;
+  /** Shows the import button when set. */
+  onImport?: (file: File) => void;
+  onExport: () => void;
+}) {
+  const [author, setAuthor] = useState("");
+  const [text, setText] = useState("");
+  const [pin, setPin] = useState<PinMode>("time");
+
+  const sceneIndex = timings.reduce(
+    (found, timing, index) => (timing.start <= currentTime ? index : found),
+    0,
+  );
+  const currentScene = scenes[sceneIndex];
+
+  const entries = useMemo(
+    () =>
+      comments
+        .map((comment) => ({
+          comment,
+          time: resolveCommentTime(comment, scenes, timings),
+          sceneNumber: comment.sceneId
+            ? scenes.findIndex((scene) => scene.id === comment.sceneId) + 1
+            : 0,
+        }))
+        .sort(
+          (a, b) =>
+            (a.time ?? Infinity) - (b.time ?? Infinity) ||
+            a.comment.createdAt.localeCompare(b.comment.createdAt),
+        ),
+    [comments, scenes, timings],
+  );
+
+  const submit = () => {
+    if (!onAdd || !text.trim()) return;
+    const start = timings[sceneIndex]?.start ?? 0;
+    onAdd(
+      createReviewComment(
+        pin === "scene" && currentScene
+          ? {
+              time: currentTime - start,
+              sceneId: currentScene.id,
+              author,
+              text,
+            }
+          : { time: currentTime, sceneId: null, author, text },
+      ),
+    );
+    setText("");
+  };
+
+  return (
+    <div className="mt-5 flex flex-col gap-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className={labelClassName}>
+          Review · {comments.length}{" "}
+          {comments.length === 1 ? "comment" : "comments"}
+        </span>
+        <span className="flex gap-2">
+          {onImport && (
+            <label className={classNames(buttonClassName, "cursor-pointer")}>
+              Import
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) onImport(file);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+          )}
+          <button
+            type="button"
+            disabled={!comments.length}
+            onClick={onExport}
+            className={buttonClassName}
+          >
+            Export
+          </button>
+        </span>
+      </div>
+
+      {onAdd && (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={author}
+              onChange={(event) => setAuthor(event.target.value)}
+              placeholder="Your name"
+              aria-label="Your name"
+              className={classNames(fieldClassName, "w-40")}
+            />
+            <span className="ml-auto flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPin("time")}
+                aria-pressed={pin === "time"}
+                className={classNames(
+                  buttonClassName,
+                  pin === "time" && "border-white/60 bg-white/10",
+                )}
+              >
+                At {formatTimecode(currentTime, fps)}
+              </button>
+              <button
+                type="button"
+                disabled={!currentScene}
+                onClick={() => setPin("scene")}
+                aria-pressed={pin === "scene"}
+                className={classNames(
+                  buttonClassName,
+                  pin === "scene" && "border-white/60 bg-white/10",
+                )}
+              >
+                Scene {sceneIndex + 1}
+              </button>
+            </span>
+          </div>
+          <textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+                event.preventDefault();
+                submit();
+              }
+            }}
+            rows={3}
+            placeholder="Leave a note at the playhead"
+            aria-label="Comment"
+            className={classNames(fieldClassName, "resize-y")}
+          />
+          <button
+            type="button"
+            disabled={!text.trim()}
+            onClick={submit}
+            className={classNames(buttonClassName, "self-end")}
+          >
+            Add Comment
+          </button>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          {onAdd
+            ? "Pause on a moment and leave the first note."
+            : "Import the comments file a reviewer sends you to see their notes on the timeline."}
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {entries.map(({ comment, time, sceneNumber }) => (
+            <li
+              key={comment.id}
+              className={classNames(
+                "flex items-start gap-3 rounded-xl border border-white/10 bg-white/5 p-3",
+                comment.id === selectedCommentId && "border-amber-300/60",
+              )}
+            >
+              <button
+                type="button"
+                disabled={time === null}
+                onClick={() => time !== null && onJump(comment, time)}
+                title={time === null ? undefined : "Jump to this comment"}
+                className="shrink-0 rounded-lg bg-amber-400/15 px-2 py-1 font-mono text-[11px] text-amber-200 transition hover:bg-amber-400/30 disabled:opacity-40"
+              >
+                {time === null ? "—" : formatTimecode(time, fps)}
+              </button>
+              <div className="flex min-w-0 flex-1 flex-col gap-1">
+                <span className="text-[10px] uppercase tracking-wider text-slate-500">
+                  {comment.author || "Anonymous"}
+                  {comment.sceneId &&
+                    (sceneNumber > 0
+                      ? ` · Scene ${sceneNumber}`
+                      : " · Scene removed")}
+                </span>
+                <p className="whitespace-pre-wrap break-words text-slate-200">
+                  {comment.text}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onDelete(comment.id)}
+                aria-label="Delete comment"
+                className="shrink-0 text-xs text-slate-500 transition hover:text-red-300"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useMemo } from "react";
+import { nanoid } from "nanoid";
+import { clamp } from "@/lib/easing";
+import { seedSceneCaptions, type CaptionCue } from "@/lib/captions";
+import type { Scene } from "@/lib/scene";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+const timeClassName =
+  "w-16 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white transition focus:border-white/50 focus:outline-none";
+
+/** Length of a cue added by hand, shortened to fit the scene. */
+const NEW_CUE_DURATION = 2;
+
+/**
+ * The scene's caption cues. Until edited they follow the description;
+ * editing turns them into authored cues that no longer change with it.
+ */
+export function SceneCaptionsPanel({
+  scene,
+  onChange,
+}: {
+  scene: Scene;
+  /** `undefined` goes back to cues seeded from the description. */
+  onChange: (captions: CaptionCue[] | undefined) => void;
+}) {
+  const seeded = useMemo(() => seedSceneCaptions(scene), [scene]);
+  const cues = scene.captions;
+
+  const updateCue = (id: string, patch: Partial<CaptionCue>) =>
+    onChange(
+      cues?.map((cue) => {
+        if (cue.id !== id) return cue;
+        const next = { ...cue, ...patch };
+        const start = clamp(next.start, 0, scene.duration);
+        return { ...next, start, end: clamp(next.end, start, scene.duration) };
+      }),
+    );
+
+  const addCue = () => {
+    const start = Math.min(
+      cues?.reduce((latest, cue) => Math.max(latest, cue.end), 0) ?? 0,
+      scene.duration - 0.5,
+    );
+    onChange([
+      ...(cues ?? []),
+      {
+        id: nanoid(),
+        start,
+        end: Math.min(scene.duration, start + NEW_CUE_DURATION),
+        text: "",
+      },
+    ]);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Captions</span>
+        {cues ? (
+          <span className="flex gap-2">
+            <button type="button" onClick={addCue} className={buttonClassName}>
+              Add Cue
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(undefined)}
+              title="Seed the cues from the description again"
+              className={buttonClassName}
+            >
+              Reset to Auto
+            </button>
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onChange(seeded)}
+            className={buttonClassName}
+          >
+            Edit Cues
+          </button>
+        )}
+      </div>
+
+      {!cues && (
+        <>
+          <p className="text-xs text-slate-500">
+            Following the description, split into readable chunks.
+          </p>
+          <ol className="flex flex-col gap-1 text-xs text-slate-300">
+            {seeded.map((cue) => (
+              <li key={cue.id} className="flex gap-2">
+                <span className="w-20 shrink-0 font-mono text-slate-500">
+                  {cue.start.toFixed(1)}–{cue.end.toFixed(1)}s
+                </span>
+                <span>{cue.text}</span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {cues && cues.length === 0 && (
+        <p className="text-xs text-slate-500">This scene has no captions.</p>
+      )}
+
+      {cues?.map((cue) => (
+        <div key={cue.id} className="flex items-start gap-2">
+          <input
+            type="number"
+            min={0}
+            max={scene.duration}
+            step={0.1}
+            value={cue.start}
+            onChange={(event) =>
+              updateCue(cue.id, { start: Number(event.target.value) || 0 })
+            }
+            aria-label="Cue start (seconds)"
+            className={timeClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            max={scene.duration}
+            step={0.1}
+            value={cue.end}
+            onChange={(event) =>
+              updateCue(cue.id, { end: Number(event.target.value) || 0 })
+            }
+            aria-label="Cue end (seconds)"
+            className={timeClassName}
+          />
+          <textarea
+            value={cue.text}
+            rows={2}
+            onChange={(event) =>
+              updateCue(cue.id, { text: event.target.value })
+            }
+            aria-label="Cue text"
+            className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white transition focus:border-white/50 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() =>
+              onChange(cues.filter((entry) => entry.id !== cue.id))
+            }
+            aria-label="Remove cue"
+            className="px-1 text-xs text-slate-500 transition hover:text-white"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import classNames from "classnames";
+import { listChapters, type Scene, type SceneChapter } from "@/lib/scene";
+import { stripEmphasis } from "@/lib/typography";
+
+const SCENE_ROW_HEIGHT = 96;
+const CHAPTER_ROW_HEIGHT = 44;
+const ROW_GAP = 8;
+/** Rows drawn beyond the visible ones so fast scrolling stays filled. */
+const OVERSCAN_PX = 400;
+const LIST_MAX_HEIGHT = 560;
+
+type Row =
+  | { kind: "chapter"; chapter: SceneChapter }
+  | { kind: "scene"; scene: Scene; index: number };
+
+const rowHeight = (row: Row) =>
+  row.kind === "chapter" ? CHAPTER_ROW_HEIGHT : SCENE_ROW_HEIGHT;
+
+/**
+ * The storyboard's scenes grouped by chapter. Only rows near the viewport
+ * are mounted, and cards are memoized, so long storyboards stay responsive
+ * and editing one scene redraws one card.
+ */
+export function SceneList({
+  scenes,
+  selectedSceneId,
+  onSelect,
+  onRemove,
+  onChapterChange,
+}: {
+  scenes: Scene[];
+  selectedSceneId?: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  /** Starts (title) or ends (undefined) a chapter at the scene. */
+  onChapterChange: (id: string, title: string | undefined) => void;
+}) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(LIST_MAX_HEIGHT);
+
+  // Cards get stable callbacks so the memo holds across page renders.
+  const handlersRef = useRef({ onSelect, onRemove, onChapterChange });
+  handlersRef.current = { onSelect, onRemove, onChapterChange };
+  const select = useCallback(
+    (id: string) => handlersRef.current.onSelect(id),
+    [],
+  );
+  const remove = useCallback(
+    (id: string) => handlersRef.current.onRemove(id),
+    [],
+  );
+  const startChapter = useCallback(
+    (id: string) => handlersRef.current.onChapterChange(id, "New chapter"),
+    [],
+  );
+
+  const chapters = useMemo(() => listChapters(scenes), [scenes]);
+
+  const rows = useMemo(() => {
+    const result: Row[] = [];
+    let chapter: SceneChapter | undefined;
+    scenes.forEach((scene, index) => {
+      if (scene.chapter !== undefined) {
+        chapter = chapters.find((entry) => entry.id === scene.id);
+        if (chapter) result.push({ kind: "chapter", chapter });
+      }
+      if (chapter && collapsed.has(chapter.id)) return;
+      result.push({ kind: "scene", scene, index });
+    });
+    return result;
+  }, [scenes, chapters, collapsed]);
+
+  const offsets = useMemo(() => {
+    const result: number[] = [];
+    let top = 0;
+    for (const row of rows) {
+      result.push(top);
+      top += rowHeight(row) + ROW_GAP;
+    }
+    result.push(Math.max(0, top - ROW_GAP));
+    return result;
+  }, [rows]);
+  const totalHeight = offsets[offsets.length - 1];
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(viewport.clientHeight),
+    );
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the selection in view when it changes elsewhere, e.g. the timeline.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const index = rows.findIndex(
+      (row) => row.kind === "scene" && row.scene.id === selectedSceneId,
+    );
+    if (!viewport || index < 0) return;
+    const top = offsets[index];
+    const bottom = top + rowHeight(rows[index]);
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (bottom > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = bottom - viewport.clientHeight;
+    }
+    // Only selection changes should scroll, not edits to the rows.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedSceneId]);
+
+  const toggleChapter = (id: string) =>
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const visible = rows.flatMap((row, index) => {
+    const top = offsets[index];
+    return top + rowHeight(row) >= scrollTop - OVERSCAN_PX &&
+      top <= scrollTop + viewportHeight + OVERSCAN_PX
+      ? [{ row, top }]
+      : [];
+  });
+
+  return (
+    <div
+      ref={viewportRef}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      className="-mr-2 overflow-y-auto pr-2"
+      style={{ maxHeight: LIST_MAX_HEIGHT }}
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        {visible.map(({ row, top }) => (
+          <div
+            key={
+              row.kind === "chapter"
+                ? `chapter-${row.chapter.id}`
+                : row.scene.id
+            }
+            className="absolute inset-x-0"
+            style={{ top, height: rowHeight(row) }}
+          >
+            {row.kind === "chapter" ? (
+              <ChapterHeader
+                chapter={row.chapter}
+                isCollapsed={collapsed.has(row.chapter.id)}
+                onToggle={() => toggleChapter(row.chapter.id)}
+                onRename={(title) => onChapterChange(row.chapter.id, title)}
+                onRemove={() => onChapterChange(row.chapter.id, undefined)}
+              />
+            ) : (
+              <SceneCard
+                scene={row.scene}
+                index={row.index}
+                isSelected={row.scene.id === selectedSceneId}
+                canRemove={scenes.length > 1}
+                onSelect={select}
+                onRemove={remove}
+                onStartChapter={startChapter}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ChapterHeader({
+  chapter,
+  isCollapsed,
+  onToggle,
+  onRename,
+  onRemove,
+}: {
+  chapter: SceneChapter;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  onRename: (title: string) => void;
+  onRemove: () => void;
+}) {
+  const count = chapter.end - chapter.start;
+  return (
+    <div className="flex h-full items-center gap-2 rounded-xl border border-white/[0.06] bg-white/[0.03] px-3">
+      <button
+        type="button"
+        onClick={onToggle}
+        aria-expanded={!isCollapsed}
+        aria-label={isCollapsed ? "Expand chapter" : "Collapse chapter"}
+        className="w-4 text-xs text-slate-400 transition hover:text-white"
+      >
+        {isCollapsed ? "▸" : "▾"}
+      </button>
+      <input
+        value={chapter.title}
+        onChange={(event) => onRename(event.target.value)}
+        placeholder="Untitled chapter"
+        aria-label="Chapter title"
+        className="min-w-0 flex-1 bg-transparent text-xs font-semibold uppercase tracking-wide text-slate-200 placeholder:text-slate-500 focus:outline-none"
+      />
+      <span className="shrink-0 text-[10px] uppercase tracking-wide text-slate-500">
+        {count} {count === 1 ? "scene" : "scenes"}
+      </span>
+      <button
+        type="button"
+        onClick={onRemove}
+        title="Remove chapter (keeps its scenes)"
+        aria-label="Remove chapter"
+        className="text-xs text-slate-500 transition hover:text-white"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+const SceneCard = memo(function SceneCard({
+  scene,
+  index,
+  isSelected,
+  canRemove,
+  onSelect,
+  onRemove,
+  onStartChapter,
+}: {
+  scene: Scene;
+  index: number;
+  isSelected: boolean;
+  canRemove: boolean;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onStartChapter: (id: string) => void;
+}) {
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-pressed={isSelected}
+      onClick={() => onSelect(scene.id)}
+      onKeyDown={(event) => {
+        if (event.target !== event.currentTarget) return;
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault();
+          onSelect(scene.id);
+        }
+      }}
+      className={classNames(
+        "group relative flex h-full cursor-pointer flex-col gap-1 rounded-xl border border-white/[0.08] p-4 text-left transition hover:border-white/30 focus:outline-none focus-visible:ring-1 focus-visible:ring-white/50",
+        isSelected &&
+          "border-white/50 bg-white/[0.05] shadow-[0_0_0_1px_rgba(255,255,255,0.08)]",
+      )}
+    >
+      <span className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
+        <span>Scene {index + 1}</span>
+        <span>{scene.duration.toFixed(1)}s</span>
+      </span>
+      <span className="truncate text-sm font-medium text-white">
+        {stripEmphasis(scene.title)}
+      </span>
+      <span className="truncate text-xs text-slate-400">
+        {stripEmphasis(scene.description)}
+      </span>
+      <span className="absolute inset-y-0 right-3 flex items-center gap-2 opacity-0 transition group-focus-within:opacity-100 group-hover:opacity-100">
+        {scene.chapter === undefined && (
+          <button
+            type="button"
+            className="rounded-full bg-white/10 px-2 py-1 text-[10px] uppercase tracking-wide text-white hover:bg-white/20"
+            onClick={(event) => {
+              event.stopPropagation();
+              onStartChapter(scene.id);
+            }}
+          >
+            Chapter
+          </button>
+        )}
+        {canRemove && (
+          <button
+            type="button"
+            className="rounded-full bg-white/10 px-2 py-1 text-[10px] uppercase tracking-wide text-white hover:bg-white/20"
+            onClick={(event) => {
+              event.stopPropagation();
+              onRemove(scene.id);
+            }}
+          >
+            Remove
+          </button>
+        )}
+      </span>
+    </div>
+  );
+});
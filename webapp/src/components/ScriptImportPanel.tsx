@@ -0,0 +1,231 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import classNames from "classnames";
+import type { AnyGradient } from "@/lib/backgrounds";
+import type { MotionTemplate } from "@/lib/motion";
+import { MAX_SCENES, type Scene } from "@/lib/scene";
+import {
+  parseScript,
+  planScriptImport,
+  type ImportMode,
+  type ScriptImportRow,
+} from "@/lib/script-import";
+import { stripEmphasis } from "@/lib/typography";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+const PLACEHOLDER = `---
+animation: zoom
+---
+
+# Opening hook
+One sentence that makes people stay.
+
+# The problem
+---
+duration: 5
+---
+What hurts today, in **plain** words.`;
+
+const FIELD_LABELS: Partial<Record<keyof Scene, string>> = {
+  title: "title",
+  description: "description",
+  duration: "duration",
+  gradientId: "gradient",
+  motionTemplate: "animation",
+};
+
+const ROW_STYLES: Record<ScriptImportRow["kind"], string> = {
+  added: "border-emerald-400/30 bg-emerald-400/[0.06]",
+  removed: "border-red-400/30 bg-red-400/[0.06] line-through opacity-70",
+  changed: "border-amber-300/30 bg-amber-300/[0.06]",
+  unchanged: "border-white/[0.06] opacity-60",
+};
+
+const ROW_MARKS: Record<ScriptImportRow["kind"], string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+  unchanged: " ",
+};
+
+/**
+ * Paste or upload a Markdown or plain-text script, preview how it changes
+ * the storyboard and apply it as a single undoable edit.
+ */
+export function ScriptImportPanel({
+  scenes,
+  template,
+  gradients,
+  templates,
+  onApply,
+  onClose,
+}: {
+  scenes: Scene[];
+  /** Scene the imported scenes take their styling from. */
+  template: Scene;
+  gradients: AnyGradient[];
+  templates: MotionTemplate[];
+  onApply: (scenes: Scene[], imported: number) => void;
+  onClose: () => void;
+}) {
+  const [source, setSource] = useState("");
+  const [mode, setMode] = useState<ImportMode>("replace");
+  const [error, setError] = useState<string>();
+
+  const parsed = useMemo(
+    () =>
+      source.trim() ? parseScript(source, { gradients, templates }) : null,
+    [source, gradients, templates],
+  );
+  const plan = useMemo(
+    () =>
+      parsed
+        ? planScriptImport(scenes, parsed.scenes, mode, template, templates)
+        : null,
+    [parsed, scenes, mode, template, templates],
+  );
+  const imported = parsed && plan ? parsed.scenes.length - plan.dropped : 0;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(undefined);
+    if (!/\.(md|markdown|txt)$/i.test(file.name)) {
+      setError(`"${file.name}" is not a Markdown or text file.`);
+      return;
+    }
+    try {
+      setSource(await file.text());
+    } catch {
+      setError(`Unable to read "${file.name}".`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Import Script</span>
+        <button type="button" onClick={onClose} className={buttonClassName}>
+          Close
+        </button>
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(event) => setSource(event.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={8}
+        spellCheck={false}
+        className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 font-mono text-xs text-white transition focus:border-white/50 focus:outline-none"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={classNames(buttonClassName, "cursor-pointer")}>
+          Upload .md / .txt
+          <input
+            type="file"
+            accept=".md,.markdown,.txt,text/markdown,text/plain"
+            className="hidden"
+            onChange={(event) => {
+              void handleFile(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+        {(["replace", "append"] as const).map((option) => (
+          <button
+            type="button"
+            key={option}
+            onClick={() => setMode(option)}
+            aria-pressed={mode === option}
+            className={classNames(
+              buttonClassName,
+              mode === option && "border-white/60 bg-white/10 text-white",
+            )}
+          >
+            {option === "replace" ? "Replace" : "Append"}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {parsed && parsed.warnings.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs text-amber-200">
+          {parsed.warnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {plan && plan.dropped > 0 && (
+        <p className="text-xs text-amber-200">
+          Only {MAX_SCENES} scenes fit; the last {plan.dropped} from the script
+          will be left out.
+        </p>
+      )}
+
+      {plan && plan.rows.length > 0 && (
+        <ol className="flex max-h-72 flex-col gap-1.5 overflow-y-auto font-mono text-xs">
+          {plan.rows.map((row, index) => {
+            const scene = "after" in row ? row.after : row.before;
+            const estimated =
+              row.kind === "added" || row.kind === "changed"
+                ? parsed?.scenes[
+                    mode === "append" ? index - scenes.length : index
+                  ]?.estimated
+                : false;
+            return (
+              <li
+                key={`${row.kind}-${scene.id}`}
+                className={classNames(
+                  "flex gap-2 rounded-lg border px-2 py-1.5",
+                  ROW_STYLES[row.kind],
+                )}
+              >
+                <span className="w-3 shrink-0 text-slate-400">
+                  {ROW_MARKS[row.kind]}
+                </span>
+                <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+                  <span className="truncate text-slate-100">
+                    {stripEmphasis(scene.title) || "Untitled"}
+                  </span>
+                  {row.kind === "changed" && (
+                    <span className="truncate text-[10px] text-amber-200/80">
+                      {row.fields
+                        .map((field) => FIELD_LABELS[field] ?? field)
+                        .join(", ")}
+                      {row.fields.includes("title") &&
+                        ` · was "${stripEmphasis(row.before.title)}"`}
+                    </span>
+                  )}
+                </span>
+                <span
+                  className="shrink-0 text-slate-400"
+                  title={estimated ? "Estimated from reading speed" : undefined}
+                >
+                  {estimated && "≈"}
+                  {scene.duration.toFixed(1)}s
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <button
+        type="button"
+        disabled={!plan || imported === 0}
+        onClick={() => plan && onApply(plan.scenes, imported)}
+        className="rounded-full bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-slate-200 disabled:opacity-40"
+      >
+        {mode === "replace" ? "Replace" : "Append"} with {imported}{" "}
+        {imported === 1 ? "Scene" : "Scenes"}
+      </button>
+    </div>
+  );
+}
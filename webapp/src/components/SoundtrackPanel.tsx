@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_SOUNDTRACK_SETTINGS,
+  loadAudioAsset,
+  type Soundtrack,
+} from "@/lib/audio";
+import { clamp } from "@/lib/easing";
+
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+
+export function SoundtrackPanel({
+  soundtrack,
+  totalDuration,
+  onChange,
+}: {
+  soundtrack: Soundtrack | null;
+  totalDuration: number;
+  onChange: (soundtrack: Soundtrack | null) => void;
+}) {
+  const [error, setError] = useState<string>();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(undefined);
+    try {
+      const asset = await loadAudioAsset(file);
+      onChange({
+        ...DEFAULT_SOUNDTRACK_SETTINGS,
+        ...(soundtrack ? { ...soundtrack, trimStart: 0 } : {}),
+        asset,
+      });
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Unable to load that audio file.",
+      );
+    }
+  };
+
+  const update = (patch: Partial<Soundtrack>) => {
+    if (!soundtrack) return;
+    onChange({ ...soundtrack, ...patch });
+  };
+
+  const numberField = (
+    label: string,
+    key: "offset" | "trimStart" | "fadeIn" | "fadeOut",
+    max: number,
+  ) => (
+    <label className="flex flex-col gap-1.5">
+      <span className={labelClassName}>{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={max}
+        step={0.1}
+        value={soundtrack?.[key] ?? 0}
+        disabled={!soundtrack}
+        onChange={(event) =>
+          update({ [key]: clamp(Number(event.target.value), 0, max) })
+        }
+        className={`${fieldClassName} disabled:opacity-40`}
+      />
+    </label>
+  );
+
+  const rangeField = (label: string, key: "volume" | "duckVolume") => (
+    <label className="flex flex-col gap-1.5">
+      <span className={labelClassName}>
+        {label} · {Math.round((soundtrack?.[key] ?? 0) * 100)}%
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={soundtrack?.[key] ?? 0}
+        disabled={!soundtrack}
+        onChange={(event) => update({ [key]: Number(event.target.value) })}
+        className="accent-blue-500 disabled:opacity-40"
+      />
+    </label>
+  );
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-slate-900/60 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Soundtrack</h3>
+          <p className="text-sm text-slate-400">
+            {soundtrack
+              ? `${soundtrack.asset.name} · ${soundtrack.asset.duration.toFixed(1)}s`
+              : "Attach a music bed. It ducks automatically under scene voice-overs."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="cursor-pointer rounded-full border border-white/20 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:border-white/50 hover:bg-white/10">
+            {soundtrack ? "Replace" : "Upload Music"}
+            <input
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(event) => {
+                void handleFile(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          {soundtrack && (
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="rounded-full border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/50 hover:text-white"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-xl border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {soundtrack && (
+        <div className="mt-5 grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+          {numberField("Start At", "offset", totalDuration)}
+          {numberField("Trim Head", "trimStart", soundtrack.asset.duration)}
+          {numberField("Fade In", "fadeIn", totalDuration)}
+          {numberField("Fade Out", "fadeOut", totalDuration)}
+          {rangeField("Volume", "volume")}
+          {rangeField("Under Voice", "duckVolume")}
+          <label className="col-span-2 flex items-center gap-2 self-end text-xs font-semibold uppercase tracking-wide text-slate-300">
+            <input
+              type="checkbox"
+              checked={soundtrack.loop}
+              onChange={(event) => update({ loop: event.target.checked })}
+              className="h-4 w-4 accent-blue-500"
+            />
+            Loop to fit video length
+          </label>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import {
+  DEFAULT_CONTACT_SHEET_COLUMNS,
+  DEFAULT_STILL_PROGRESS,
+  DEFAULT_STILL_QUALITY,
+  STILL_FORMATS,
+  type ContactSheetFormat,
+  type StillFormat,
+  type StillRequest,
+} from "@/lib/stills";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+
+const SHEET_FORMATS: { id: ContactSheetFormat; label: string }[] = [
+  { id: "png", label: "PNG" },
+  { id: "pdf", label: "PDF" },
+];
+
+/**
+ * Still exports: a poster frame at a chosen time, one thumbnail per scene
+ * and a labelled contact sheet of every scene for review.
+ */
+export function StillsPanel({
+  currentTime,
+  totalDuration,
+  sceneCount,
+  busy,
+  error,
+  onExport,
+}: {
+  /** The playhead, which the poster time follows until edited. */
+  currentTime: number;
+  totalDuration: number;
+  sceneCount: number;
+  busy: boolean;
+  error: string | null;
+  onExport: (request: StillRequest) => void;
+}) {
+  const [format, setFormat] = useState<StillFormat>("png");
+  const [quality, setQuality] = useState(DEFAULT_STILL_QUALITY);
+  const [posterTime, setPosterTime] = useState<number | null>(null);
+  const [progress, setProgress] = useState(DEFAULT_STILL_PROGRESS);
+  const [columns, setColumns] = useState(DEFAULT_CONTACT_SHEET_COLUMNS);
+  const [sheetFormat, setSheetFormat] = useState<ContactSheetFormat>("pdf");
+
+  const time = posterTime ?? currentTime;
+  const lossy = STILL_FORMATS.find((entry) => entry.id === format)?.lossy;
+
+  return (
+    <div className="mt-5 flex flex-col gap-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className={labelClassName}>Stills</span>
+        <div className="flex gap-2">
+          {STILL_FORMATS.map((entry) => (
+            <button
+              type="button"
+              key={entry.id}
+              onClick={() => setFormat(entry.id)}
+              aria-pressed={format === entry.id}
+              className={classNames(
+                buttonClassName,
+                format === entry.id && "border-white/60 bg-white/10",
+              )}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Poster At · Seconds</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={totalDuration}
+              step={0.1}
+              value={Number(time.toFixed(2))}
+              onChange={(event) =>
+                setPosterTime(
+                  Math.min(
+                    totalDuration,
+                    Math.max(0, Number(event.target.value) || 0),
+                  ),
+                )
+              }
+              className={classNames(fieldClassName, "w-full")}
+            />
+            <button
+              type="button"
+              onClick={() => setPosterTime(null)}
+              disabled={posterTime === null}
+              title="Follow the playhead"
+              className={buttonClassName}
+            >
+              Playhead
+            </button>
+          </div>
+        </label>
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>
+            Scene Point · {Math.round(progress * 100)}%
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={progress}
+            onChange={(event) => setProgress(Number(event.target.value))}
+            className="accent-blue-500"
+          />
+        </label>
+        <label
+          className={classNames(
+            "flex flex-col gap-1.5",
+            !lossy && "opacity-40",
+          )}
+        >
+          <span className={labelClassName}>
+            Quality · {Math.round(quality * 100)}%
+          </span>
+          <input
+            type="range"
+            min={0.4}
+            max={1}
+            step={0.05}
+            value={quality}
+            disabled={!lossy}
+            onChange={(event) => setQuality(Number(event.target.value))}
+            className="accent-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={busy || !sceneCount}
+          onClick={() => onExport({ kind: "poster", time, format, quality })}
+          className={buttonClassName}
+        >
+          Download Poster
+        </button>
+        <button
+          type="button"
+          disabled={busy || !sceneCount}
+          onClick={() =>
+            onExport({ kind: "thumbnails", progress, format, quality })
+          }
+          className={buttonClassName}
+        >
+          Scene Thumbnails
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1.5">
+          <span className={labelClassName}>Contact Sheet · Columns</span>
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={columns}
+            onChange={(event) =>
+              setColumns(
+                Math.min(
+                  8,
+                  Math.max(1, Math.round(Number(event.target.value) || 1)),
+                ),
+              )
+            }
+            className={classNames(fieldClassName, "w-24")}
+          />
+        </label>
+        <div className="flex gap-2 pb-1.5">
+          {SHEET_FORMATS.map((entry) => (
+            <button
+              type="button"
+              key={entry.id}
+              onClick={() => setSheetFormat(entry.id)}
+              aria-pressed={sheetFormat === entry.id}
+              className={classNames(
+                buttonClassName,
+                sheetFormat === entry.id && "border-white/60 bg-white/10",
+              )}
+            >
+              {entry.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            disabled={busy || !sceneCount}
+            onClick={() =>
+              onExport({
+                kind: "contact-sheet",
+                progress,
+                columns,
+                format: sheetFormat,
+              })
+            }
+            className={buttonClassName}
+          >
+            {busy ? "Rendering…" : "Download Sheet"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import classNames from "classnames";
+import { prepareSceneFonts } from "@/lib/fonts";
+import { preloadSceneImages } from "@/lib/media";
+import { computeFrameLayout } from "@/lib/output";
+import {
+  createFrameBuffers,
+  renderCompositionFrame,
+  type FrameBuffers,
+} from "@/lib/scene-draw";
+import type { StoryboardTemplate } from "@/lib/storyboard-templates";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+} from "@/lib/transitions";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 disabled:opacity-30";
+const inputClassName =
+  "rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition focus:border-white/50 focus:outline-none";
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 180;
+/** Where in the first scene the resting thumbnail is taken, once text is in. */
+const POSTER_PROGRESS = 0.7;
+
+/**
+ * Complete storyboards to start a project from, plus the user's own saved
+ * ones. Cards play their storyboard while hovered.
+ */
+export function TemplateGallery({
+  templates,
+  projectName,
+  onUse,
+  onSave,
+  onDelete,
+  onClose,
+}: {
+  templates: StoryboardTemplate[];
+  /** Suggested name when saving the current storyboard. */
+  projectName: string;
+  onUse: (template: StoryboardTemplate) => void;
+  onSave: (name: string, description: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(projectName);
+  const [description, setDescription] = useState("");
+  const [isSaving, setSaving] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError(undefined);
+    try {
+      await onSave(name.trim(), description.trim());
+      setDescription("");
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : "Unable to save template.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Storyboard Templates</span>
+        <button type="button" onClick={onClose} className={buttonClassName}>
+          Close
+        </button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {templates.map((template) => (
+          <div
+            key={template.id}
+            className="flex flex-col overflow-hidden rounded-xl border border-white/10 bg-white/[0.03]"
+          >
+            <TemplatePreview template={template} />
+            <div className="flex flex-1 flex-col gap-2 p-3">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="truncate text-sm font-semibold text-white">
+                  {template.name || "Untitled template"}
+                </span>
+                <span className="shrink-0 text-[10px] uppercase tracking-wide text-slate-500">
+                  {template.builtIn ? "" : "Yours · "}
+                  {template.scenes.length} scenes
+                </span>
+              </div>
+              {template.description && (
+                <p className="text-xs text-slate-400">{template.description}</p>
+              )}
+              <div className="mt-auto flex gap-2 pt-1">
+                <button
+                  type="button"
+                  onClick={() => onUse(template)}
+                  className={classNames(
+                    buttonClassName,
+                    "border-white/30 text-white",
+                  )}
+                >
+                  Use Template
+                </button>
+                {!template.builtIn && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(template.id)}
+                    className={buttonClassName}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 border-t border-white/10 pt-4">
+        <span className={labelClassName}>Save Current as Template</span>
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Template name"
+            aria-label="Template name"
+            className={classNames(inputClassName, "min-w-[180px] flex-1")}
+          />
+          <input
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="What it's for (optional)"
+            aria-label="Template description"
+            className={classNames(inputClassName, "min-w-[220px] flex-[2]")}
+          />
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={isSaving || !name.trim()}
+            className={buttonClassName}
+          >
+            {isSaving ? "Saving…" : "Save"}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Draws the template with the export renderer: a still from the first
+ * scene at rest, the whole storyboard on a loop while hovered.
+ */
+function TemplatePreview({ template }: { template: StoryboardTemplate }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const buffersRef = useRef<FrameBuffers>();
+  const [isHovered, setHovered] = useState(false);
+  const [loadedAssets, setLoadedAssets] = useState(0);
+
+  const timings = useMemo(
+    () => computeSceneTimings(template.scenes),
+    [template.scenes],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.all([
+      preloadSceneImages(template.scenes),
+      prepareSceneFonts(template.scenes, template.fonts),
+    ]).then((loaded) => {
+      if (loaded.some(Boolean) && !cancelled) {
+        setLoadedAssets((count) => count + 1);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [template]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context || !timings.length) return;
+
+    const layout = computeFrameLayout(PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    const buffers = (buffersRef.current ??= createFrameBuffers(layout));
+    const draw = (time: number) =>
+      renderCompositionFrame(
+        context,
+        template.scenes,
+        time,
+        layout,
+        buffers,
+        timings,
+        { gradients: template.gradients },
+      );
+
+    if (!isHovered) {
+      draw(timings[0].start + template.scenes[0].duration * POSTER_PROGRESS);
+      return;
+    }
+
+    const totalDuration = totalDurationForTimings(timings);
+    let request = 0;
+    let startedAt: number | undefined;
+    const tick = (now: number) => {
+      startedAt ??= now;
+      draw(((now - startedAt) / 1000) % totalDuration);
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [template, timings, isHovered, loadedAssets]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_WIDTH}
+      height={PREVIEW_HEIGHT}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      role="img"
+      aria-label={`${template.name} preview`}
+      className="aspect-video w-full bg-slate-950"
+    />
+  );
+}
@@ -0,0 +1,559 @@
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+} from "react";
+import classNames from "classnames";
+import { clamp } from "@/lib/easing";
+import {
+  MAX_DURATION,
+  MIN_DURATION,
+  listChapters,
+  type Scene,
+} from "@/lib/scene";
+import type { SceneTiming } from "@/lib/transitions";
+import type { LoopRange } from "@/lib/transport";
+
+const SNAP_STEP = 0.1;
+const SNAP_DISTANCE_PX = 8;
+const DRAG_THRESHOLD_PX = 4;
+const MAX_ZOOM = 32;
+const ZOOM_STEP = 1.5;
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300];
+const MIN_TICK_SPACING_PX = 48;
+
+/** A pin above the ruler, e.g. a review comment. */
+export type TimelineMarker = {
+  id: string;
+  time: number;
+  label: string;
+  active?: boolean;
+};
+
+type DragState =
+  | {
+      kind: "move";
+      id: string;
+      originX: number;
+      offset: number;
+      target: number;
+      moved: boolean;
+    }
+  | {
+      kind: "trim";
+      id: string;
+      originX: number;
+      start: number;
+      duration: number;
+      secondsPerPixel: number;
+      boundaries: number[];
+    };
+
+/**
+ * Interactive storyboard timeline. Blocks drag to reorder, their right edge
+ * drags to trim, and the ruler seeks the preview. Every gesture has a
+ * keyboard equivalent: arrows on the ruler seek, Alt+arrows on a block move
+ * it, and arrows on a trim handle change the duration. Zooming (buttons or
+ * Ctrl+wheel) widens the track, which then scrolls and follows the playhead.
+ * Without `onMove` and `onTrim` the timeline is read-only: blocks select
+ * and seek, but cannot be dragged or trimmed.
+ */
+export function Timeline({
+  scenes,
+  timings,
+  currentTime,
+  totalDuration,
+  loopRange,
+  selectedSceneId,
+  markers = [],
+  onSeek,
+  onSelect,
+  onMove,
+  onTrim,
+  onMarkerSelect,
+}: {
+  scenes: Scene[];
+  timings: SceneTiming[];
+  currentTime: number;
+  totalDuration: number;
+  loopRange?: LoopRange | null;
+  selectedSceneId?: string;
+  markers?: TimelineMarker[];
+  onSeek: (time: number) => void;
+  onSelect: (id: string) => void;
+  onMove?: (id: string, index: number) => void;
+  onTrim?: (id: string, duration: number) => void;
+  onMarkerSelect?: (id: string) => void;
+}) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const rulerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [viewportWidth, setViewportWidth] = useState(0);
+
+  const chapters = useMemo(() => listChapters(scenes), [scenes]);
+  const editable = Boolean(onMove && onTrim);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() =>
+      setViewportWidth(viewport.clientWidth),
+    );
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl/⌘+wheel zooms; React's wheel listener is passive, so attach here.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      setZoom((current) =>
+        clamp(
+          event.deltaY < 0 ? current * ZOOM_STEP : current / ZOOM_STEP,
+          1,
+          MAX_ZOOM,
+        ),
+      );
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const playheadPx = totalDuration
+    ? (currentTime / totalDuration) * viewportWidth * zoom
+    : 0;
+
+  // Recenter on the playhead after zooming.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport) viewport.scrollLeft = playheadPx - viewport.clientWidth / 2;
+    // Only zoom changes recenter; playback is followed below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom]);
+
+  // Page along with the playhead once it leaves the visible range.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || zoom === 1 || drag) return;
+    const { scrollLeft, clientWidth } = viewport;
+    if (playheadPx < scrollLeft || playheadPx > scrollLeft + clientWidth) {
+      viewport.scrollLeft = playheadPx - clientWidth * 0.1;
+    }
+  }, [playheadPx, zoom, drag]);
+
+  const toPercent = (seconds: number) =>
+    totalDuration ? (seconds / totalDuration) * 100 : 0;
+
+  const timeAt = (element: HTMLElement | null, clientX: number) => {
+    if (!element || !totalDuration) return 0;
+    const bounds = element.getBoundingClientRect();
+    return clamp((clientX - bounds.left) / bounds.width, 0, 1) * totalDuration;
+  };
+
+  const seekTo = (clientX: number) => onSeek(timeAt(rulerRef.current, clientX));
+
+  // Insertion index among the other scenes, judged by their midpoints.
+  const dropIndex = (id: string, time: number) =>
+    scenes.filter(
+      (scene, index) =>
+        scene.id !== id &&
+        timings[index] &&
+        (timings[index].start + timings[index].end) / 2 < time,
+    ).length;
+
+  const dropIndicatorTime = (id: string, target: number) => {
+    const others = timings.filter((_, index) => scenes[index]?.id !== id);
+    return target === 0 ? 0 : (others[target - 1]?.end ?? 0);
+  };
+
+  const startMove = (event: PointerEvent<HTMLDivElement>, id: string) => {
+    if (event.button !== 0) return;
+    if (!editable) {
+      onSelect(id);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      kind: "move",
+      id,
+      originX: event.clientX,
+      offset: 0,
+      target: scenes.findIndex((scene) => scene.id === id),
+      moved: false,
+    });
+  };
+
+  const startTrim = (event: PointerEvent<HTMLDivElement>, index: number) => {
+    const track = trackRef.current;
+    const scene = scenes[index];
+    const timing = timings[index];
+    if (event.button !== 0 || !track || !scene || !timing) return;
+
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      kind: "trim",
+      id: scene.id,
+      originX: event.clientX,
+      start: timing.start,
+      duration: scene.duration,
+      secondsPerPixel: totalDuration / track.getBoundingClientRect().width,
+      boundaries: timings
+        .filter((_, position) => position !== index)
+        .flatMap((other) => [other.start, other.end]),
+    });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const offset = event.clientX - drag.originX;
+
+    if (drag.kind === "move") {
+      setDrag({
+        ...drag,
+        offset,
+        moved: drag.moved || Math.abs(offset) > DRAG_THRESHOLD_PX,
+        target: dropIndex(drag.id, timeAt(trackRef.current, event.clientX)),
+      });
+      return;
+    }
+
+    const end = snapTime(
+      drag.start + drag.duration + offset * drag.secondsPerPixel,
+      drag.boundaries,
+      SNAP_DISTANCE_PX * drag.secondsPerPixel,
+    );
+    onTrim?.(drag.id, clamp(end - drag.start, MIN_DURATION, MAX_DURATION));
+  };
+
+  const finishDrag = () => {
+    if (drag?.kind === "move") {
+      const index = scenes.findIndex((scene) => scene.id === drag.id);
+      if (!drag.moved) {
+        onSelect(drag.id);
+      } else if (drag.target !== index) {
+        onMove?.(drag.id, drag.target);
+      }
+    }
+    setDrag(null);
+  };
+
+  const handleRulerKey = (event: KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 1 : SNAP_STEP;
+    const next =
+      event.key === "ArrowLeft"
+        ? currentTime - step
+        : event.key === "ArrowRight"
+          ? currentTime + step
+          : event.key === "Home"
+            ? 0
+            : event.key === "End"
+              ? totalDuration
+              : null;
+    if (next === null) return;
+    event.preventDefault();
+    onSeek(clamp(next, 0, totalDuration));
+  };
+
+  const handleBlockKey = (
+    event: KeyboardEvent<HTMLDivElement>,
+    scene: Scene,
+    index: number,
+  ) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      onSelect(scene.id);
+      return;
+    }
+    if (!event.altKey || !onMove) return;
+
+    const target =
+      event.key === "ArrowLeft"
+        ? index - 1
+        : event.key === "ArrowRight"
+          ? index + 1
+          : null;
+    if (target === null) return;
+    event.preventDefault();
+    if (target >= 0 && target < scenes.length) onMove(scene.id, target);
+  };
+
+  const handleTrimKey = (
+    event: KeyboardEvent<HTMLDivElement>,
+    scene: Scene,
+  ) => {
+    const step = event.shiftKey ? 1 : SNAP_STEP;
+    const delta =
+      event.key === "ArrowLeft" ? -step : event.key === "ArrowRight" ? step : 0;
+    if (!delta || !onTrim) return;
+    event.preventDefault();
+    event.stopPropagation();
+    onTrim(
+      scene.id,
+      clamp(roundToStep(scene.duration + delta), MIN_DURATION, MAX_DURATION),
+    );
+  };
+
+  const pixelsPerSecond = totalDuration
+    ? (viewportWidth * zoom) / totalDuration
+    : 0;
+  const tickStep =
+    TICK_STEPS.find((step) => step * pixelsPerSecond >= MIN_TICK_SPACING_PX) ??
+    TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks = Array.from(
+    { length: Math.floor(totalDuration / tickStep) + 1 },
+    (_, index) => index * tickStep,
+  );
+
+  return (
+    <div className="mt-4 flex flex-col gap-2">
+      <div className="flex items-center justify-end gap-1 text-[10px] uppercase tracking-wide text-slate-400">
+        <button
+          type="button"
+          onClick={() => setZoom((current) => Math.max(1, current / ZOOM_STEP))}
+          disabled={zoom <= 1}
+          aria-label="Zoom out"
+          className={zoomButtonClassName}
+        >
+          −
+        </button>
+        <button
+          type="button"
+          onClick={() => setZoom(1)}
+          disabled={zoom <= 1}
+          className={zoomButtonClassName}
+        >
+          Fit
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            setZoom((current) => Math.min(MAX_ZOOM, current * ZOOM_STEP))
+          }
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+          className={zoomButtonClassName}
+        >
+          +
+        </button>
+      </div>
+      <div ref={viewportRef} className="overflow-x-auto pb-3">
+        <div
+          className="flex flex-col gap-2"
+          style={{ width: `${zoom * 100}%` }}
+        >
+          {chapters.length > 0 && (
+            <div className="relative h-4 text-[9px] font-semibold uppercase tracking-wider text-slate-400">
+              {chapters.map((chapter) => {
+                const start = timings[chapter.start]?.start ?? 0;
+                const end = timings[chapter.end - 1]?.end ?? start;
+                return (
+                  <span
+                    key={chapter.id}
+                    title={chapter.title}
+                    className="absolute inset-y-0 truncate border-l border-white/30 pl-1"
+                    style={{
+                      left: `${toPercent(start)}%`,
+                      width: `${toPercent(end - start)}%`,
+                    }}
+                  >
+                    {chapter.title || "Untitled chapter"}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+          {markers.length > 0 && (
+            <div className="relative h-4">
+              {markers.map((marker) => (
+                <button
+                  type="button"
+                  key={marker.id}
+                  title={marker.label}
+                  aria-label={`Comment at ${marker.time.toFixed(1)}s: ${marker.label}`}
+                  onClick={() => {
+                    onSeek(marker.time);
+                    onMarkerSelect?.(marker.id);
+                  }}
+                  className={classNames(
+                    "absolute top-0 h-4 w-2.5 -translate-x-1/2 rounded-sm bg-amber-400/70 transition hover:bg-amber-300 focus:outline-none focus-visible:ring-1 focus-visible:ring-white/60",
+                    marker.active && "bg-amber-200 ring-1 ring-white/70",
+                  )}
+                  style={{ left: `${toPercent(marker.time)}%` }}
+                />
+              ))}
+            </div>
+          )}
+          <div
+            ref={rulerRef}
+            role="slider"
+            tabIndex={0}
+            aria-label="Playhead"
+            aria-valuemin={0}
+            aria-valuemax={totalDuration}
+            aria-valuenow={currentTime}
+            aria-valuetext={`${currentTime.toFixed(1)}s`}
+            onPointerDown={(event) => {
+              if (event.button !== 0) return;
+              event.currentTarget.setPointerCapture(event.pointerId);
+              seekTo(event.clientX);
+            }}
+            onPointerMove={(event) => {
+              if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+                seekTo(event.clientX);
+              }
+            }}
+            onKeyDown={handleRulerKey}
+            className="relative h-6 cursor-pointer touch-none select-none rounded focus:outline-none focus-visible:ring-1 focus-visible:ring-white/50"
+          >
+            {ticks.map((tick) => (
+              <span
+                key={tick}
+                className="pointer-events-none absolute top-0 flex -translate-x-1/2 flex-col items-center text-[9px] text-slate-500"
+                style={{ left: `${toPercent(tick)}%` }}
+              >
+                {tick}s
+                <span className="h-1.5 w-px bg-white/20" />
+              </span>
+            ))}
+            {loopRange && (
+              <span
+                className="pointer-events-none absolute inset-y-0 rounded bg-cyan-400/10 ring-1 ring-inset ring-cyan-400/40"
+                style={{
+                  left: `${toPercent(loopRange.start)}%`,
+                  width: `${toPercent(loopRange.end - loopRange.start)}%`,
+                }}
+              />
+            )}
+            <div className="absolute inset-x-0 bottom-0 h-1 rounded-full bg-white/10">
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-gradient-to-r from-cyan-400 via-blue-500 to-indigo-500"
+                style={{
+                  width: `${toPercent(currentTime)}%`,
+                }}
+              />
+            </div>
+            <span
+              className="pointer-events-none absolute -bottom-0.5 h-2 w-2 -translate-x-1/2 rounded-full bg-white shadow"
+              style={{ left: `${toPercent(currentTime)}%` }}
+            />
+          </div>
+
+          <div
+            ref={trackRef}
+            className="relative h-7 text-[10px] uppercase tracking-wider text-slate-400"
+          >
+            {scenes.map((scene, index) => {
+              const timing = timings[index];
+              if (!timing) return null;
+              const isDragging = drag?.kind === "move" && drag.id === scene.id;
+
+              return (
+                <div
+                  key={scene.id}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`Scene ${index + 1}, ${scene.duration.toFixed(1)} seconds`}
+                  aria-pressed={scene.id === selectedSceneId}
+                  title={
+                    editable ? "Drag to reorder · Alt+←/→ to move" : undefined
+                  }
+                  onPointerDown={(event) => startMove(event, scene.id)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={finishDrag}
+                  onPointerCancel={() => setDrag(null)}
+                  onKeyDown={(event) => handleBlockKey(event, scene, index)}
+                  className={classNames(
+                    "absolute inset-y-0 touch-none select-none truncate rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-center font-semibold text-slate-300 focus:outline-none focus-visible:ring-1 focus-visible:ring-white/50",
+                    editable ? "cursor-grab" : "cursor-pointer",
+                    scene.id === selectedSceneId &&
+                      "border-white/40 bg-white/10",
+                    isDragging && "z-10 cursor-grabbing opacity-80 shadow-lg",
+                  )}
+                  style={{
+                    left: `${toPercent(timing.start)}%`,
+                    width: `${toPercent(scene.duration)}%`,
+                    transform: isDragging
+                      ? `translateX(${drag.offset}px)`
+                      : undefined,
+                  }}
+                >
+                  {timing.overlap > 0 && (
+                    <span
+                      className="pointer-events-none absolute inset-y-0 left-0 rounded-l-lg bg-gradient-to-r from-blue-500/30 to-transparent"
+                      style={{
+                        width: `${(timing.overlap / scene.duration) * 100}%`,
+                      }}
+                      title={`${scene.transition.type} · ${timing.overlap.toFixed(1)}s`}
+                    />
+                  )}
+                  Scene {index + 1} · {scene.duration.toFixed(1)}s
+                  <span className="pointer-events-none absolute inset-x-0 -bottom-2 text-[9px] font-medium text-blue-400/80">
+                    {timing.start.toFixed(1)}s
+                  </span>
+                  {editable && (
+                    <div
+                      role="slider"
+                      tabIndex={0}
+                      aria-label={`Scene ${index + 1} duration`}
+                      aria-valuemin={MIN_DURATION}
+                      aria-valuemax={MAX_DURATION}
+                      aria-valuenow={scene.duration}
+                      aria-valuetext={`${scene.duration.toFixed(1)}s`}
+                      title="Drag to trim · ←/→ to adjust"
+                      onPointerDown={(event) => startTrim(event, index)}
+                      onKeyDown={(event) => handleTrimKey(event, scene)}
+                      className="absolute inset-y-0 right-0 w-2 cursor-ew-resize rounded-r-lg bg-white/10 transition hover:bg-white/40 focus:outline-none focus-visible:bg-white/60"
+                    />
+                  )}
+                </div>
+              );
+            })}
+            {drag?.kind === "move" && drag.moved && (
+              <span
+                className="pointer-events-none absolute -inset-y-1 w-0.5 -translate-x-1/2 rounded-full bg-cyan-400"
+                style={{
+                  left: `${toPercent(dropIndicatorTime(drag.id, drag.target))}%`,
+                }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const zoomButtonClassName =
+  "rounded-full border border-white/10 px-2 py-0.5 font-semibold transition hover:border-white/40 disabled:opacity-30";
+
+/**
+ * Snaps to the nearest boundary within `tolerance` seconds, otherwise to the
+ * 0.1s grid.
+ */
+function snapTime(value: number, boundaries: number[], tolerance: number) {
+  let snapped = roundToStep(value);
+  let closest = tolerance;
+  for (const boundary of boundaries) {
+    const distance = Math.abs(boundary - value);
+    if (distance <= closest) {
+      closest = distance;
+      snapped = boundary;
+    }
+  }
+  return snapped;
+}
+
+function roundToStep(value: number) {
+  return Number((Math.round(value / SNAP_STEP) * SNAP_STEP).toFixed(1));
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { clamp } from "@/lib/easing";
+import {
+  PLAYBACK_RATES,
+  countFrames,
+  formatTimecode,
+  frameAt,
+  frameTime,
+  type LoopRange,
+} from "@/lib/transport";
+
+const buttonClassName =
+  "rounded-full border border-white/10 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/50 hover:text-white disabled:opacity-30";
+
+/**
+ * Preview transport. Every position it reports sits on the export frame
+ * grid, so a paused preview shows exactly the frame the exporter writes.
+ */
+export function Transport({
+  time,
+  duration,
+  fps,
+  isPlaying,
+  rate,
+  loopRange,
+  onTogglePlay,
+  onSeek,
+  onRateChange,
+  onLoopRangeChange,
+}: {
+  time: number;
+  duration: number;
+  fps: number;
+  isPlaying: boolean;
+  rate: number;
+  loopRange: LoopRange | null;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onRateChange: (rate: number) => void;
+  onLoopRangeChange: (range: LoopRange | null) => void;
+}) {
+  const frame = frameAt(time, fps, duration);
+  const lastFrame = countFrames(duration, fps) - 1;
+  const frameStart = frameTime(frame, fps);
+  const frameEnd = frameTime(frame + 1, fps);
+
+  const stepTo = (target: number) => onSeek(frameTime(target, fps));
+
+  // Stepping is for inspecting single frames, so it pauses playback.
+  const stepBy = (delta: number) => {
+    if (isPlaying) onTogglePlay();
+    stepTo(clamp(frame + delta, 0, lastFrame));
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-3">
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        step={1}
+        value={frame}
+        onChange={(event) => stepTo(Number(event.target.value))}
+        aria-label="Scrub preview"
+        aria-valuetext={formatTimecode(frameStart, fps)}
+        className="w-full accent-cyan-400"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            stepTo(loopRange ? frameAt(loopRange.start, fps, duration) : 0)
+          }
+          aria-label="Go to start"
+          className={buttonClassName}
+        >
+          ⏮
+        </button>
+        <button
+          type="button"
+          onClick={() => stepBy(-1)}
+          disabled={frame === 0}
+          aria-label="Previous frame"
+          className={buttonClassName}
+        >
+          ◀|
+        </button>
+        <button
+          type="button"
+          onClick={onTogglePlay}
+          className="rounded-full border border-white/20 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:border-white/50 hover:bg-white/10"
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <button
+          type="button"
+          onClick={() => stepBy(1)}
+          disabled={frame === lastFrame}
+          aria-label="Next frame"
+          className={buttonClassName}
+        >
+          |▶
+        </button>
+
+        <span className="font-mono text-sm tabular-nums text-white">
+          {formatTimecode(frameStart, fps)}
+          <span className="text-slate-500">
+            {" "}
+            / {formatTimecode(frameTime(lastFrame, fps), fps)}
+          </span>
+        </span>
+
+        <select
+          value={rate}
+          onChange={(event) => onRateChange(Number(event.target.value))}
+          aria-label="Playback speed"
+          className="ml-auto rounded-full border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-semibold text-white focus:border-white/50 focus:outline-none"
+        >
+          {PLAYBACK_RATES.map((option) => (
+            <option key={option} value={option} className="bg-slate-900">
+              {option}×
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() =>
+              onLoopRangeChange({
+                start: frameStart,
+                end:
+                  loopRange && loopRange.end > frameStart
+                    ? loopRange.end
+                    : duration,
+              })
+            }
+            title="Start the loop at this frame"
+            className={buttonClassName}
+          >
+            In
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              onLoopRangeChange({
+                start:
+                  loopRange && loopRange.start < frameEnd ? loopRange.start : 0,
+                end: frameEnd,
+              })
+            }
+            title="End the loop after this frame"
+            className={buttonClassName}
+          >
+            Out
+          </button>
+          {loopRange && (
+            <button
+              type="button"
+              onClick={() => onLoopRangeChange(null)}
+              className={buttonClassName}
+            >
+              Clear Loop
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loopRange && (
+        <p className="text-xs text-slate-400">
+          Looping {formatTimecode(loopRange.start, fps)} →{" "}
+          {formatTimecode(loopRange.end - 1 / fps, fps)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import classNames from "classnames";
+import { BUILT_IN_FONTS, type FontAsset } from "@/lib/fonts";
+import {
+  FONT_WEIGHTS,
+  TEXT_ANIMATIONS,
+  type SceneTypography,
+  type TextAlignment,
+  type TextRole,
+  type VerticalAnchor,
+} from "@/lib/typography";
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const smallLabelClassName =
+  "text-[10px] font-semibold uppercase tracking-wide text-slate-400";
+const compactFieldClassName =
+  "w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white focus:border-white/50 focus:outline-none";
+const optionClassName =
+  "rounded-xl border border-white/10 px-2 py-2 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white";
+
+const ROLES: { id: "title" | "body"; label: string }[] = [
+  { id: "title", label: "Title" },
+  { id: "body", label: "Body" },
+];
+
+const ALIGNMENTS: TextAlignment[] = ["left", "center", "right"];
+const ANCHORS: VerticalAnchor[] = ["top", "middle", "bottom"];
+
+export function TypographyPanel({
+  typography,
+  fonts,
+  onChange,
+  onUploadFont,
+}: {
+  typography: SceneTypography;
+  fonts: FontAsset[];
+  onChange: (typography: SceneTypography) => void;
+  onUploadFont: (file: File) => Promise<void>;
+}) {
+  const [error, setError] = useState<string>();
+
+  const updateRole = (id: "title" | "body", patch: Partial<TextRole>) =>
+    onChange({ ...typography, [id]: { ...typography[id], ...patch } });
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setError(undefined);
+    try {
+      await onUploadFont(file);
+    } catch (uploadError) {
+      setError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : "Unable to load that font.",
+      );
+    }
+  };
+
+  const families = [
+    ...BUILT_IN_FONTS.map((font) => font.family),
+    ...fonts.map((font) => font.family),
+  ];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Typography</span>
+        <label className="cursor-pointer rounded-full border border-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/40 hover:text-white">
+          Upload Font
+          <input
+            type="file"
+            accept=".woff2,.woff,.ttf,.otf"
+            className="hidden"
+            onChange={(event) => {
+              void handleUpload(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {ROLES.map(({ id, label }) => {
+        const role = typography[id];
+        return (
+          <div
+            key={id}
+            className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 p-3"
+          >
+            <div className="flex items-center gap-2">
+              <span className={classNames(smallLabelClassName, "w-10")}>
+                {label}
+              </span>
+              <select
+                value={role.family}
+                onChange={(event) =>
+                  updateRole(id, { family: event.target.value })
+                }
+                aria-label={`${label} font`}
+                className={compactFieldClassName}
+              >
+                {!families.includes(role.family) && (
+                  <option value={role.family} className="bg-slate-900">
+                    {role.family} (missing)
+                  </option>
+                )}
+                {families.map((family) => (
+                  <option key={family} value={family} className="bg-slate-900">
+                    {family}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <label className="flex flex-col gap-1">
+                <span className={smallLabelClassName}>Size</span>
+                <input
+                  type="number"
+                  min={8}
+                  max={240}
+                  step={1}
+                  value={role.size}
+                  onChange={(event) =>
+                    updateRole(id, {
+                      size: Math.max(8, Number(event.target.value)),
+                    })
+                  }
+                  className={compactFieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={smallLabelClassName}>Weight</span>
+                <select
+                  value={role.weight}
+                  onChange={(event) =>
+                    updateRole(id, { weight: Number(event.target.value) })
+                  }
+                  className={compactFieldClassName}
+                >
+                  {FONT_WEIGHTS.map((weight) => (
+                    <option
+                      key={weight}
+                      value={weight}
+                      className="bg-slate-900"
+                    >
+                      {weight}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={smallLabelClassName}>Line</span>
+                <input
+                  type="number"
+                  min={0.6}
+                  max={3}
+                  step={0.05}
+                  value={Math.round(role.lineHeight * 100) / 100}
+                  onChange={(event) =>
+                    updateRole(id, {
+                      lineHeight: Math.max(0.6, Number(event.target.value)),
+                    })
+                  }
+                  className={compactFieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={smallLabelClassName}>Spacing</span>
+                <input
+                  type="number"
+                  min={-10}
+                  max={40}
+                  step={0.5}
+                  value={role.letterSpacing}
+                  onChange={(event) =>
+                    updateRole(id, {
+                      letterSpacing: Number(event.target.value),
+                    })
+                  }
+                  className={compactFieldClassName}
+                />
+              </label>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="flex flex-col gap-1.5">
+          <span className={smallLabelClassName}>Align</span>
+          <div className="grid grid-cols-3 gap-1">
+            {ALIGNMENTS.map((align) => (
+              <button
+                type="button"
+                key={align}
+                onClick={() => onChange({ ...typography, align })}
+                className={classNames(
+                  optionClassName,
+                  typography.align === align && "border-white/60 bg-white/10",
+                )}
+              >
+                {align}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <span className={smallLabelClassName}>Anchor</span>
+          <div className="grid grid-cols-3 gap-1">
+            {ANCHORS.map((anchor) => (
+              <button
+                type="button"
+                key={anchor}
+                onClick={() => onChange({ ...typography, anchor })}
+                className={classNames(
+                  optionClassName,
+                  typography.anchor === anchor && "border-white/60 bg-white/10",
+                )}
+              >
+                {anchor}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <span className={smallLabelClassName}>Text Reveal</span>
+        <div className="grid grid-cols-4 gap-1">
+          {TEXT_ANIMATIONS.map((option) => (
+            <button
+              type="button"
+              key={option.id}
+              onClick={() => onChange({ ...typography, animation: option.id })}
+              className={classNames(
+                optionClassName,
+                typography.animation === option.id &&
+                  "border-white/60 bg-white/10",
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { nanoid } from "nanoid";
+
+/** An uploaded file with its bytes inlined as a data URL, for JSON files. */
+export type SerializedAsset<T extends { blob: Blob }> = Omit<T, "blob"> & {
+  data: string;
+};
+
+type AssetBase = { id: string; name: string; type: string; blob: Blob };
+
+/**
+ * Checks a serialized asset from untrusted input. Its bytes must be a data
+ * URL, each `text` field a string and each `sizes` field a positive
+ * number; otherwise it is unusable and this returns null.
+ */
+export function normalizeSerializedAsset<T extends AssetBase>(
+  input: unknown,
+  {
+    text = [],
+    sizes = [],
+  }: {
+    text?: readonly (keyof T & string)[];
+    sizes?: readonly (keyof T & string)[];
+  } = {},
+): SerializedAsset<T> | null {
+  const raw =
+    input && typeof input === "object"
+      ? (input as Record<string, unknown>)
+      : {};
+  if (typeof raw.data !== "string" || !raw.data.startsWith("data:")) {
+    return null;
+  }
+  const asset: Record<string, unknown> = {
+    id: typeof raw.id === "string" ? raw.id : nanoid(),
+    name: typeof raw.name === "string" ? raw.name : "",
+    type:
+      typeof raw.type === "string"
+        ? raw.type
+        : (/^data:([^;,]+)/.exec(raw.data)?.[1] ?? "application/octet-stream"),
+    data: raw.data,
+  };
+  for (const key of text) {
+    if (typeof raw[key] !== "string") return null;
+    asset[key] = raw[key];
+  }
+  for (const key of sizes) {
+    const value = raw[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      return null;
+    }
+    asset[key] = value;
+  }
+  return asset as SerializedAsset<T>;
+}
+
+export async function serializeAsset<T extends { blob: Blob; name: string }>({
+  blob,
+  ...asset
+}: T): Promise<SerializedAsset<T>> {
+  const data = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Unable to read "${asset.name}".`));
+    reader.readAsDataURL(blob);
+  });
+  return { ...asset, data };
+}
+
+export async function deserializeAsset<T extends { blob: Blob }>({
+  data,
+  ...asset
+}: SerializedAsset<T>): Promise<T> {
+  const blob = await (await fetch(data)).blob();
+  return { ...asset, blob } as unknown as T;
+}
+
+/** Saves `blob` through a temporary link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** A file-name-safe version of `value`, e.g. for downloads. */
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,165 @@
+import { type AudioAsset, type AudioPlan, envelopeGainAt } from "@/lib/audio";
+
+const RESYNC_TOLERANCE = 0.2;
+
+type Playback = {
+  startedAt: number;
+  offset: number;
+  rate: number;
+  nodes: AudioScheduledSourceNode[];
+};
+
+/**
+ * Plays an audio plan through Web Audio, following the preview clock. Call
+ * `sync` on every preview tick; playback only restarts when the preview
+ * jumps (restart, loop, seek), changes speed or the plan changes. Off-speed
+ * playback is resampled, so its pitch shifts with the rate.
+ */
+export function createAudioPreview() {
+  let context: AudioContext | null = null;
+  let plan: AudioPlan | null = null;
+  let playback: Playback | null = null;
+  const buffers = new Map<string, AudioBuffer>();
+  const decoding = new Set<string>();
+
+  const ensureContext = () => {
+    context ??= new AudioContext();
+    if (context.state === "suspended") {
+      void context.resume();
+    }
+    return context;
+  };
+
+  const decode = (asset: AudioAsset) => {
+    if (buffers.has(asset.id) || decoding.has(asset.id)) return;
+    decoding.add(asset.id);
+    const audioContext = ensureContext();
+    void asset.blob
+      .arrayBuffer()
+      .then((data) => audioContext.decodeAudioData(data))
+      .then((buffer) => buffers.set(asset.id, buffer))
+      .catch(() => undefined)
+      .finally(() => decoding.delete(asset.id));
+  };
+
+  const stop = () => {
+    if (!playback) return;
+    for (const node of playback.nodes) {
+      try {
+        node.stop();
+      } catch {
+        // already stopped
+      }
+      node.disconnect();
+    }
+    playback = null;
+  };
+
+  const start = (time: number, rate: number) => {
+    if (!plan) return;
+    const assets = [
+      ...(plan.music ? [plan.music.asset] : []),
+      ...plan.voices.map((voice) => voice.asset),
+    ];
+    assets.forEach(decode);
+    if (assets.some((asset) => !buffers.has(asset.id))) return;
+
+    const audioContext = ensureContext();
+    const now = audioContext.currentTime;
+    const remaining = (plan.totalDuration - time) / rate;
+    const nodes: AudioScheduledSourceNode[] = [];
+
+    if (plan.music) {
+      const music = plan.music;
+      const buffer = buffers.get(music.asset.id)!;
+      // Loops replay from `trimStart`, not the head of the file.
+      const into = Math.max(0, time - music.offset);
+      const span = buffer.duration - music.trimStart;
+      const bufferOffset =
+        music.trimStart + (music.loop && span > 0 ? into % span : into);
+
+      if (bufferOffset < buffer.duration) {
+        const source = audioContext.createBufferSource();
+        source.buffer = buffer;
+        source.loop = music.loop;
+        source.loopStart = music.trimStart;
+        source.loopEnd = buffer.duration;
+        source.playbackRate.value = rate;
+
+        const gain = audioContext.createGain();
+        gain.gain.setValueAtTime(envelopeGainAt(music.envelope, time), now);
+        for (const point of music.envelope) {
+          if (point.time > time) {
+            gain.gain.linearRampToValueAtTime(
+              point.gain,
+              now + (point.time - time) / rate,
+            );
+          }
+        }
+
+        source.connect(gain).connect(audioContext.destination);
+        source.start(
+          now + Math.max(0, music.offset - time) / rate,
+          bufferOffset,
+        );
+        source.stop(now + remaining);
+        nodes.push(source);
+      }
+    }
+
+    for (const voice of plan.voices) {
+      const buffer = buffers.get(voice.asset.id)!;
+      const into = Math.max(0, time - voice.start);
+      if (into >= buffer.duration) continue;
+
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = rate;
+      const gain = audioContext.createGain();
+      gain.gain.value = voice.volume;
+      source.connect(gain).connect(audioContext.destination);
+      source.start(now + Math.max(0, voice.start - time) / rate, into);
+      source.stop(now + remaining);
+      nodes.push(source);
+    }
+
+    playback = { startedAt: now, offset: time, rate, nodes };
+  };
+
+  return {
+    setPlan(next: AudioPlan | null) {
+      if (next === plan) return;
+      plan = next;
+      stop();
+    },
+    sync(time: number, playing: boolean, rate = 1) {
+      if (!playing || !plan) {
+        stop();
+        return;
+      }
+
+      if (playback && context) {
+        const expected =
+          playback.offset +
+          (context.currentTime - playback.startedAt) * playback.rate;
+        if (
+          playback.rate === rate &&
+          Math.abs(expected - time) <= RESYNC_TOLERANCE
+        ) {
+          return;
+        }
+        stop();
+      }
+
+      start(time, rate);
+    },
+    dispose() {
+      stop();
+      void context?.close();
+      context = null;
+      buffers.clear();
+    },
+  };
+}
+
+export type AudioPreview = ReturnType<typeof createAudioPreview>;
@@ -0,0 +1,345 @@
+import { nanoid } from "nanoid";
+import { clamp } from "@/lib/easing";
+
+export type AudioAsset = {
+  id: string;
+  name: string;
+  type: string;
+  duration: number;
+  blob: Blob;
+};
+
+/** `A` is the audio asset, which project files hold serialized. */
+export type Soundtrack<A = AudioAsset> = {
+  asset: A;
+  /** Seconds into the video where the bed starts playing. */
+  offset: number;
+  /** Seconds skipped from the head of the file. */
+  trimStart: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  /** Gain multiplier applied to the bed while a voice-over is speaking. */
+  duckVolume: number;
+  loop: boolean;
+};
+
+export type VoiceOver<A = AudioAsset> = {
+  asset: A;
+  /** Seconds after the scene starts. */
+  offset: number;
+  volume: number;
+};
+
+export type EnvelopePoint = { time: number; gain: number };
+
+export type AudioPlan = {
+  totalDuration: number;
+  music: (Soundtrack & { envelope: EnvelopePoint[] }) | null;
+  voices: { asset: AudioAsset; start: number; volume: number }[];
+};
+
+export const DUCK_RAMP = 0.3;
+
+export const DEFAULT_SOUNDTRACK_SETTINGS: Omit<Soundtrack, "asset"> = {
+  offset: 0,
+  trimStart: 0,
+  volume: 0.8,
+  fadeIn: 1,
+  fadeOut: 1.5,
+  duckVolume: 0.35,
+  loop: true,
+};
+
+/**
+ * Rebuilds a soundtrack from untrusted input. `readAsset` checks the audio
+ * in its stored form; without a usable asset there is no soundtrack.
+ */
+export function normalizeSoundtrack<A>(
+  input: unknown,
+  readAsset: (input: unknown) => A | null,
+): Soundtrack<A> | null {
+  const raw = asRecord(input);
+  const asset = readAsset(raw.asset);
+  if (!asset) return null;
+  const defaults = DEFAULT_SOUNDTRACK_SETTINGS;
+  return {
+    asset,
+    offset: asNumber(raw.offset, defaults.offset, 0, Infinity),
+    trimStart: asNumber(raw.trimStart, defaults.trimStart, 0, Infinity),
+    volume: asNumber(raw.volume, defaults.volume, 0, 1),
+    fadeIn: asNumber(raw.fadeIn, defaults.fadeIn, 0, Infinity),
+    fadeOut: asNumber(raw.fadeOut, defaults.fadeOut, 0, Infinity),
+    duckVolume: asNumber(raw.duckVolume, defaults.duckVolume, 0, 1),
+    loop: typeof raw.loop === "boolean" ? raw.loop : defaults.loop,
+  };
+}
+
+/** Like `normalizeSoundtrack`, for a scene's voice-over. */
+export function normalizeVoiceOver<A>(
+  input: unknown,
+  readAsset: (input: unknown) => A | null,
+): VoiceOver<A> | null {
+  const raw = asRecord(input);
+  const asset = readAsset(raw.asset);
+  if (!asset) return null;
+  return {
+    asset,
+    offset: asNumber(raw.offset, 0, 0, Infinity),
+    volume: asNumber(raw.volume, 1, 0, 1),
+  };
+}
+
+export async function loadAudioAsset(file: File): Promise<AudioAsset> {
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext;
+  if (!AudioContextClass) {
+    throw new Error("Web Audio is not available in this browser.");
+  }
+
+  const context = new AudioContextClass();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    return {
+      id: nanoid(),
+      name: file.name,
+      type: file.type || "audio/mpeg",
+      duration: buffer.duration,
+      blob: file,
+    };
+  } catch {
+    throw new Error(`"${file.name}" is not an audio file we can decode.`);
+  } finally {
+    void context.close();
+  }
+}
+
+/**
+ * Resolves the soundtrack and voice-overs against the scene timeline. The
+ * preview engine and the ffmpeg filter graph both consume this plan, so the
+ * fades and ducking land on the same timestamps in either place.
+ */
+export function buildAudioPlan(
+  soundtrack: Soundtrack | null,
+  scenes: { voiceOver?: VoiceOver }[],
+  timings: { start: number }[],
+  totalDuration: number,
+): AudioPlan {
+  const voices = scenes.flatMap((scene, index) => {
+    const timing = timings[index];
+    if (!scene.voiceOver || !timing) return [];
+    const start = timing.start + scene.voiceOver.offset;
+    if (start >= totalDuration) return [];
+    return [
+      {
+        asset: scene.voiceOver.asset,
+        start,
+        volume: scene.voiceOver.volume,
+      },
+    ];
+  });
+
+  if (!soundtrack || soundtrack.offset >= totalDuration) {
+    return { totalDuration, music: null, voices };
+  }
+
+  const windows = voices.map((voice) => ({
+    start: voice.start,
+    end: Math.min(totalDuration, voice.start + voice.asset.duration),
+  }));
+
+  return {
+    totalDuration,
+    music: {
+      ...soundtrack,
+      envelope: buildMusicEnvelope(soundtrack, windows, totalDuration),
+    },
+    voices,
+  };
+}
+
+/**
+ * What a plan plays, by asset ID, timing and gain. Plans with the same key
+ * sound the same, so an edit that leaves it unchanged need not restart
+ * playback.
+ */
+export function audioPlanKey(plan: AudioPlan) {
+  return JSON.stringify({
+    ...plan,
+    music: plan.music && { ...plan.music, asset: plan.music.asset.id },
+    voices: plan.voices.map((voice) => ({ ...voice, asset: voice.asset.id })),
+  });
+}
+
+export function envelopeGainAt(envelope: EnvelopePoint[], time: number) {
+  if (!envelope.length) return 1;
+  if (time <= envelope[0].time) return envelope[0].gain;
+
+  for (let index = 1; index < envelope.length; index += 1) {
+    const next = envelope[index];
+    if (time <= next.time) {
+      const previous = envelope[index - 1];
+      const span = next.time - previous.time;
+      const ratio = span > 0 ? (time - previous.time) / span : 1;
+      return previous.gain + (next.gain - previous.gain) * ratio;
+    }
+  }
+
+  return envelope[envelope.length - 1].gain;
+}
+
+/**
+ * Builds the ffmpeg inputs and filter graph for the audio plan. Input 0 is
+ * expected to be the video frames; audio inputs are numbered after it. The
+ * audio codec is left to the export format.
+ */
+export function buildAudioArgs(
+  plan: AudioPlan,
+  files: { music?: string; voices: string[] },
+) {
+  const inputs: string[] = [];
+  const filters: string[] = [];
+  const labels: string[] = [];
+  let inputIndex = 1;
+
+  if (plan.music && files.music) {
+    const music = plan.music;
+    inputs.push("-i", files.music);
+
+    // Trimmed before looping, so every pass starts at `trimStart` as in
+    // the preview.
+    const loopSamples = Math.ceil(
+      Math.max(0, music.asset.duration - music.trimStart) * 48000,
+    );
+    const loop =
+      music.loop && loopSamples > 0 ? `aloop=loop=-1:size=${loopSamples},` : "";
+    const delay = Math.round(music.offset * 1000);
+    filters.push(
+      `[${inputIndex}:a]aresample=48000,` +
+        `atrim=start=${formatSeconds(music.trimStart)},asetpts=PTS-STARTPTS,` +
+        `${loop}adelay=${delay}:all=1,` +
+        `volume='${envelopeExpression(music.envelope)}':eval=frame[music]`,
+    );
+    labels.push("[music]");
+    inputIndex += 1;
+  }
+
+  plan.voices.forEach((voice, index) => {
+    const file = files.voices[index];
+    if (!file) return;
+    inputs.push("-i", file);
+    const delay = Math.round(voice.start * 1000);
+    filters.push(
+      `[${inputIndex}:a]aresample=48000,volume=${formatSeconds(voice.volume)},` +
+        `adelay=${delay}:all=1[vo${index}]`,
+    );
+    labels.push(`[vo${index}]`);
+    inputIndex += 1;
+  });
+
+  if (!labels.length) {
+    return null;
+  }
+
+  filters.push(
+    `${labels.join("")}amix=inputs=${labels.length}:duration=longest:normalize=0,` +
+      `atrim=0:${formatSeconds(plan.totalDuration)}[aout]`,
+  );
+
+  return {
+    inputs,
+    outputs: [
+      "-filter_complex",
+      filters.join(";"),
+      "-map",
+      "0:v",
+      "-map",
+      "[aout]",
+    ],
+  };
+}
+
+export function audioExtension(asset: AudioAsset) {
+  const fromName = asset.name.match(/\.([a-z0-9]+)$/i)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  return asset.type.split("/")[1]?.replace("mpeg", "mp3") ?? "audio";
+}
+
+function buildMusicEnvelope(
+  soundtrack: Soundtrack,
+  windows: { start: number; end: number }[],
+  totalDuration: number,
+): EnvelopePoint[] {
+  const start = soundtrack.offset;
+  const fadeIn = clamp(soundtrack.fadeIn, 0, totalDuration - start);
+  const fadeOut = clamp(soundtrack.fadeOut, 0, totalDuration - start);
+
+  const gainAt = (time: number) => {
+    const fadeInGain = fadeIn > 0 ? clamp((time - start) / fadeIn, 0, 1) : 1;
+    const fadeOutGain =
+      fadeOut > 0 ? clamp((totalDuration - time) / fadeOut, 0, 1) : 1;
+    const duckAmount = windows.reduce((amount, window) => {
+      const rampIn = (time - (window.start - DUCK_RAMP)) / DUCK_RAMP;
+      const rampOut = (window.end + DUCK_RAMP - time) / DUCK_RAMP;
+      return Math.max(amount, clamp(Math.min(rampIn, rampOut), 0, 1));
+    }, 0);
+    const duckGain = 1 - (1 - soundtrack.duckVolume) * duckAmount;
+    return soundtrack.volume * fadeInGain * fadeOutGain * duckGain;
+  };
+
+  const times = new Set<number>([
+    start,
+    start + fadeIn,
+    totalDuration - fadeOut,
+    totalDuration,
+  ]);
+  for (const window of windows) {
+    times.add(window.start - DUCK_RAMP);
+    times.add(window.start);
+    times.add(window.end);
+    times.add(window.end + DUCK_RAMP);
+  }
+
+  return [...times]
+    .filter((time) => time >= start && time <= totalDuration)
+    .sort((a, b) => a - b)
+    .map((time) => ({ time, gain: gainAt(time) }));
+}
+
+function envelopeExpression(envelope: EnvelopePoint[]): string {
+  if (!envelope.length) return "1";
+
+  const last = envelope[envelope.length - 1];
+  let expression = formatSeconds(last.gain);
+
+  for (let index = envelope.length - 1; index > 0; index -= 1) {
+    const from = envelope[index - 1];
+    const to = envelope[index];
+    const span = to.time - from.time;
+    const segment =
+      span > 0
+        ? `${formatSeconds(from.gain)}+(${formatSeconds(to.gain - from.gain)})*(t-${formatSeconds(from.time)})/${formatSeconds(span)}`
+        : formatSeconds(to.gain);
+    expression = `if(lt(t,${formatSeconds(to.time)}),${segment},${expression})`;
+  }
+
+  return `if(lt(t,${formatSeconds(envelope[0].time)}),${formatSeconds(envelope[0].gain)},${expression})`;
+}
+
+function formatSeconds(value: number) {
+  return Number(value.toFixed(4)).toString();
+}
+
+function asNumber(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? clamp(value, min, max)
+    : fallback;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,417 @@
+import { nanoid } from "nanoid";
+import { GRADIENTS, drawGradient, type GradientSpec } from "@/lib/palette";
+import { clamp } from "@/lib/easing";
+import type { ImageAsset } from "@/lib/layers";
+
+export type GradientType = "linear" | "radial" | "conic";
+
+export type GradientStop = GradientSpec["stops"][number];
+
+/**
+ * A gradient the user created. `angle` is in degrees, clockwise from
+ * left-to-right; radial gradients ignore it and conic ones start there.
+ */
+export type CustomGradient = {
+  id: string;
+  label: string;
+  type: GradientType;
+  angle: number;
+  stops: GradientStop[];
+};
+
+export type AnyGradient = GradientSpec | CustomGradient;
+
+/** Changes over the scene: degrees of hue rotation and stop travel (0–0.5). */
+export type GradientAnimation = {
+  hueShift: number;
+  stopDrift: number;
+};
+
+export type VideoAsset = {
+  id: string;
+  name: string;
+  type: string;
+  width: number;
+  height: number;
+  duration: number;
+  blob: Blob;
+};
+
+export type BackgroundFit = "cover" | "contain";
+
+/**
+ * What the background layer draws. The gradient kind uses the scene's
+ * `gradientId`, which may name a built-in or a project gradient. `I` and
+ * `V` are the media assets, which project files hold serialized.
+ */
+export type SceneBackground<I = ImageAsset, V = VideoAsset> =
+  | { kind: "gradient"; animation: GradientAnimation }
+  | { kind: "solid"; color: string }
+  | { kind: "image"; asset: I; fit: BackgroundFit }
+  | { kind: "video"; asset: V; fit: BackgroundFit };
+
+export type BackgroundKind = SceneBackground["kind"];
+
+export const BACKGROUND_KINDS: { id: BackgroundKind; label: string }[] = [
+  { id: "gradient", label: "Gradient" },
+  { id: "solid", label: "Solid" },
+  { id: "image", label: "Image" },
+  { id: "video", label: "Video" },
+];
+
+export const GRADIENT_TYPES: { id: GradientType; label: string }[] = [
+  { id: "linear", label: "Linear" },
+  { id: "radial", label: "Radial" },
+  { id: "conic", label: "Conic" },
+];
+
+export const DEFAULT_BACKGROUND: SceneBackground = {
+  kind: "gradient",
+  animation: { hueShift: 0, stopDrift: 0 },
+};
+
+export const MIN_GRADIENT_STOPS = 2;
+export const MAX_GRADIENT_STOPS = 8;
+
+const MAX_VIDEO_BYTES = 100 * 1024 * 1024;
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export function cloneBackground(background: SceneBackground): SceneBackground {
+  return background.kind === "gradient"
+    ? { ...background, animation: { ...background.animation } }
+    : { ...background };
+}
+
+export function isBuiltInGradient(id: string) {
+  return GRADIENTS.some((gradient) => gradient.id === id);
+}
+
+/**
+ * Looks a gradient id up in the project's gradients, then the palette. A
+ * deleted project gradient (which undo can bring back into a scene) falls
+ * back to the first built-in one.
+ */
+export function resolveGradient(
+  id: string,
+  custom: CustomGradient[],
+): AnyGradient | undefined {
+  return (
+    custom.find((gradient) => gradient.id === id) ??
+    GRADIENTS.find((gradient) => gradient.id === id) ??
+    GRADIENTS[0]
+  );
+}
+
+/** A new editable gradient, seeded from `base` when given. */
+export function createCustomGradient(base?: AnyGradient): CustomGradient {
+  return {
+    id: nanoid(),
+    label: base ? `${base.label} copy` : "Custom",
+    type: base && "type" in base ? base.type : "linear",
+    angle: base?.angle ?? 135,
+    stops: base
+      ? base.stops.map((stop) => ({ ...stop }))
+      : [
+          { at: 0, color: "#0f172a" },
+          { at: 1, color: "#6366f1" },
+        ],
+  };
+}
+
+/**
+ * Applies the scene's gradient animation at `progress` (0–1). Stops drift
+ * back and forth out of phase with each other, so the bands breathe.
+ */
+export function animateGradient<T extends AnyGradient>(
+  gradient: T,
+  animation: GradientAnimation,
+  progress: number,
+): T {
+  if (!animation.hueShift && !animation.stopDrift) return gradient;
+
+  const count = gradient.stops.length;
+  return {
+    ...gradient,
+    stops: gradient.stops.map((stop, index) => ({
+      ...stop,
+      at: clamp(
+        stop.at +
+          animation.stopDrift *
+            Math.sin(Math.PI * 2 * (progress + index / count)),
+        0,
+        1,
+      ),
+      color: rotateHue(stop.color, animation.hueShift * progress),
+    })),
+  };
+}
+
+/**
+ * Fills the frame with a gradient. Built-in entries go through the palette
+ * so they stay pixel-identical; project gradients support every type.
+ * Swatches call this too, so they match the render exactly.
+ */
+export function drawGradientFill(
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  gradient: AnyGradient,
+) {
+  if (!("type" in gradient) || isBuiltInGradient(gradient.id)) {
+    // The palette helpers only touch the 2D API shared by both context types.
+    drawGradient(context as CanvasRenderingContext2D, width, height, gradient);
+    return;
+  }
+
+  const radians = (gradient.angle * Math.PI) / 180;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  let fill: CanvasGradient;
+  if (gradient.type === "radial") {
+    fill = context.createRadialGradient(
+      centerX,
+      centerY,
+      0,
+      centerX,
+      centerY,
+      Math.hypot(width, height) / 2,
+    );
+  } else if (gradient.type === "conic" && "createConicGradient" in context) {
+    fill = context.createConicGradient(radians, centerX, centerY);
+  } else {
+    // The gradient line spans the frame's projection onto the angle.
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    fill = context.createLinearGradient(
+      centerX - dx * half,
+      centerY - dy * half,
+      centerX + dx * half,
+      centerY + dy * half,
+    );
+  }
+  for (const stop of gradient.stops) {
+    fill.addColorStop(clamp(stop.at, 0, 1), stop.color);
+  }
+  context.fillStyle = fill;
+  context.fillRect(0, 0, width, height);
+}
+
+/**
+ * Rotates the hue of a hex or `rgb()` color. Other formats are returned
+ * unchanged rather than guessed at.
+ */
+export function rotateHue(color: string, degrees: number) {
+  const rgba = parseColor(color);
+  if (!rgba || !degrees) return color;
+
+  const [red, green, blue, alpha] = rgba;
+  const [hue, saturation, lightness] = rgbToHsl(red, green, blue);
+  const [r, g, b] = hslToRgb(
+    (((hue + degrees) % 360) + 360) % 360,
+    saturation,
+    lightness,
+  );
+  if (alpha < 1) {
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  }
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** Validates an uploaded clip and reads its size and length. */
+export async function createVideoAsset(file: File): Promise<VideoAsset> {
+  if (!file.type.startsWith("video/")) {
+    throw new Error(`"${file.name}" is not a video.`);
+  }
+  if (file.size > MAX_VIDEO_BYTES) {
+    throw new Error(`"${file.name}" is larger than 100 MB.`);
+  }
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "metadata";
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject();
+      video.src = url;
+    });
+  } catch {
+    throw new Error(`"${file.name}" is not a video we can decode.`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  if (!video.videoWidth || !Number.isFinite(video.duration)) {
+    throw new Error(`"${file.name}" has no playable video track.`);
+  }
+  return {
+    id: nanoid(),
+    name: file.name,
+    type: file.type,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    duration: video.duration,
+    blob: file,
+  };
+}
+
+/**
+ * Rebuilds a background from untrusted input. `readAsset` checks media
+ * assets in their stored form; a background whose asset fails, like
+ * anything else unreadable, becomes the default gradient.
+ */
+export function normalizeBackground<I, V>(
+  input: unknown,
+  readAsset: {
+    image: (input: unknown) => I | null;
+    video: (input: unknown) => V | null;
+  },
+): SceneBackground<I, V> {
+  const raw = asRecord(input);
+  const fit: BackgroundFit = raw.fit === "contain" ? "contain" : "cover";
+
+  switch (raw.kind) {
+    case "solid":
+      return {
+        kind: "solid",
+        color:
+          typeof raw.color === "string" && HEX_COLOR.test(raw.color)
+            ? raw.color
+            : "#0f172a",
+      };
+    case "image": {
+      const asset = readAsset.image(raw.asset);
+      if (asset) return { kind: "image", asset, fit };
+      break;
+    }
+    case "video": {
+      const asset = readAsset.video(raw.asset);
+      if (asset) return { kind: "video", asset, fit };
+      break;
+    }
+  }
+
+  const animation = asRecord(raw.animation);
+  return {
+    kind: "gradient",
+    animation: {
+      hueShift: asNumber(animation.hueShift, 0, -360, 360),
+      stopDrift: asNumber(animation.stopDrift, 0, 0, 0.5),
+    },
+  };
+}
+
+/** Drops malformed project gradients and repairs what can be repaired. */
+export function normalizeGradients(input: unknown): CustomGradient[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.flatMap((entry): CustomGradient[] => {
+    const raw = asRecord(entry);
+    const stops = (Array.isArray(raw.stops) ? raw.stops : [])
+      .map(asRecord)
+      .filter(
+        (stop) => typeof stop.color === "string" && HEX_COLOR.test(stop.color),
+      )
+      .slice(0, MAX_GRADIENT_STOPS)
+      .map((stop) => ({
+        at: asNumber(stop.at, 0, 0, 1),
+        color: stop.color as string,
+      }));
+    if (typeof raw.id !== "string" || stops.length < MIN_GRADIENT_STOPS) {
+      return [];
+    }
+
+    return [
+      {
+        id: raw.id,
+        label: typeof raw.label === "string" ? raw.label : "Custom",
+        type: GRADIENT_TYPES.some((type) => type.id === raw.type)
+          ? (raw.type as GradientType)
+          : "linear",
+        angle: asNumber(raw.angle, 135, -360, 360),
+        stops,
+      },
+    ];
+  });
+}
+
+function parseColor(color: string): [number, number, number, number] | null {
+  if (HEX_COLOR.test(color)) {
+    const hex =
+      color.length <= 5
+        ? [...color.slice(1)].map((digit) => digit + digit).join("")
+        : color.slice(1);
+    const channel = (index: number) =>
+      parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+    return [
+      channel(0),
+      channel(1),
+      channel(2),
+      hex.length === 8 ? channel(3) / 255 : 1,
+    ];
+  }
+
+  const match = color.match(
+    /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+))?\s*\)$/i,
+  );
+  if (!match) return null;
+  return [
+    Number(match[1]),
+    Number(match[2]),
+    Number(match[3]),
+    match[4] === undefined ? 1 : Number(match[4]),
+  ];
+}
+
+function rgbToHsl(red: number, green: number, blue: number) {
+  const r = red / 255;
+  const g = green / 255;
+  const b = blue / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (!delta) return [0, 0, lightness];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue =
+    max === r
+      ? ((g - b) / delta + 6) % 6
+      : max === g
+        ? (b - r) / delta + 2
+        : (r - g) / delta + 4;
+  return [hue * 60, saturation, lightness];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number) {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] =
+    hue < 60
+      ? [chroma, x, 0]
+      : hue < 120
+        ? [x, chroma, 0]
+        : hue < 180
+          ? [0, chroma, x]
+          : hue < 240
+            ? [0, x, chroma]
+            : hue < 300
+              ? [x, 0, chroma]
+              : [chroma, 0, x];
+  return [r, g, b].map((value) => clamp(Math.round((value + m) * 255), 0, 255));
+}
+
+function asNumber(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? clamp(value, min, max)
+    : fallback;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,317 @@
+import { nanoid } from "nanoid";
+import {
+  deserializeAsset,
+  downloadBlob,
+  normalizeSerializedAsset,
+  serializeAsset,
+  slugify,
+  type SerializedAsset,
+} from "@/lib/assets";
+import {
+  isBuiltInGradient,
+  normalizeGradients,
+  type AnyGradient,
+  type CustomGradient,
+} from "@/lib/backgrounds";
+import { clamp } from "@/lib/easing";
+import type { FontAsset } from "@/lib/fonts";
+import type { ImageAsset } from "@/lib/layers";
+import type { Scene } from "@/lib/scene";
+import { DEFAULT_TYPOGRAPHY } from "@/lib/typography";
+
+export const BRAND_KIT_FORMAT = "agentic-motion-brand-kit";
+export const BRAND_KIT_VERSION = 1;
+
+export type BrandColor = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type WatermarkPosition =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+/**
+ * Logo placement. `size` is the logo width as a share of the frame width;
+ * `margin` is in pixels of the 1280×720 reference frame.
+ */
+export type Watermark = {
+  enabled: boolean;
+  position: WatermarkPosition;
+  size: number;
+  opacity: number;
+  margin: number;
+};
+
+export type BrandKit = {
+  id: string;
+  name: string;
+  colors: BrandColor[];
+  /** Ids of the colors "apply to all scenes" uses for text and accent. */
+  roles: { text: string; accent: string };
+  /** Copied in full so custom gradients travel with the kit. */
+  gradient: AnyGradient | null;
+  fonts: { title: string; body: string };
+  /** Uploaded files behind the font pair, if any. */
+  fontAssets: FontAsset[];
+  logo: ImageAsset | null;
+  watermark: Watermark;
+};
+
+export type SerializedBrandKit = Omit<BrandKit, "fontAssets" | "logo"> & {
+  fontAssets: SerializedAsset<FontAsset>[];
+  logo: SerializedAsset<ImageAsset> | null;
+};
+
+export type BrandKitDocument = SerializedBrandKit & {
+  format: typeof BRAND_KIT_FORMAT;
+  version: number;
+};
+
+/** What the renderer needs to stamp the logo on every frame. */
+export type ResolvedWatermark = Omit<Watermark, "enabled"> & {
+  logo: ImageAsset;
+};
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: "top-left", label: "Top Left" },
+  { id: "top-right", label: "Top Right" },
+  { id: "bottom-left", label: "Bottom Left" },
+  { id: "bottom-right", label: "Bottom Right" },
+];
+
+export const MAX_BRAND_COLORS = 12;
+
+const DEFAULT_WATERMARK: Watermark = {
+  enabled: true,
+  position: "bottom-right",
+  size: 0.12,
+  opacity: 0.85,
+  margin: 32,
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** A new kit, seeded with `scene`'s colors and fonts when given. */
+export function createBrandKit(name = "New brand", scene?: Scene): BrandKit {
+  const colors = [
+    { id: nanoid(), name: "Ink", color: scene?.textColor ?? "#f8fafc" },
+    { id: nanoid(), name: "Highlight", color: scene?.accent ?? "#facc15" },
+  ];
+  const typography = scene?.typography ?? DEFAULT_TYPOGRAPHY;
+  return {
+    id: nanoid(),
+    name,
+    colors,
+    roles: { text: colors[0].id, accent: colors[1].id },
+    gradient: null,
+    fonts: {
+      title: typography.title.family,
+      body: typography.body.family,
+    },
+    fontAssets: [],
+    logo: null,
+    watermark: { ...DEFAULT_WATERMARK },
+  };
+}
+
+export function brandColor(kit: BrandKit, id: string) {
+  return kit.colors.find((color) => color.id === id)?.color;
+}
+
+/**
+ * Restyles a scene with the kit's text and accent colors, font pair and
+ * gradient. Text layers take the body font and text color, shapes the
+ * accent. Scenes with a solid, image or video background keep it.
+ */
+export function applyBrandKit(scene: Scene, kit: BrandKit): Scene {
+  const textColor = brandColor(kit, kit.roles.text);
+  const accent = brandColor(kit, kit.roles.accent);
+  return {
+    ...scene,
+    textColor: textColor ?? scene.textColor,
+    accent: accent ?? scene.accent,
+    layers: scene.layers.map((layer) =>
+      layer.kind === "text"
+        ? {
+            ...layer,
+            family: kit.fonts.body,
+            color: textColor ?? layer.color,
+          }
+        : layer.kind === "shape"
+          ? { ...layer, color: accent ?? layer.color }
+          : layer,
+    ),
+    typography: {
+      ...scene.typography,
+      title: { ...scene.typography.title, family: kit.fonts.title },
+      body: { ...scene.typography.body, family: kit.fonts.body },
+    },
+    ...(kit.gradient &&
+      scene.background.kind === "gradient" && {
+        gradientId: kit.gradient.id,
+      }),
+  };
+}
+
+/** The kit's gradient when it has to be added to the project's gradients. */
+export function brandGradient(kit: BrandKit): CustomGradient | null {
+  return kit.gradient &&
+    "type" in kit.gradient &&
+    !isBuiltInGradient(kit.gradient.id)
+    ? kit.gradient
+    : null;
+}
+
+export function resolveWatermark(
+  kit: BrandKit | null,
+): ResolvedWatermark | null {
+  if (!kit?.logo || !kit.watermark.enabled) return null;
+  const { position, size, opacity, margin } = kit.watermark;
+  return { position, size, opacity, margin, logo: kit.logo };
+}
+
+export async function serializeBrandKit(
+  kit: BrandKit,
+): Promise<SerializedBrandKit> {
+  return {
+    ...kit,
+    fontAssets: await Promise.all(kit.fontAssets.map(serializeAsset)),
+    logo: kit.logo ? await serializeAsset(kit.logo) : null,
+  };
+}
+
+export async function deserializeBrandKit(
+  input: SerializedBrandKit,
+): Promise<BrandKit> {
+  return {
+    ...input,
+    fontAssets: await Promise.all(
+      input.fontAssets.map((font) => deserializeAsset<FontAsset>(font)),
+    ),
+    logo: input.logo ? await deserializeAsset<ImageAsset>(input.logo) : null,
+  };
+}
+
+/**
+ * Rebuilds a serialized kit from untrusted input, e.g. an imported file or
+ * a project document. Throws when the input is not a kit at all.
+ */
+export function normalizeBrandKit(input: unknown): SerializedBrandKit {
+  const raw = asRecord(input);
+  if (typeof raw.name !== "string" || !Array.isArray(raw.colors)) {
+    throw new Error("This file is not a brand kit.");
+  }
+
+  const colors = raw.colors
+    .map(asRecord)
+    .filter(
+      (color) => typeof color.color === "string" && HEX_COLOR.test(color.color),
+    )
+    .slice(0, MAX_BRAND_COLORS)
+    .map((color) => ({
+      id: typeof color.id === "string" ? color.id : nanoid(),
+      name: typeof color.name === "string" ? color.name : "Color",
+      color: color.color as string,
+    }));
+  const roles = asRecord(raw.roles);
+  const pickRole = (value: unknown, fallback: number) =>
+    colors.find((color) => color.id === value)?.id ??
+    colors[Math.min(fallback, colors.length - 1)]?.id ??
+    "";
+  const fonts = asRecord(raw.fonts);
+  const watermark = asRecord(raw.watermark);
+  const gradient = asRecord(raw.gradient);
+  const number = (
+    value: unknown,
+    fallback: number,
+    min: number,
+    max: number,
+  ) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? clamp(value, min, max)
+      : fallback;
+
+  return {
+    id: typeof raw.id === "string" ? raw.id : nanoid(),
+    name: raw.name,
+    colors,
+    roles: { text: pickRole(roles.text, 0), accent: pickRole(roles.accent, 1) },
+    gradient:
+      typeof gradient.id !== "string"
+        ? null
+        : isBuiltInGradient(gradient.id)
+          ? (gradient as AnyGradient)
+          : (normalizeGradients([gradient])[0] ?? null),
+    fonts: {
+      title:
+        typeof fonts.title === "string"
+          ? fonts.title
+          : DEFAULT_TYPOGRAPHY.title.family,
+      body:
+        typeof fonts.body === "string"
+          ? fonts.body
+          : DEFAULT_TYPOGRAPHY.body.family,
+    },
+    fontAssets: (Array.isArray(raw.fontAssets) ? raw.fontAssets : []).flatMap(
+      (entry) => {
+        const font = normalizeSerializedAsset<FontAsset>(entry, {
+          text: ["family"],
+        });
+        return font ? [font] : [];
+      },
+    ),
+    logo: normalizeSerializedAsset<ImageAsset>(raw.logo, {
+      sizes: ["width", "height"],
+    }),
+    watermark: {
+      enabled: watermark.enabled !== false,
+      position: WATERMARK_POSITIONS.some(
+        (option) => option.id === watermark.position,
+      )
+        ? (watermark.position as WatermarkPosition)
+        : DEFAULT_WATERMARK.position,
+      size: number(watermark.size, DEFAULT_WATERMARK.size, 0.02, 0.5),
+      opacity: number(watermark.opacity, DEFAULT_WATERMARK.opacity, 0, 1),
+      margin: number(watermark.margin, DEFAULT_WATERMARK.margin, 0, 200),
+    },
+  };
+}
+
+export async function readBrandKitFile(file: File): Promise<BrandKit> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not valid JSON.`);
+  }
+
+  const raw = asRecord(parsed);
+  if (raw.format !== BRAND_KIT_FORMAT) {
+    throw new Error(`"${file.name}" is not a brand kit.`);
+  }
+  if (typeof raw.version === "number" && raw.version > BRAND_KIT_VERSION) {
+    throw new Error(
+      `This brand kit was saved by a newer version (v${raw.version}). Update the app to open it.`,
+    );
+  }
+  return deserializeBrandKit(normalizeBrandKit(raw));
+}
+
+export async function downloadBrandKitFile(kit: BrandKit) {
+  const document: BrandKitDocument = {
+    format: BRAND_KIT_FORMAT,
+    version: BRAND_KIT_VERSION,
+    ...(await serializeBrandKit(kit)),
+  };
+  const blob = new Blob([JSON.stringify(document, null, 2)], {
+    type: "application/json",
+  });
+  downloadBlob(blob, `${slugify(kit.name) || "brand"}.brand.json`);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
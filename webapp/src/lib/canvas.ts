@@ -0,0 +1,109 @@
+export type RenderContext =
+  CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** A decoded image the renderer can draw synchronously. */
+export type DrawableImage = CanvasImageSource & {
+  width: number;
+  height: number;
+};
+
+/** Still image types canvases can be encoded to. */
+export type ImageType = "image/png" | "image/jpeg" | "image/webp";
+
+/**
+ * Everything the renderer needs from its environment. The browser backend
+ * is the default; the CLI swaps in one backed by a Node canvas library so
+ * the same drawing code renders headlessly.
+ */
+export type CanvasBackend = {
+  createContext: (
+    width: number,
+    height: number,
+    settings?: CanvasRenderingContext2DSettings,
+  ) => RenderContext | null;
+  /** `quality` (0–1) only applies to the lossy types. */
+  encodeImage: (
+    canvas: RenderCanvas,
+    type: ImageType,
+    quality?: number,
+  ) => Promise<ArrayBuffer>;
+  decodeImage: (blob: Blob) => Promise<DrawableImage>;
+};
+
+export function supportsOffscreenCanvas() {
+  if (typeof OffscreenCanvas === "undefined") return false;
+  try {
+    return Boolean(new OffscreenCanvas(1, 1).getContext("2d"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Uses an OffscreenCanvas where available (always the case inside the
+ * render worker) and a detached DOM canvas otherwise.
+ */
+export const browserCanvasBackend: CanvasBackend = {
+  createContext: (width, height, settings) =>
+    supportsOffscreenCanvas()
+      ? new OffscreenCanvas(width, height).getContext("2d", settings)
+      : createDomCanvas(width, height).getContext("2d", settings),
+  encodeImage: async (canvas, type, quality) => {
+    if ("convertToBlob" in canvas) {
+      return (await canvas.convertToBlob({ type, quality })).arrayBuffer();
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, type, quality),
+    );
+    // Browsers fall back to PNG for types they cannot write.
+    if (!blob || blob.type !== type) {
+      throw new Error(`Unable to encode frame as ${type}.`);
+    }
+    return blob.arrayBuffer();
+  },
+  decodeImage: (blob) => createImageBitmap(blob),
+};
+
+let backend = browserCanvasBackend;
+
+export function setCanvasBackend(next: CanvasBackend) {
+  backend = next;
+}
+
+export function getCanvasBackend() {
+  return backend;
+}
+
+export function createRenderContext(
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings,
+): RenderContext {
+  const context = backend.createContext(width, height, settings);
+  if (!context) {
+    throw new Error("Unable to access 2D context for rendering.");
+  }
+  return context;
+}
+
+export function canvasToPng(canvas: RenderCanvas) {
+  return backend.encodeImage(canvas, "image/png");
+}
+
+export function canvasToImage(
+  canvas: RenderCanvas,
+  type: ImageType,
+  quality?: number,
+) {
+  return backend.encodeImage(canvas, type, quality);
+}
+
+function createDomCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
@@ -0,0 +1,257 @@
+import { nanoid } from "nanoid";
+import { clamp } from "@/lib/easing";
+import type { Scene } from "@/lib/scene";
+import type { SceneTiming } from "@/lib/transitions";
+import { stripEmphasis } from "@/lib/typography";
+
+/** A caption within a scene; times are seconds from the scene's start. */
+export type CaptionCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+/** A cue placed on the composition timeline. */
+export type TimedCaption = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionPosition = "bottom" | "top";
+
+/**
+ * How captions leave the app besides sidecar files. `size` is in pixels of
+ * the 1280×720 reference frame; the bar is `background` at `opacity`.
+ */
+export type CaptionSettings = {
+  burnIn: boolean;
+  embed: boolean;
+  size: number;
+  color: string;
+  background: string;
+  opacity: number;
+  position: CaptionPosition;
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  burnIn: false,
+  embed: false,
+  size: 30,
+  color: "#ffffff",
+  background: "#020617",
+  opacity: 0.7,
+  position: "bottom",
+};
+
+/** Broadcast guidelines: two lines of at most 42 characters. */
+export const MAX_LINE_LENGTH = 42;
+export const MAX_CUE_LENGTH = MAX_LINE_LENGTH * 2;
+
+/** Shortest time a seeded cue stays up when the scene allows it. */
+const MIN_CUE_DURATION = 1;
+/** Cues shorter than this after clipping are dropped from the track. */
+const MIN_TRACK_CUE = 0.05;
+
+/**
+ * Splits text into cue-sized chunks: one per sentence or bullet, with long
+ * sentences broken into evenly sized runs of words.
+ */
+export function splitCaptionText(text: string): string[] {
+  const sentences = stripEmphasis(text)
+    .split(/\n+|(?<=[.!?…])\s+/)
+    .map((sentence) => sentence.replace(/^[•\-*]\s*/, "").trim())
+    .filter(Boolean);
+
+  return sentences.flatMap((sentence) => {
+    if (sentence.length <= MAX_CUE_LENGTH) return [sentence];
+    const words = sentence.split(/\s+/);
+    const target =
+      sentence.length / Math.ceil(sentence.length / MAX_CUE_LENGTH);
+    const chunks: string[] = [];
+    let current = "";
+    for (const word of words) {
+      const next = current ? `${current} ${word}` : word;
+      if (
+        current &&
+        (next.length > MAX_CUE_LENGTH || current.length >= target)
+      ) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = next;
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+  });
+}
+
+/**
+ * Cues for the scene's description, spread over the scene in proportion to
+ * how long each chunk takes to read.
+ */
+export function seedSceneCaptions(scene: Scene): CaptionCue[] {
+  const chunks = splitCaptionText(scene.description);
+  if (!chunks.length) return [];
+
+  const characters = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const floor = Math.min(MIN_CUE_DURATION, scene.duration / chunks.length);
+  const spare = scene.duration - floor * chunks.length;
+  let cursor = 0;
+  return chunks.map((text, index) => {
+    const start = cursor;
+    cursor =
+      index === chunks.length - 1
+        ? scene.duration
+        : cursor + floor + (spare * text.length) / characters;
+    return {
+      id: nanoid(),
+      start: roundTime(start),
+      end: roundTime(cursor),
+      text,
+    };
+  });
+}
+
+/** The scene's authored cues, or ones seeded from its description. */
+export function resolveSceneCaptions(scene: Scene) {
+  return scene.captions ?? seedSceneCaptions(scene);
+}
+
+/**
+ * Places every scene's cues on the timeline. A scene's cues end when the
+ * next scene starts, so transitions never show two captions at once.
+ */
+export function buildCaptionTrack(
+  scenes: Scene[],
+  timings: SceneTiming[],
+): TimedCaption[] {
+  return scenes.flatMap((scene, index) => {
+    const timing = timings[index];
+    if (!timing) return [];
+    const limit = Math.min(timing.end, timings[index + 1]?.start ?? Infinity);
+    const cues = [...resolveSceneCaptions(scene)].sort(
+      (a, b) => a.start - b.start,
+    );
+    return cues.flatMap((cue) => {
+      const start = timing.start + clamp(cue.start, 0, scene.duration);
+      const end = Math.min(timing.start + cue.end, limit);
+      const text = cue.text.trim();
+      return text && end - start >= MIN_TRACK_CUE
+        ? [{ start: roundTime(start), end: roundTime(end), text }]
+        : [];
+    });
+  });
+}
+
+/** The cue showing at `time`, if any. */
+export function captionAt(track: TimedCaption[], time: number) {
+  return track.find((cue) => time >= cue.start && time < cue.end);
+}
+
+/**
+ * Breaks a cue into at most two balanced lines for sidecar files. Text that
+ * already has line breaks is kept as written.
+ */
+export function breakCaptionLines(text: string) {
+  if (text.includes("\n") || text.length <= MAX_LINE_LENGTH) return text;
+  const middle = text.length / 2;
+  let best = -1;
+  for (
+    let index = text.indexOf(" ");
+    index >= 0;
+    index = text.indexOf(" ", index + 1)
+  ) {
+    if (best < 0 || Math.abs(index - middle) < Math.abs(best - middle)) {
+      best = index;
+    }
+  }
+  return best < 0 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+}
+
+export function formatSrt(track: TimedCaption[]) {
+  return track
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${breakCaptionLines(cue.text)}\n`,
+    )
+    .join("\n");
+}
+
+export function formatWebVtt(track: TimedCaption[]) {
+  return [
+    "WEBVTT\n",
+    ...track.map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${breakCaptionLines(cue.text)}\n`,
+    ),
+  ].join("\n");
+}
+
+/**
+ * ffmpeg arguments that mux an SRT file as a soft subtitle stream. Input 0
+ * is the video and the subtitle file follows any audio inputs; once audio
+ * maps streams explicitly, the video has to be mapped too.
+ */
+export function buildCaptionArgs(
+  file: string,
+  codec: string,
+  audio: { inputs: string[] } | null,
+) {
+  const inputIndex =
+    1 + (audio?.inputs.filter((arg) => arg === "-i").length ?? 0);
+  return {
+    inputs: ["-i", file],
+    outputs: [
+      ...(audio ? [] : ["-map", "0:v"]),
+      "-map",
+      `${inputIndex}:s`,
+      "-c:s",
+      codec,
+      "-metadata:s:s:0",
+      "title=Captions",
+    ],
+  };
+}
+
+export function normalizeCaptionCues(input: unknown): CaptionCue[] {
+  if (!Array.isArray(input)) return [];
+  return input.flatMap((entry) => {
+    const cue = (entry && typeof entry === "object" ? entry : {}) as Partial<
+      Record<keyof CaptionCue, unknown>
+    >;
+    if (
+      typeof cue.text !== "string" ||
+      typeof cue.start !== "number" ||
+      typeof cue.end !== "number" ||
+      !(cue.end > cue.start)
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: typeof cue.id === "string" ? cue.id : nanoid(),
+        start: Math.max(0, cue.start),
+        end: cue.end,
+        text: cue.text,
+      },
+    ];
+  });
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const total = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return (
+    `${pad(Math.floor(total / 3_600_000))}:` +
+    `${pad(Math.floor(total / 60_000) % 60)}:` +
+    `${pad(Math.floor(total / 1000) % 60)}${separator}${pad(total % 1000, 3)}`
+  );
+}
+
+function roundTime(seconds: number) {
+  return Math.round(seconds * 1000) / 1000;
+}
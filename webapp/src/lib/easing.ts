@@ -0,0 +1,17 @@
+export function easeInOut(value: number) {
+  return value < 0.5
+    ? 4 * value * value * value
+    : 1 - Math.pow(-2 * value + 2, 3) / 2;
+}
+
+export function easeOut(value: number) {
+  return 1 - Math.pow(1 - value, 3);
+}
+
+export function easeIn(value: number) {
+  return value * value;
+}
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
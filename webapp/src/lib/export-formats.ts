@@ -0,0 +1,307 @@
+import { DEFAULT_CAPTION_SETTINGS, type CaptionSettings } from "@/lib/captions";
+
+export type ExportFormat = "mp4" | "webm" | "gif" | "png-zip" | "mov";
+
+export type ExportSettings = {
+  format: ExportFormat;
+  mp4: { crf: number; preset: X264Preset; bitrate: number };
+  webm: { crf: number; bitrate: number; speed: number; alpha: boolean };
+  gif: { colors: number; dither: GifDither; scale: number };
+  mov: { profile: ProResProfile };
+  captions: CaptionSettings;
+};
+
+export type X264Preset = (typeof X264_PRESETS)[number];
+export type GifDither = (typeof GIF_DITHERS)[number];
+export type ProResProfile = 0 | 1 | 2 | 3 | 4;
+
+type FormatSpec = {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  supportsAudio: boolean;
+  /** ffmpeg codec for an embedded subtitle track, if the container has one. */
+  subtitleCodec: string | null;
+  /**
+   * Whether separately encoded segments join losslessly with ffmpeg's
+   * concat demuxer, which lets unchanged scenes come from the render cache.
+   */
+  segmentable: boolean;
+  /** Whether the stream is produced by ffmpeg or assembled in JS. */
+  encoder: "ffmpeg" | "zip";
+};
+
+export const EXPORT_FORMATS: FormatSpec[] = [
+  {
+    id: "mp4",
+    label: "MP4",
+    description: "H.264 for the web and social platforms",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    supportsAudio: true,
+    subtitleCodec: "mov_text",
+    segmentable: true,
+    encoder: "ffmpeg",
+  },
+  {
+    id: "webm",
+    label: "WebM",
+    description: "VP9, optionally with an alpha channel",
+    extension: "webm",
+    mimeType: "video/webm",
+    supportsAudio: true,
+    subtitleCodec: "webvtt",
+    segmentable: true,
+    encoder: "ffmpeg",
+  },
+  {
+    id: "gif",
+    label: "GIF",
+    description: "Palette-optimized loop, no audio",
+    extension: "gif",
+    mimeType: "image/gif",
+    supportsAudio: false,
+    subtitleCodec: null,
+    segmentable: false,
+    encoder: "ffmpeg",
+  },
+  {
+    id: "png-zip",
+    label: "PNG Frames",
+    description: "ZIP of numbered PNGs for compositors",
+    extension: "zip",
+    mimeType: "application/zip",
+    supportsAudio: false,
+    subtitleCodec: null,
+    segmentable: false,
+    encoder: "zip",
+  },
+  {
+    id: "mov",
+    label: "ProRes MOV",
+    description: "Intra-frame master for editors",
+    extension: "mov",
+    mimeType: "video/quicktime",
+    supportsAudio: true,
+    subtitleCodec: "mov_text",
+    segmentable: true,
+    encoder: "ffmpeg",
+  },
+];
+
+export const X264_PRESETS = [
+  "ultrafast",
+  "veryfast",
+  "fast",
+  "medium",
+  "slow",
+] as const;
+
+export const GIF_DITHERS = [
+  "sierra2_4a",
+  "bayer",
+  "floyd_steinberg",
+  "none",
+] as const;
+
+export const PRORES_PROFILES: { id: ProResProfile; label: string }[] = [
+  { id: 0, label: "Proxy" },
+  { id: 1, label: "LT" },
+  { id: 2, label: "Standard" },
+  { id: 3, label: "HQ" },
+  { id: 4, label: "4444 + Alpha" },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "mp4",
+  mp4: { crf: 20, preset: "medium", bitrate: 0 },
+  webm: { crf: 32, bitrate: 0, speed: 4, alpha: false },
+  gif: { colors: 256, dither: "sierra2_4a", scale: 1 },
+  mov: { profile: 3 },
+  captions: DEFAULT_CAPTION_SETTINGS,
+};
+
+export function getExportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find((spec) => spec.id === format) ?? EXPORT_FORMATS[0];
+}
+
+/** Whether frames should be drawn without the gradient background. */
+export function exportHasAlpha(settings: ExportSettings) {
+  return (
+    (settings.format === "webm" && settings.webm.alpha) ||
+    (settings.format === "mov" && settings.mov.profile === 4)
+  );
+}
+
+export function exportFilename(settings: ExportSettings, basename: string) {
+  return `${basename}.${getExportFormat(settings.format).extension}`;
+}
+
+/**
+ * Encoder arguments for everything after the inputs. `hasAudio` tells the
+ * format whether an `[aout]` stream was mapped by the audio filter graph;
+ * `prefix` namespaces the output file inside ffmpeg's filesystem.
+ */
+export function buildEncodeArgs(
+  settings: ExportSettings,
+  hasAudio: boolean,
+  prefix = "",
+) {
+  const output = `${prefix}output.${getExportFormat(settings.format).extension}`;
+
+  switch (settings.format) {
+    case "webm": {
+      const { crf, bitrate, speed, alpha } = settings.webm;
+      return {
+        output,
+        args: [
+          "-c:v",
+          "libvpx-vp9",
+          "-crf",
+          String(crf),
+          "-b:v",
+          bitrate > 0 ? `${bitrate}k` : "0",
+          "-deadline",
+          speed >= 5 ? "realtime" : "good",
+          "-cpu-used",
+          String(speed),
+          "-row-mt",
+          "1",
+          "-pix_fmt",
+          alpha ? "yuva420p" : "yuv420p",
+          ...(hasAudio ? audioCodecArgs("webm") : []),
+          output,
+        ],
+      };
+    }
+    case "gif": {
+      const { colors, dither, scale } = settings.gif;
+      const resize = scale < 1 ? `scale=iw*${scale}:-2:flags=lanczos,` : "";
+      return {
+        output,
+        args: [
+          "-filter_complex",
+          `[0:v]${resize}split[frames][source];` +
+            `[source]palettegen=max_colors=${colors}:stats_mode=diff[palette];` +
+            `[frames][palette]paletteuse=dither=${dither}:diff_mode=rectangle`,
+          "-loop",
+          "0",
+          output,
+        ],
+      };
+    }
+    case "mov": {
+      const { profile } = settings.mov;
+      return {
+        output,
+        args: [
+          "-c:v",
+          "prores_ks",
+          "-profile:v",
+          String(profile),
+          "-vendor",
+          "apl0",
+          "-pix_fmt",
+          profile === 4 ? "yuva444p10le" : "yuv422p10le",
+          ...(hasAudio ? audioCodecArgs("mov") : []),
+          output,
+        ],
+      };
+    }
+    case "png-zip":
+      throw new Error("PNG sequences are packaged without ffmpeg.");
+    case "mp4":
+    default: {
+      const { crf, preset, bitrate } = settings.mp4;
+      return {
+        output,
+        args: [
+          "-c:v",
+          "libx264",
+          "-preset",
+          preset,
+          ...(bitrate > 0
+            ? [
+                "-b:v",
+                `${bitrate}k`,
+                "-maxrate",
+                `${bitrate}k`,
+                "-bufsize",
+                `${bitrate * 2}k`,
+              ]
+            : ["-crf", String(crf)]),
+          "-pix_fmt",
+          "yuv420p",
+          "-movflags",
+          "+faststart",
+          ...(hasAudio ? audioCodecArgs("mp4") : []),
+          output,
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Arguments that join already encoded segments into the final file. The
+ * video is copied as is; only the audio mix is encoded.
+ */
+export function buildCopyArgs(
+  settings: ExportSettings,
+  hasAudio: boolean,
+  prefix = "",
+) {
+  const format = getExportFormat(settings.format);
+  if (!format.segmentable) {
+    throw new Error(`${format.label} segments cannot be joined.`);
+  }
+  const output = `${prefix}output.${format.extension}`;
+  return {
+    output,
+    args: [
+      "-c:v",
+      "copy",
+      ...(settings.format === "mp4" ? ["-movflags", "+faststart"] : []),
+      ...(hasAudio ? audioCodecArgs(settings.format) : []),
+      output,
+    ],
+  };
+}
+
+function audioCodecArgs(format: ExportFormat) {
+  switch (format) {
+    case "webm":
+      return ["-c:a", "libopus", "-b:a", "160k"];
+    case "mov":
+      return ["-c:a", "pcm_s16le"];
+    default:
+      return ["-c:a", "aac", "-b:a", "192k"];
+  }
+}
+
+export function normalizeExportSettings(input: unknown): ExportSettings {
+  const value = (input && typeof input === "object" ? input : {}) as Partial<
+    Record<keyof ExportSettings, unknown>
+  >;
+  const merge = <K extends Exclude<keyof ExportSettings, "format">>(
+    key: K,
+  ) => ({
+    ...DEFAULT_EXPORT_SETTINGS[key],
+    ...(value[key] && typeof value[key] === "object"
+      ? (value[key] as Partial<ExportSettings[K]>)
+      : {}),
+  });
+
+  return {
+    format: EXPORT_FORMATS.some((spec) => spec.id === value.format)
+      ? (value.format as ExportFormat)
+      : DEFAULT_EXPORT_SETTINGS.format,
+    mp4: merge("mp4"),
+    webm: merge("webm"),
+    gif: merge("gif"),
+    mov: merge("mov"),
+    captions: merge("captions"),
+  };
+}
@@ -0,0 +1,646 @@
+import { nanoid } from "nanoid";
+import { getFFmpeg } from "@/lib/ffmpeg";
+import {
+  audioExtension,
+  buildAudioArgs,
+  buildAudioPlan,
+  type AudioAsset,
+  type AudioPlan,
+  type Soundtrack,
+} from "@/lib/audio";
+import type { CustomGradient } from "@/lib/backgrounds";
+import type { ResolvedWatermark } from "@/lib/brand";
+import { buildCaptionArgs, buildCaptionTrack, formatSrt } from "@/lib/captions";
+import { supportsOffscreenCanvas } from "@/lib/canvas";
+import { clamp } from "@/lib/easing";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  buildCopyArgs,
+  buildEncodeArgs,
+  exportHasAlpha,
+  getExportFormat,
+  type ExportSettings,
+} from "@/lib/export-formats";
+import { countFrames } from "@/lib/transport";
+import {
+  collectDocumentFonts,
+  collectFontAliases,
+  type FontAsset,
+} from "@/lib/fonts";
+import { usesVideoBackgrounds } from "@/lib/media";
+import { createMp4 } from "@/lib/mp4";
+import {
+  DEFAULT_OUTPUT,
+  normalizeOutput,
+  type OutputProfile,
+} from "@/lib/output";
+import { loadRenderSegment, saveRenderSegment } from "@/lib/project-store";
+import {
+  RENDER_CACHE_LIMIT,
+  planRenderSegments,
+  supportsRenderCache,
+  type RenderSegment,
+} from "@/lib/render-cache";
+import {
+  createFrameRenderer,
+  type FrameJob,
+  type FrameRange,
+} from "@/lib/renderer";
+import type { Scene } from "@/lib/scene";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+} from "@/lib/transitions";
+import {
+  chooseEncoder,
+  createTrackEncoder,
+  type EncodedTrack,
+  type EncoderChoice,
+} from "@/lib/webcodecs";
+import { createWebm } from "@/lib/webm";
+import { createZip, type ZipEntry } from "@/lib/zip";
+import type {
+  RenderWorkerMessage,
+  RenderWorkerRequest,
+} from "@/workers/render.worker";
+
+export type Stage = "loading" | "frames" | "muxing";
+
+export type RenderStats = {
+  /** Frames rendered per second of wall-clock time. */
+  fps: number;
+  /** Seconds until all frames are rendered. */
+  eta: number;
+};
+
+type FFmpegInstance = Awaited<ReturnType<typeof getFFmpeg>>;
+
+type FrameSource = {
+  next: () => Promise<ArrayBuffer>;
+  dispose: () => void;
+};
+
+export async function synthesizeVideo(
+  scenes: Scene[],
+  options: {
+    soundtrack?: Soundtrack | null;
+    output?: OutputProfile;
+    exportSettings?: ExportSettings;
+    fonts?: FontAsset[];
+    gradients?: CustomGradient[];
+    watermark?: ResolvedWatermark | null;
+    signal?: AbortSignal;
+    onStage?: (stage: Stage, progress: number, stats?: RenderStats) => void;
+    /** How many scene segments the render cache supplied, out of all. */
+    onSegments?: (reused: number, total: number) => void;
+    /** Which encoder the render settled on, before any frame is drawn. */
+    onEncoder?: (encoder: EncoderChoice) => void;
+    /**
+     * The render cache writes, which outlive the export; settles once
+     * every new segment is stored or skipped.
+     */
+    onCacheWrites?: (pending: Promise<void>) => void;
+  } = {},
+) {
+  if (!scenes.length) {
+    throw new Error("Add at least one scene before rendering.");
+  }
+
+  const { signal } = options;
+  const onStage = options.onStage ?? (() => undefined);
+  const exportSettings = options.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+  const format = getExportFormat(exportSettings.format);
+  const { fps, width, height } = normalizeOutput(
+    options.output ?? DEFAULT_OUTPUT,
+  );
+  const encoder = await chooseEncoder(exportSettings, { width, height, fps });
+  options.onEncoder?.(encoder);
+  const ffmpeg = encoder.kind === "ffmpeg" ? await loadEncoder(onStage) : null;
+  if (!ffmpeg) onStage("loading", 1);
+  signal?.throwIfAborted();
+
+  const timings = computeSceneTimings(scenes);
+  const totalDuration = totalDurationForTimings(timings);
+  const totalFrames = countFrames(totalDuration, fps);
+  const captions = exportSettings.captions;
+  const captionTrack =
+    captions.burnIn || captions.embed ? buildCaptionTrack(scenes, timings) : [];
+  const job: FrameJob = {
+    scenes,
+    width,
+    height,
+    fps,
+    transparent: exportHasAlpha(exportSettings),
+    encoding: encoder.kind === "zip" ? "png" : "rgba",
+    fonts: options.fonts ?? [],
+    gradients: options.gradients ?? [],
+    watermark: options.watermark ?? null,
+    captions: captions.burnIn
+      ? { track: captionTrack, settings: captions }
+      : null,
+  };
+  const segments =
+    ffmpeg && format.segmentable && supportsRenderCache()
+      ? await planRenderSegments(scenes, timings, totalFrames, {
+          width,
+          height,
+          fps,
+          exportSettings,
+          transparent: job.transparent,
+          fonts: job.fonts,
+          gradients: job.gradients,
+          watermark: job.watermark,
+          captions: job.captions,
+        })
+      : null;
+
+  // Every file this render touches shares a prefix, so a cancelled render
+  // can clean up in the background without racing the next one.
+  const prefix = `r${nanoid(6)}_`;
+  const segmentPrefix = (segment: RenderSegment) =>
+    `${prefix}s${segment.scene}_`;
+  const writtenFiles = new Set<string>();
+  const zipEntries: ZipEntry[] = [];
+  const trackEncoder =
+    encoder.kind === "webcodecs" ? createTrackEncoder(encoder) : null;
+  let track: EncodedTrack | null = null;
+  let cacheWrites = Promise.resolve();
+
+  try {
+    let framesDone = 0;
+    let rendered = 0;
+    const startedAt = performance.now();
+    const reportFrames = () => {
+      const rate =
+        rendered / Math.max(0.001, (performance.now() - startedAt) / 1000);
+      onStage("frames", framesDone / totalFrames, {
+        fps: rate,
+        eta: (totalFrames - framesDone) / Math.max(rate, 0.001),
+      });
+    };
+
+    // Unchanged segments come straight from the cache; only the rest are
+    // drawn, each encoded on its own as soon as its last frame lands.
+    const dirty: RenderSegment[] = [];
+    for (const segment of segments ?? []) {
+      const cached = await loadRenderSegment(segment.hash).catch(() => null);
+      signal?.throwIfAborted();
+      if (!ffmpeg || !cached) {
+        dirty.push(segment);
+        continue;
+      }
+      const filename = segmentOutput(exportSettings, segmentPrefix(segment));
+      await ffmpeg.writeFile(
+        filename,
+        new Uint8Array(await cached.arrayBuffer()),
+        { signal },
+      );
+      writtenFiles.add(filename);
+      framesDone += segment.frameCount;
+    }
+    if (segments) {
+      options.onSegments?.(segments.length - dirty.length, segments.length);
+      reportFrames();
+    }
+
+    const passes: { range: FrameRange; segment: RenderSegment | null }[] =
+      segments
+        ? dirty.map((segment) => ({
+            range: { start: segment.startFrame, count: segment.frameCount },
+            segment,
+          }))
+        : [{ range: { start: 0, count: totalFrames }, segment: null }];
+    const source = createFrameSource(
+      job,
+      passes.map((pass) => pass.range),
+      signal,
+    );
+    try {
+      for (const { range, segment } of passes) {
+        const framePrefix = segment ? segmentPrefix(segment) : prefix;
+        const frameFiles: string[] = [];
+        for (let offset = 0; offset < range.count; offset += 1) {
+          const data = await source.next();
+          signal?.throwIfAborted();
+          const frameName = `frame_${String(offset).padStart(5, "0")}`;
+          if (ffmpeg) {
+            const filename = `${framePrefix}${frameName}.rgba`;
+            await ffmpeg.writeFile(filename, new Uint8Array(data), { signal });
+            writtenFiles.add(filename);
+            frameFiles.push(filename);
+          } else if (trackEncoder) {
+            await trackEncoder.encode(data);
+          } else {
+            zipEntries.push({
+              name: `${frameName}.png`,
+              data: new Uint8Array(data),
+            });
+          }
+          framesDone += 1;
+          rendered += 1;
+          reportFrames();
+        }
+
+        if (ffmpeg && segment) {
+          const output = await encodeSegment(
+            ffmpeg,
+            exportSettings,
+            { width, height, fps, count: range.count, prefix: framePrefix },
+            signal,
+          );
+          writtenFiles.add(output.filename);
+          await cleanupFfmpeg(ffmpeg, frameFiles);
+          frameFiles.forEach((file) => writtenFiles.delete(file));
+          // Not awaited: a slow or failing cache write must not hold up
+          // the export. Writes still run one at a time so each trim sees
+          // the previous segment.
+          const blob = new Blob([new Uint8Array(output.data)], {
+            type: format.mimeType,
+          });
+          cacheWrites = cacheWrites
+            .then(() =>
+              saveRenderSegment(segment.hash, blob, RENDER_CACHE_LIMIT),
+            )
+            .catch(() => undefined);
+        }
+      }
+    } finally {
+      source.dispose();
+    }
+    if (trackEncoder) track = await trackEncoder.finish();
+  } catch (error) {
+    if (ffmpeg) await cleanupAfter(ffmpeg, writtenFiles, signal);
+    throw error;
+  } finally {
+    trackEncoder?.close();
+    options.onCacheWrites?.(cacheWrites);
+  }
+
+  if (encoder.kind === "zip") {
+    onStage("muxing", 0.5);
+    const archive = createZip(zipEntries);
+    onStage("muxing", 1);
+    return archive;
+  }
+
+  const audioPlan = buildAudioPlan(
+    format.supportsAudio ? (options.soundtrack ?? null) : null,
+    format.supportsAudio ? scenes : [],
+    timings,
+    totalDuration,
+  );
+  const embedCaptions = Boolean(
+    captions.embed && format.subtitleCodec && captionTrack.length,
+  );
+
+  // WebCodecs output is muxed in JS; ffmpeg only joins it with audio or
+  // subtitle streams, copying the video as-is.
+  let video: Blob | null = null;
+  if (track) {
+    onStage("muxing", 0.05);
+    video =
+      encoder.kind === "webcodecs" && encoder.codec !== "h264"
+        ? createWebm(track, encoder.codec === "av1" ? "V_AV1" : "V_VP9")
+        : createMp4(track);
+    if (!audioPlan.music && !audioPlan.voices.length && !embedCaptions) {
+      onStage("muxing", 1);
+      return video;
+    }
+  }
+  const muxer = ffmpeg ?? (await getFFmpeg());
+  signal?.throwIfAborted();
+
+  let data: Uint8Array | null = null;
+  const handleProgress = ({ progress }: { progress: number }) =>
+    onStage("muxing", 0.1 + clamp(progress, 0, 1) * 0.8);
+
+  try {
+    const audioFiles = await writeAudioFiles(muxer, audioPlan, prefix, signal);
+    audioFiles.all.forEach((file) => writtenFiles.add(file));
+    const audioArgs = buildAudioArgs(audioPlan, audioFiles);
+    const encode =
+      segments || video
+        ? buildCopyArgs(exportSettings, Boolean(audioArgs), prefix)
+        : buildEncodeArgs(exportSettings, Boolean(audioArgs), prefix);
+    writtenFiles.add(encode.output);
+
+    let videoInput = [
+      "-f",
+      "image2",
+      "-c:v",
+      "rawvideo",
+      "-pixel_format",
+      "rgba",
+      "-video_size",
+      `${width}x${height}`,
+      "-framerate",
+      String(fps),
+      "-i",
+      `${prefix}frame_%05d.rgba`,
+    ];
+    if (video) {
+      const videoFile = `${prefix}video.${format.extension}`;
+      await muxer.writeFile(
+        videoFile,
+        new Uint8Array(await video.arrayBuffer()),
+        { signal },
+      );
+      writtenFiles.add(videoFile);
+      videoInput = ["-i", videoFile];
+    } else if (segments) {
+      const list = `${prefix}segments.txt`;
+      await muxer.writeFile(
+        list,
+        new TextEncoder().encode(
+          segments
+            .map(
+              (segment) =>
+                `file '${segmentOutput(exportSettings, segmentPrefix(segment))}'\n`,
+            )
+            .join(""),
+        ),
+        { signal },
+      );
+      writtenFiles.add(list);
+      videoInput = ["-f", "concat", "-safe", "0", "-i", list];
+    }
+
+    let captionArgs: ReturnType<typeof buildCaptionArgs> | null = null;
+    if (embedCaptions && format.subtitleCodec) {
+      const captionFile = `${prefix}captions.srt`;
+      await muxer.writeFile(
+        captionFile,
+        new TextEncoder().encode(formatSrt(captionTrack)),
+        { signal },
+      );
+      writtenFiles.add(captionFile);
+      captionArgs = buildCaptionArgs(
+        captionFile,
+        format.subtitleCodec,
+        audioArgs,
+      );
+    }
+
+    onStage("muxing", 0.1);
+    muxer.on("progress", handleProgress);
+
+    await muxer.exec(
+      [
+        ...videoInput,
+        ...(audioArgs?.inputs ?? []),
+        ...(captionArgs?.inputs ?? []),
+        ...(audioArgs?.outputs ?? []),
+        ...(captionArgs?.outputs ?? []),
+        "-t",
+        String(totalFrames / fps),
+        ...encode.args,
+      ],
+      -1,
+      { signal },
+    );
+    signal?.throwIfAborted();
+
+    onStage("muxing", 0.9);
+    const fileData = await muxer.readFile(encode.output, undefined, {
+      signal,
+    });
+    if (!(fileData instanceof Uint8Array)) {
+      throw new Error("Unexpected encoder output format.");
+    }
+    data = fileData;
+    onStage("muxing", 1);
+  } finally {
+    muxer.off("progress", handleProgress);
+    await cleanupAfter(muxer, writtenFiles, signal);
+  }
+
+  if (!data) {
+    throw new Error("Failed to read rendered video output.");
+  }
+
+  const copy = new Uint8Array(data.length);
+  copy.set(data);
+
+  return new Blob([copy.buffer], { type: format.mimeType });
+}
+
+/**
+ * Renders frames in a worker when OffscreenCanvas is available, otherwise on
+ * the main thread (yielding between frames so the page stays responsive).
+ * Video backgrounds need DOM video elements, so they always use the latter,
+ * as do renders the cache fully covers, which need no worker at all.
+ */
+function createFrameSource(
+  job: FrameJob,
+  ranges: FrameRange[],
+  signal?: AbortSignal,
+): FrameSource {
+  if (
+    ranges.some((range) => range.count > 0) &&
+    typeof Worker !== "undefined" &&
+    supportsOffscreenCanvas() &&
+    !usesVideoBackgrounds(job.scenes)
+  ) {
+    try {
+      return createWorkerFrameSource(job, ranges, signal);
+    } catch {
+      // Fall through to the main-thread renderer.
+    }
+  }
+
+  const render = createFrameRenderer(job);
+  const indices = ranges.flatMap((range) =>
+    Array.from({ length: range.count }, (_, offset) => range.start + offset),
+  );
+  let position = 0;
+  return {
+    next: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+      const frame = await render(indices[position]);
+      position += 1;
+      return frame;
+    },
+    dispose: () => undefined,
+  };
+}
+
+function createWorkerFrameSource(
+  job: FrameJob,
+  ranges: FrameRange[],
+  signal?: AbortSignal,
+): FrameSource {
+  const worker = new Worker(
+    new URL("../workers/render.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  const send = (message: RenderWorkerRequest) => worker.postMessage(message);
+  const ready: ArrayBuffer[] = [];
+  let pending: {
+    resolve: (frame: ArrayBuffer) => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+  let failure: unknown = null;
+
+  const fail = (error: unknown) => {
+    failure = error;
+    pending?.reject(error);
+    pending = null;
+    worker.terminate();
+  };
+  const onAbort = () => fail(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === "error") {
+      fail(new Error(message.message));
+    } else if (pending) {
+      send({ type: "ack" });
+      pending.resolve(message.data);
+      pending = null;
+    } else {
+      ready.push(message.data);
+    }
+  };
+  worker.onerror = (event) => {
+    fail(new Error(event.message || "The render worker stopped unexpectedly."));
+  };
+
+  send({
+    type: "start",
+    job,
+    ranges,
+    fonts: collectDocumentFonts(),
+    aliases: collectFontAliases(),
+  });
+
+  return {
+    next: () => {
+      if (failure) return Promise.reject(failure);
+      const frame = ready.shift();
+      if (frame) {
+        send({ type: "ack" });
+        return Promise.resolve(frame);
+      }
+      return new Promise((resolve, reject) => {
+        pending = { resolve, reject };
+      });
+    },
+    dispose: () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    },
+  };
+}
+
+/** Where a segment's encoded file lives in ffmpeg's filesystem. */
+function segmentOutput(settings: ExportSettings, prefix: string) {
+  return buildEncodeArgs(settings, false, prefix).output;
+}
+
+/** Encodes one segment's frames, written under `prefix`, on their own. */
+async function encodeSegment(
+  ffmpeg: FFmpegInstance,
+  settings: ExportSettings,
+  frames: {
+    width: number;
+    height: number;
+    fps: number;
+    count: number;
+    prefix: string;
+  },
+  signal?: AbortSignal,
+) {
+  const encode = buildEncodeArgs(settings, false, frames.prefix);
+  await ffmpeg.exec(
+    [
+      "-f",
+      "image2",
+      "-c:v",
+      "rawvideo",
+      "-pixel_format",
+      "rgba",
+      "-video_size",
+      `${frames.width}x${frames.height}`,
+      "-framerate",
+      String(frames.fps),
+      "-i",
+      `${frames.prefix}frame_%05d.rgba`,
+      "-frames:v",
+      String(frames.count),
+      ...encode.args,
+    ],
+    -1,
+    { signal },
+  );
+  signal?.throwIfAborted();
+  const data = await ffmpeg.readFile(encode.output, undefined, { signal });
+  if (!(data instanceof Uint8Array)) {
+    throw new Error("Unexpected encoder output format.");
+  }
+  return { filename: encode.output, data };
+}
+
+async function loadEncoder(
+  onStage: (stage: Stage, progress: number) => void,
+): Promise<FFmpegInstance> {
+  onStage("loading", 0.1);
+  const ffmpeg = await getFFmpeg();
+  onStage("loading", 1);
+  return ffmpeg;
+}
+
+async function writeAudioFiles(
+  ffmpeg: FFmpegInstance,
+  plan: AudioPlan,
+  prefix: string,
+  signal?: AbortSignal,
+) {
+  const writeAsset = async (name: string, asset: AudioAsset) => {
+    const filename = `${prefix}${name}.${audioExtension(asset)}`;
+    await ffmpeg.writeFile(
+      filename,
+      new Uint8Array(await asset.blob.arrayBuffer()),
+      { signal },
+    );
+    return filename;
+  };
+
+  const music = plan.music
+    ? await writeAsset("audio_music", plan.music.asset)
+    : undefined;
+  const voices: string[] = [];
+  for (const [index, voice] of plan.voices.entries()) {
+    voices.push(await writeAsset(`audio_vo_${index}`, voice.asset));
+  }
+
+  return {
+    music,
+    voices,
+    all: [...(music ? [music] : []), ...voices],
+  };
+}
+
+/**
+ * Cancelled renders must not wait for cleanup before the UI settles, so the
+ * deletes only block when the render finished normally.
+ */
+function cleanupAfter(
+  ffmpeg: FFmpegInstance,
+  files: Iterable<string>,
+  signal?: AbortSignal,
+) {
+  const cleanup = cleanupFfmpeg(ffmpeg, [...files]);
+  return signal?.aborted ? undefined : cleanup;
+}
+
+async function cleanupFfmpeg(ffmpeg: FFmpegInstance, files: string[]) {
+  for (const file of files) {
+    try {
+      await ffmpeg.deleteFile(file);
+    } catch {
+      // ignore
+    }
+  }
+}
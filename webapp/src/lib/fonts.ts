@@ -0,0 +1,233 @@
+import { nanoid } from "nanoid";
+import type { Scene } from "@/lib/scene";
+
+export type FontSource = {
+  family: string;
+  /** A CSS `src` list, or the raw bytes of an uploaded font file. */
+  source: string | ArrayBuffer;
+  descriptors: FontFaceDescriptors;
+};
+
+/** A font file the user uploaded, saved with the project. */
+export type FontAsset = {
+  id: string;
+  family: string;
+  name: string;
+  type: string;
+  blob: Blob;
+};
+
+/**
+ * Families bundled through `next/font`. Their real `@font-face` names are
+ * hashed, so canvases reach them through the CSS variable on `<body>`.
+ */
+export const BUILT_IN_FONTS: {
+  family: string;
+  variable: string;
+  fallback: string;
+}[] = [
+  { family: "Sora", variable: "--font-sora", fallback: "sans-serif" },
+  { family: "Inter", variable: "--font-inter", fallback: "sans-serif" },
+  { family: "Geist", variable: "--font-geist-sans", fallback: "sans-serif" },
+  {
+    family: "Geist Mono",
+    variable: "--font-geist-mono",
+    fallback: "monospace",
+  },
+];
+
+const MAX_FONT_BYTES = 10 * 1024 * 1024;
+const FONT_FILE_PATTERN = /\.(woff2?|ttf|otf)$/i;
+
+const fontAliases = new Map<string, string>();
+const loadedAssets = new WeakMap<FontFaceSet, Set<string>>();
+
+/**
+ * Reads the `@font-face` rules the page has loaded so an OffscreenCanvas in a
+ * worker, which cannot see `document.fonts`, can register the same faces.
+ * Relative `url()`s are resolved against their stylesheet; cross-origin
+ * sheets that refuse `cssRules` access are skipped.
+ */
+export function collectDocumentFonts(): FontSource[] {
+  if (typeof document === "undefined") return [];
+
+  const fonts: FontSource[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+
+    const base = sheet.href ?? document.baseURI;
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const { style } = rule;
+      const family = style.getPropertyValue("font-family").replace(/["']/g, "");
+      const source = style.getPropertyValue("src");
+      if (!family || !source) continue;
+
+      fonts.push({
+        family: family.trim(),
+        source: source.replace(
+          /url\((["']?)(.+?)\1\)/g,
+          (_, quote: string, url: string) =>
+            `url(${quote}${new URL(url, base).href}${quote})`,
+        ),
+        descriptors: {
+          style: style.getPropertyValue("font-style") || undefined,
+          weight: style.getPropertyValue("font-weight") || undefined,
+          stretch: style.getPropertyValue("font-stretch") || undefined,
+          unicodeRange: style.getPropertyValue("unicode-range") || undefined,
+        },
+      });
+    }
+  }
+  return fonts;
+}
+
+/** Loads faces into `fontSet`; a face that fails to load falls back silently. */
+export async function loadFontSources(
+  fonts: FontSource[],
+  fontSet: FontFaceSet,
+) {
+  await Promise.all(
+    fonts.map(async ({ family, source, descriptors }) => {
+      try {
+        const face = await new FontFace(family, source, descriptors).load();
+        fontSet.add(face);
+      } catch {
+        // The renderer's font stack still has system fallbacks.
+      }
+    }),
+  );
+}
+
+/**
+ * Validates an uploaded font file by loading it once. The family is named
+ * after the file and kept unique among `takenFamilies` and the built-ins.
+ */
+export async function createFontAsset(
+  file: File,
+  takenFamilies: string[],
+): Promise<FontAsset> {
+  if (!FONT_FILE_PATTERN.test(file.name)) {
+    throw new Error(
+      `"${file.name}" is not a .woff2, .woff, .ttf or .otf font.`,
+    );
+  }
+  if (file.size > MAX_FONT_BYTES) {
+    throw new Error(`"${file.name}" is larger than 10 MB.`);
+  }
+
+  const base =
+    file.name
+      .replace(FONT_FILE_PATTERN, "")
+      .replace(/[-_]+/g, " ")
+      .replace(/["'\\]/g, "")
+      .trim() || "Custom Font";
+  const taken = new Set([
+    ...takenFamilies,
+    ...BUILT_IN_FONTS.map((font) => font.family),
+  ]);
+  let family = base;
+  for (let suffix = 2; taken.has(family); suffix += 1) {
+    family = `${base} ${suffix}`;
+  }
+
+  try {
+    await new FontFace(family, await file.arrayBuffer()).load();
+  } catch {
+    throw new Error(`"${file.name}" is not a font we can read.`);
+  }
+
+  return {
+    id: nanoid(),
+    family,
+    name: file.name,
+    type: file.type || "font/ttf",
+    blob: file,
+  };
+}
+
+/**
+ * Resolves the hashed `next/font` family names from the page's CSS
+ * variables, so a worker can be told the same names.
+ */
+export function collectFontAliases(): Record<string, string> {
+  if (typeof document === "undefined") return {};
+
+  const style = getComputedStyle(document.body);
+  const aliases: Record<string, string> = {};
+  for (const font of BUILT_IN_FONTS) {
+    const value = style.getPropertyValue(font.variable).trim();
+    if (value) aliases[font.family] = value;
+  }
+  return aliases;
+}
+
+export function registerFontAliases(aliases: Record<string, string>) {
+  for (const [family, stack] of Object.entries(aliases)) {
+    fontAliases.set(family, stack);
+  }
+}
+
+/** The CSS font-family list a canvas should use for `family`. */
+export function resolveFontStack(family: string) {
+  if (!fontAliases.size) registerFontAliases(collectFontAliases());
+  const builtIn = BUILT_IN_FONTS.find((font) => font.family === family);
+  const name = fontAliases.get(family) ?? `"${family.replace(/"/g, "")}"`;
+  return `${name}, ${builtIn?.fallback ?? "sans-serif"}`;
+}
+
+/**
+ * Registers uploaded fonts and waits until every face the scenes' text
+ * uses has loaded, so the first frame drawn never falls back to a system
+ * font. Resolves to whether anything new had to be loaded.
+ */
+export async function prepareSceneFonts(
+  scenes: Scene[],
+  uploaded: FontAsset[],
+  fontSet = currentFontSet(),
+) {
+  if (!fontSet) return false;
+
+  let registered = loadedAssets.get(fontSet);
+  if (!registered) {
+    registered = new Set();
+    loadedAssets.set(fontSet, registered);
+  }
+  const fresh = uploaded.filter((font) => !registered.has(font.id));
+  fresh.forEach((font) => registered.add(font.id));
+  await loadFontSources(
+    await Promise.all(
+      fresh.map(async (font) => ({
+        family: font.family,
+        source: await font.blob.arrayBuffer(),
+        descriptors: {},
+      })),
+    ),
+    fontSet,
+  );
+
+  const faces = new Set(
+    scenes.flatMap(({ typography, layers }) =>
+      [
+        typography.title,
+        typography.body,
+        ...layers.flatMap((layer) => (layer.kind === "text" ? [layer] : [])),
+      ].map((role) => `${role.weight} 32px ${resolveFontStack(role.family)}`),
+    ),
+  );
+  const pending = Array.from(faces).filter((face) => !fontSet.check(face));
+  await Promise.all(pending.map((face) => fontSet.load(face).catch(() => [])));
+  return fresh.length > 0 || pending.length > 0;
+}
+
+function currentFontSet(): FontFaceSet | undefined {
+  if (typeof document !== "undefined") return document.fonts;
+  // Node has neither; the CLI registers fonts with its canvas library.
+  if (typeof self === "undefined") return undefined;
+  return (self as unknown as { fonts?: FontFaceSet }).fonts;
+}
@@ -0,0 +1,132 @@
+import { nanoid } from "nanoid";
+import type { Scene } from "@/lib/scene";
+
+export type HistoryEntry<T> = {
+  id: string;
+  label: string;
+  state: T;
+  /** Consecutive edits sharing a key (e.g. typing in one field) merge. */
+  coalesceKey?: string;
+  timestamp: number;
+};
+
+/**
+ * Linear undo history. `entries[index]` is the current state; entries after
+ * it are redoable until a new edit replaces them.
+ */
+export type History<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
+export type HistoryCommand = {
+  label: string;
+  coalesceKey?: string;
+};
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+const COALESCE_WINDOW_MS = 1000;
+
+const SCENE_FIELD_LABELS: Partial<Record<keyof Scene, string>> = {
+  title: "title",
+  description: "description",
+  duration: "duration",
+  gradientId: "gradient",
+  background: "background",
+  textColor: "text color",
+  accent: "accent color",
+  layers: "layers",
+  motionTemplate: "motion",
+  transition: "transition",
+  voiceOver: "voice-over",
+  captions: "captions",
+  chapter: "chapter",
+};
+
+export function createHistory<T>(state: T, label: string): History<T> {
+  return {
+    entries: [{ id: nanoid(), label, state, timestamp: Date.now() }],
+    index: 0,
+  };
+}
+
+export function currentHistoryState<T>(history: History<T>) {
+  return history.entries[history.index].state;
+}
+
+export function canUndo(history: History<unknown>) {
+  return history.index > 0;
+}
+
+export function canRedo(history: History<unknown>) {
+  return history.index < history.entries.length - 1;
+}
+
+/**
+ * Records `state` as a new entry, dropping any redoable entries. An edit with
+ * the same `coalesceKey` as the current entry, made shortly after it,
+ * replaces that entry instead so a burst of keystrokes undoes in one step.
+ */
+export function pushHistory<T>(
+  history: History<T>,
+  state: T,
+  { label, coalesceKey }: HistoryCommand,
+  now = Date.now(),
+): History<T> {
+  const current = history.entries[history.index];
+  if (state === current.state) return history;
+
+  const entries = history.entries.slice(0, history.index + 1);
+  if (
+    coalesceKey &&
+    history.index > 0 &&
+    !canRedo(history) &&
+    current.coalesceKey === coalesceKey &&
+    now - current.timestamp < COALESCE_WINDOW_MS
+  ) {
+    entries[entries.length - 1] = { ...current, state, timestamp: now };
+    return { entries, index: history.index };
+  }
+
+  entries.push({ id: nanoid(), label, state, coalesceKey, timestamp: now });
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  return {
+    entries: entries.slice(overflow),
+    index: entries.length - 1 - overflow,
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  return canUndo(history) ? { ...history, index: history.index - 1 } : history;
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  return canRedo(history) ? { ...history, index: history.index + 1 } : history;
+}
+
+export function jumpToHistory<T>(history: History<T>, id: string): History<T> {
+  const index = history.entries.findIndex((entry) => entry.id === id);
+  return index < 0 ? history : { ...history, index };
+}
+
+/**
+ * Names a scene edit after the fields it touched. Edits to the same fields
+ * of the same scene share a coalesce key.
+ */
+export function describeSceneEdit(
+  before: Scene,
+  after: Scene,
+  position: number,
+): HistoryCommand {
+  const fields = (Object.keys(SCENE_FIELD_LABELS) as (keyof Scene)[]).filter(
+    (field) => before[field] !== after[field],
+  );
+  const subject =
+    fields.length === 1 ? SCENE_FIELD_LABELS[fields[0]] : "settings";
+
+  return {
+    label: `Edit scene ${position + 1} ${subject}`,
+    coalesceKey: `${after.id}:${fields.join(",")}`,
+  };
+}
@@ -0,0 +1,164 @@
+import { clamp, easeIn, easeInOut, easeOut } from "@/lib/easing";
+
+export type Easing =
+  | { type: "linear" }
+  | { type: "ease-in" }
+  | { type: "ease-out" }
+  | { type: "ease-in-out" }
+  | { type: "sine-in" }
+  | { type: "sine-out" }
+  | { type: "cubic-bezier"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "spring"; stiffness: number; damping: number };
+
+export type EasingType = Easing["type"];
+
+export type Keyframe = {
+  /** Position within the scene, from 0 (first frame) to 1 (last frame). */
+  time: number;
+  value: number;
+  /** Curve used on the way to the next keyframe. */
+  easing: Easing;
+};
+
+export type KeyframeTrack = Keyframe[];
+
+export const EASING_OPTIONS: { id: EasingType; label: string }[] = [
+  { id: "linear", label: "Linear" },
+  { id: "ease-in", label: "Ease In" },
+  { id: "ease-out", label: "Ease Out" },
+  { id: "ease-in-out", label: "Ease In-Out" },
+  { id: "sine-in", label: "Sine In" },
+  { id: "sine-out", label: "Sine Out" },
+  { id: "cubic-bezier", label: "Cubic Bezier" },
+  { id: "spring", label: "Spring" },
+];
+
+export function createEasing(type: EasingType): Easing {
+  switch (type) {
+    case "cubic-bezier":
+      return { type, x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 };
+    case "spring":
+      return { type, stiffness: 120, damping: 12 };
+    default:
+      return { type };
+  }
+}
+
+export function applyEasing(easing: Easing, value: number) {
+  const t = clamp(value, 0, 1);
+  switch (easing.type) {
+    case "ease-in":
+      return easeIn(t);
+    case "ease-out":
+      return easeOut(t);
+    case "ease-in-out":
+      return easeInOut(t);
+    case "sine-in":
+      return 1 - Math.cos((t * Math.PI) / 2);
+    case "sine-out":
+      return Math.sin((t * Math.PI) / 2);
+    case "cubic-bezier":
+      return cubicBezier(easing, t);
+    case "spring":
+      return spring(easing, t);
+    case "linear":
+    default:
+      return t;
+  }
+}
+
+/**
+ * Samples a track at `progress`. Values hold before the first and after the
+ * last keyframe; an empty track yields `fallback`.
+ */
+export function evaluateTrack(
+  track: KeyframeTrack | undefined,
+  progress: number,
+  fallback: number,
+) {
+  if (!track?.length) return fallback;
+
+  const first = track[0];
+  if (progress <= first.time) return first.value;
+
+  for (let index = 0; index < track.length - 1; index += 1) {
+    const from = track[index];
+    const to = track[index + 1];
+    if (progress > to.time) continue;
+
+    const span = to.time - from.time;
+    const local = span > 0 ? (progress - from.time) / span : 1;
+    return (
+      from.value + (to.value - from.value) * applyEasing(from.easing, local)
+    );
+  }
+
+  return track[track.length - 1].value;
+}
+
+/** Keeps keyframes ordered and inside the scene. */
+export function sortTrack(track: KeyframeTrack): KeyframeTrack {
+  return track
+    .map((keyframe) => ({ ...keyframe, time: clamp(keyframe.time, 0, 1) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Solves the CSS cubic-bezier timing function: find the curve parameter whose
+// x matches the input (Newton first, bisection as a fallback), then return y.
+function cubicBezier(
+  { x1, y1, x2, y2 }: Extract<Easing, { type: "cubic-bezier" }>,
+  x: number,
+) {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+  const slopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+  let t = x;
+  for (let iteration = 0; iteration < 8; iteration += 1) {
+    const error = sampleX(t) - x;
+    if (Math.abs(error) < 1e-6) return sampleY(t);
+    const slope = slopeX(t);
+    if (Math.abs(slope) < 1e-6) break;
+    t -= error / slope;
+  }
+
+  let low = 0;
+  let high = 1;
+  t = x;
+  while (high - low > 1e-6) {
+    if (sampleX(t) < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return sampleY(t);
+}
+
+// A unit-mass spring released from 0 towards 1, with the segment mapped onto
+// one second of simulated time. Lands exactly on 1 at the end of the segment.
+function spring(
+  { stiffness, damping }: Extract<Easing, { type: "spring" }>,
+  t: number,
+) {
+  if (t >= 1) return 1;
+  const omega = Math.sqrt(Math.max(1, stiffness));
+  const zeta = Math.max(0, damping) / (2 * omega);
+
+  if (zeta < 1) {
+    const damped = omega * Math.sqrt(1 - zeta * zeta);
+    return (
+      1 -
+      Math.exp(-zeta * omega * t) *
+        (Math.cos(damped * t) +
+          ((zeta * omega) / damped) * Math.sin(damped * t))
+    );
+  }
+
+  // Overdamped springs are approximated as critically damped.
+  return 1 - Math.exp(-omega * t) * (1 + omega * t);
+}
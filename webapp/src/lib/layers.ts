@@ -0,0 +1,410 @@
+import { nanoid } from "nanoid";
+import { clamp } from "@/lib/easing";
+import {
+  cloneMotion,
+  normalizeLayerAnimation,
+  type LayerAnimation,
+  type LayerState,
+  type SceneMotion,
+} from "@/lib/motion";
+
+export type BlendMode =
+  | "source-over"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "soft-light"
+  | "difference";
+
+/**
+ * Static placement applied under the layer's keyframes. Offsets are in
+ * pixels of the 1280×720 reference frame, rotation in degrees.
+ */
+export type LayerTransform = {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+  opacity: number;
+};
+
+export type ImageAsset = {
+  id: string;
+  name: string;
+  type: string;
+  width: number;
+  height: number;
+  blob: Blob;
+};
+
+export type ShapeKind = "rectangle" | "ellipse" | "line";
+
+type LayerBase = {
+  id: string;
+  name: string;
+  visible: boolean;
+  blendMode: BlendMode;
+  transform: LayerTransform;
+  motion: LayerAnimation;
+};
+
+/**
+ * Scene layers, drawn first to last. The background, accent and headline
+ * kinds are built in: they draw the scene's gradient, accent color and
+ * title/description, so every scene keeps exactly one of each. `A` is the
+ * image asset, which project files hold serialized.
+ */
+export type SceneLayer<A = ImageAsset> = LayerBase &
+  (
+    | { kind: "background" }
+    | { kind: "accent" }
+    | { kind: "headline" }
+    | {
+        kind: "text";
+        text: string;
+        /** A built-in or uploaded family, as in scene typography. */
+        family: string;
+        color: string;
+        size: number;
+        weight: number;
+        width: number;
+        align: CanvasTextAlign;
+      }
+    | { kind: "image"; asset: A; width: number }
+    | {
+        kind: "shape";
+        shape: ShapeKind;
+        color: string;
+        width: number;
+        height: number;
+        radius: number;
+      }
+  );
+
+export type LayerKind = SceneLayer["kind"];
+
+export type AddableLayer = "text" | "image" | ShapeKind;
+
+export const BUILT_IN_LAYER_KINDS: LayerKind[] = [
+  "background",
+  "accent",
+  "headline",
+];
+
+export const BLEND_MODES: { id: BlendMode; label: string }[] = [
+  { id: "source-over", label: "Normal" },
+  { id: "multiply", label: "Multiply" },
+  { id: "screen", label: "Screen" },
+  { id: "overlay", label: "Overlay" },
+  { id: "darken", label: "Darken" },
+  { id: "lighten", label: "Lighten" },
+  { id: "color-dodge", label: "Color Dodge" },
+  { id: "color-burn", label: "Color Burn" },
+  { id: "soft-light", label: "Soft Light" },
+  { id: "difference", label: "Difference" },
+];
+
+export const IDENTITY_TRANSFORM: LayerTransform = {
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+};
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const TEXT_ALIGNS: CanvasTextAlign[] = ["left", "center", "right"];
+const SHAPE_KINDS: ShapeKind[] = ["rectangle", "ellipse", "line"];
+
+/** Starting values for new text layers, also used to repair imported ones. */
+const TEXT_DEFAULTS: {
+  text: string;
+  family: string;
+  size: number;
+  weight: number;
+  width: number;
+  align: CanvasTextAlign;
+} = {
+  text: "Lower third",
+  family: "Inter",
+  size: 36,
+  weight: 600,
+  width: 640,
+  align: "center",
+};
+
+const SHAPE_DEFAULTS: Record<
+  ShapeKind,
+  { width: number; height: number; radius: number }
+> = {
+  rectangle: { width: 240, height: 240, radius: 24 },
+  ellipse: { width: 240, height: 240, radius: 0 },
+  line: { width: 320, height: 6, radius: 0 },
+};
+
+export function isBuiltInLayer(layer: { kind: LayerKind }) {
+  return BUILT_IN_LAYER_KINDS.includes(layer.kind);
+}
+
+/** The layer stack every scene starts with, animated by `motion`. */
+export function createDefaultLayers<A = ImageAsset>(
+  motion: SceneMotion,
+): SceneLayer<A>[] {
+  const { accent, text } = cloneMotion(motion);
+  return [
+    { ...layerBase("Background"), kind: "background" },
+    { ...layerBase("Accent"), kind: "accent", motion: accent },
+    { ...layerBase("Headline"), kind: "headline", motion: text },
+  ];
+}
+
+export function createLayer(
+  kind: Exclude<AddableLayer, "image">,
+  color: string,
+): SceneLayer {
+  switch (kind) {
+    case "text":
+      return { ...layerBase("Text"), kind: "text", ...TEXT_DEFAULTS, color };
+    default:
+      return {
+        ...layerBase(
+          kind === "line"
+            ? "Line"
+            : kind === "ellipse"
+              ? "Ellipse"
+              : "Rectangle",
+        ),
+        kind: "shape",
+        shape: kind,
+        color,
+        ...SHAPE_DEFAULTS[kind],
+      };
+  }
+}
+
+export async function createImageLayer(file: File): Promise<SceneLayer> {
+  const asset = await createImageAsset(file);
+  return {
+    ...layerBase(file.name.replace(/\.[^.]+$/, "") || "Image"),
+    kind: "image",
+    asset,
+    width: Math.min(480, asset.width),
+  };
+}
+
+/** Validates and measures an uploaded image; also used for backgrounds. */
+export async function createImageAsset(file: File): Promise<ImageAsset> {
+  if (!file.type.startsWith("image/")) {
+    throw new Error(`"${file.name}" is not an image.`);
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`"${file.name}" is larger than 20 MB.`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`"${file.name}" is not an image we can decode.`);
+  }
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  return {
+    id: nanoid(),
+    name: file.name,
+    type: file.type,
+    width,
+    height,
+    blob: file,
+  };
+}
+
+/** New ids for every layer, e.g. when a scene is duplicated. */
+export function cloneLayers(layers: SceneLayer[]): SceneLayer[] {
+  return layers.map((layer) => ({
+    ...layer,
+    id: nanoid(),
+    transform: { ...layer.transform },
+    motion: structuredClone(layer.motion),
+  }));
+}
+
+/** Combines a layer's static transform with its keyframed state. */
+export function resolveLayerState(
+  transform: LayerTransform,
+  animated: LayerState,
+): LayerState {
+  return {
+    x: transform.x + animated.x,
+    y: transform.y + animated.y,
+    scale: transform.scale * animated.scale,
+    rotation: transform.rotation + animated.rotation,
+    opacity: transform.opacity * animated.opacity,
+    blur: animated.blur,
+  };
+}
+
+/** The motion templates animate the accent and headline layers. */
+export function extractSceneMotion(layers: SceneLayer[]): SceneMotion {
+  return cloneMotion({
+    accent: layers.find((layer) => layer.kind === "accent")?.motion ?? {},
+    text: layers.find((layer) => layer.kind === "headline")?.motion ?? {},
+  });
+}
+
+export function applySceneMotion(
+  layers: SceneLayer[],
+  motion: SceneMotion,
+): SceneLayer[] {
+  const { accent, text } = cloneMotion(motion);
+  return layers.map((layer) =>
+    layer.kind === "accent"
+      ? { ...layer, motion: accent }
+      : layer.kind === "headline"
+        ? { ...layer, motion: text }
+        : layer,
+  );
+}
+
+/**
+ * Rebuilds a layer stack from untrusted input, dropping unknown kinds and
+ * restoring any missing built-in layer so the scene still renders.
+ * `readAsset` checks image assets in their stored form; image layers whose
+ * asset fails are dropped.
+ */
+export function normalizeLayers<A>(
+  input: unknown,
+  motion: SceneMotion,
+  readAsset: (input: unknown) => A | null,
+): SceneLayer<A>[] {
+  const defaults = createDefaultLayers<A>(motion);
+  if (!Array.isArray(input)) return defaults;
+
+  const layers = input.flatMap((entry): SceneLayer<A>[] => {
+    const raw = asRecord(entry);
+    const kind = raw.kind as LayerKind;
+    const base: LayerBase = {
+      id: typeof raw.id === "string" ? raw.id : nanoid(),
+      name: typeof raw.name === "string" ? raw.name : kind,
+      visible: raw.visible !== false,
+      blendMode: BLEND_MODES.some((mode) => mode.id === raw.blendMode)
+        ? (raw.blendMode as BlendMode)
+        : "source-over",
+      transform: normalizeTransform(raw.transform),
+      motion: normalizeLayerAnimation(raw.motion),
+    };
+
+    switch (kind) {
+      case "background":
+      case "accent":
+      case "headline":
+        return [{ ...base, kind }];
+      case "image": {
+        const asset = readAsset(raw.asset);
+        return asset
+          ? [
+              {
+                ...base,
+                kind,
+                asset,
+                width: asNumber(raw.width, 480, 16, Infinity),
+              },
+            ]
+          : [];
+      }
+      case "text":
+        return [
+          {
+            ...base,
+            kind,
+            text: typeof raw.text === "string" ? raw.text : TEXT_DEFAULTS.text,
+            family:
+              typeof raw.family === "string" && raw.family
+                ? raw.family
+                : TEXT_DEFAULTS.family,
+            color: asColor(raw.color),
+            size: asNumber(raw.size, TEXT_DEFAULTS.size, 8, 400),
+            weight: asNumber(raw.weight, TEXT_DEFAULTS.weight, 100, 900),
+            width: asNumber(raw.width, TEXT_DEFAULTS.width, 40, Infinity),
+            align: TEXT_ALIGNS.includes(raw.align as CanvasTextAlign)
+              ? (raw.align as CanvasTextAlign)
+              : TEXT_DEFAULTS.align,
+          },
+        ];
+      case "shape": {
+        const shape = SHAPE_KINDS.includes(raw.shape as ShapeKind)
+          ? (raw.shape as ShapeKind)
+          : "rectangle";
+        const defaults = SHAPE_DEFAULTS[shape];
+        return [
+          {
+            ...base,
+            kind,
+            shape,
+            color: asColor(raw.color),
+            width: asNumber(raw.width, defaults.width, 1, Infinity),
+            height: asNumber(raw.height, defaults.height, 1, Infinity),
+            radius: asNumber(raw.radius, defaults.radius, 0, Infinity),
+          },
+        ];
+      }
+      default:
+        return [];
+    }
+  });
+
+  for (const builtIn of defaults) {
+    if (!layers.some((layer) => layer.kind === builtIn.kind)) {
+      layers.splice(defaults.indexOf(builtIn), 0, builtIn);
+    }
+  }
+  return layers.filter(
+    (layer, index) =>
+      !isBuiltInLayer(layer) ||
+      layers.findIndex((other) => other.kind === layer.kind) === index,
+  );
+}
+
+function normalizeTransform(input: unknown): LayerTransform {
+  const raw = asRecord(input);
+  const transform = { ...IDENTITY_TRANSFORM };
+  for (const key of Object.keys(transform) as (keyof LayerTransform)[]) {
+    if (typeof raw[key] === "number" && Number.isFinite(raw[key])) {
+      transform[key] = raw[key] as number;
+    }
+  }
+  return transform;
+}
+
+function layerBase(name: string): LayerBase {
+  return {
+    id: nanoid(),
+    name,
+    visible: true,
+    blendMode: "source-over",
+    transform: { ...IDENTITY_TRANSFORM },
+    motion: {},
+  };
+}
+
+function asColor(value: unknown) {
+  return typeof value === "string" && HEX_COLOR.test(value) ? value : "#f8fafc";
+}
+
+function asNumber(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? clamp(value, min, max)
+    : fallback;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,128 @@
+import { getCanvasBackend, type DrawableImage } from "@/lib/canvas";
+import type { VideoAsset } from "@/lib/backgrounds";
+import type { ImageAsset } from "@/lib/layers";
+import type { Scene } from "@/lib/scene";
+import {
+  computeSceneTimings,
+  sampleTimeline,
+  type SceneTiming,
+} from "@/lib/transitions";
+
+const imageCache = new Map<string, DrawableImage>();
+const pendingImages = new Map<string, Promise<boolean>>();
+const videoCache = new Map<string, HTMLVideoElement>();
+
+/**
+ * Decodes the assets of every image layer and image background, plus any
+ * `extra` images such as a watermark, so frames can draw them
+ * synchronously. Images are cached by asset id for the page's lifetime.
+ * Resolves to whether any new image became drawable.
+ */
+export async function preloadSceneImages(
+  scenes: Scene[],
+  extra: ImageAsset[] = [],
+) {
+  const loaded = await Promise.all([
+    ...extra.map(loadImage),
+    ...scenes.flatMap((scene) => [
+      ...scene.layers.flatMap((layer) =>
+        layer.kind === "image" ? [loadImage(layer.asset)] : [],
+      ),
+      ...(scene.background.kind === "image"
+        ? [loadImage(scene.background.asset)]
+        : []),
+    ]),
+  ]);
+  return loaded.some(Boolean);
+}
+
+/** The decoded image for `asset`, once `preloadSceneImages` has run. */
+export function getLoadedImage(asset: ImageAsset) {
+  return imageCache.get(asset.id);
+}
+
+/** The video element for `asset` if it has a frame ready to draw. */
+export function getSeekedVideo(asset: VideoAsset) {
+  const video = videoCache.get(asset.id);
+  return video && video.readyState >= 2 ? video : undefined;
+}
+
+function loadImage(asset: ImageAsset) {
+  if (imageCache.has(asset.id)) return Promise.resolve(false);
+
+  let pending = pendingImages.get(asset.id);
+  if (!pending) {
+    pending = getCanvasBackend()
+      .decodeImage(asset.blob)
+      .then((image) => {
+        imageCache.set(asset.id, image);
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => pendingImages.delete(asset.id));
+    pendingImages.set(asset.id, pending);
+  }
+  return pending;
+}
+
+export function usesVideoBackgrounds(scenes: Scene[]) {
+  return scenes.some((scene) => scene.background.kind === "video");
+}
+
+/**
+ * Seeks the video backgrounds visible at `time` to their looped position,
+ * so the next frame draws them synchronously. Video elements only exist on
+ * the main thread, which is why jobs with video backgrounds never go to
+ * the render worker. Resolves to whether any video moved.
+ */
+export async function seekSceneVideos(
+  scenes: Scene[],
+  time: number,
+  timings: SceneTiming[] = computeSceneTimings(scenes),
+) {
+  if (typeof document === "undefined") return false;
+  const sample = sampleTimeline(scenes, time, timings);
+  if (!sample) return false;
+
+  const visible =
+    sample.kind === "scene"
+      ? [{ scene: scenes[sample.index], progress: sample.progress }]
+      : [
+          { scene: scenes[sample.from], progress: sample.fromProgress },
+          { scene: scenes[sample.to], progress: sample.toProgress },
+        ];
+  const moved = await Promise.all(
+    visible.map(({ scene, progress }) =>
+      scene.background.kind === "video"
+        ? seekVideo(
+            scene.background.asset,
+            (progress * scene.duration) % scene.background.asset.duration,
+          )
+        : false,
+    ),
+  );
+  return moved.some(Boolean);
+}
+
+async function seekVideo(asset: VideoAsset, time: number) {
+  let video = videoCache.get(asset.id);
+  if (!video) {
+    video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.src = URL.createObjectURL(asset.blob);
+    videoCache.set(asset.id, video);
+  }
+  if (video.readyState >= 2 && Math.abs(video.currentTime - time) < 0.001) {
+    return false;
+  }
+
+  const element = video;
+  await new Promise<void>((resolve) => {
+    element.addEventListener("seeked", () => resolve(), { once: true });
+    element.addEventListener("error", () => resolve(), { once: true });
+    element.currentTime = time;
+  });
+  return true;
+}
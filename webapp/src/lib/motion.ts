@@ -0,0 +1,211 @@
+import { ANIMATION_OPTIONS, type SceneAnimation } from "@/lib/animation";
+import {
+  EASING_OPTIONS,
+  evaluateTrack,
+  sortTrack,
+  type Easing,
+  type EasingType,
+  type Keyframe,
+  type KeyframeTrack,
+} from "@/lib/keyframes";
+
+export type MotionLayer = "accent" | "text";
+
+export type MotionProperty =
+  "x" | "y" | "scale" | "rotation" | "opacity" | "blur";
+
+/** Keyframe tracks for one layer; a missing track keeps the default value. */
+export type LayerAnimation = Partial<Record<MotionProperty, KeyframeTrack>>;
+
+export type SceneMotion = Record<MotionLayer, LayerAnimation>;
+
+export type LayerState = Record<MotionProperty, number>;
+
+export type MotionTemplate = {
+  id: string;
+  label: string;
+  builtIn: boolean;
+  motion: SceneMotion;
+};
+
+/**
+ * Positions and blur are in pixels of the 1280×720 reference frame and scale
+ * with the output like the rest of the layout. Rotation is in degrees.
+ */
+export const MOTION_PROPERTIES: {
+  id: MotionProperty;
+  label: string;
+  fallback: number;
+  step: number;
+}[] = [
+  { id: "x", label: "X", fallback: 0, step: 1 },
+  { id: "y", label: "Y", fallback: 0, step: 1 },
+  { id: "scale", label: "Scale", fallback: 1, step: 0.01 },
+  { id: "rotation", label: "Rotation", fallback: 0, step: 0.5 },
+  { id: "opacity", label: "Opacity", fallback: 1, step: 0.05 },
+  { id: "blur", label: "Blur", fallback: 0, step: 0.5 },
+];
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+
+const key = (
+  time: number,
+  value: number,
+  type: Exclude<EasingType, "cubic-bezier" | "spring"> = "linear",
+): Keyframe => ({ time, value, easing: { type } });
+
+// The accent breathes the same way under every preset.
+const accentOpacity: KeyframeTrack = [
+  key(0, 0.35, "sine-out"),
+  key(0.5, 0.5, "sine-in"),
+  key(1, 0.35),
+];
+
+const textFadeIn: KeyframeTrack = [key(0, 0, "ease-in"), key(1, 1)];
+
+/**
+ * The original zoom / slide / drift presets expressed as keyframes. Sine
+ * segments reproduce the old `Math.sin` / `Math.cos` curves exactly, so
+ * scenes migrated from a preset render the same frames as before.
+ */
+const PRESET_MOTION: Record<SceneAnimation, SceneMotion> = {
+  zoom: {
+    accent: {
+      scale: [key(0, 1, "ease-in-out"), key(1, 1.08)],
+      rotation: [key(0, 0, "ease-in-out"), key(1, degrees(0.15))],
+      opacity: accentOpacity,
+    },
+    text: {
+      y: [key(0, 40, "ease-out"), key(1, 0)],
+      opacity: textFadeIn,
+    },
+  },
+  slide: {
+    accent: {
+      scale: [key(0, 1.05, "sine-out"), key(0.5, 1.1, "sine-in"), key(1, 1.05)],
+      rotation: [key(0, degrees(-0.2), "ease-out"), key(1, degrees(0.2))],
+      opacity: accentOpacity,
+    },
+    text: {
+      y: [key(0, 80, "ease-out"), key(1, 0)],
+      opacity: textFadeIn,
+    },
+  },
+  drift: {
+    accent: {
+      scale: [
+        key(0, 1.04, "sine-in"),
+        key(0.25, 1, "sine-out"),
+        key(0.5, 0.96, "sine-in"),
+        key(0.75, 1, "sine-out"),
+        key(1, 1.04),
+      ],
+      rotation: [
+        key(0, 0, "sine-out"),
+        key(0.25, degrees(0.2), "sine-in"),
+        key(0.5, 0, "sine-out"),
+        key(0.75, degrees(-0.2), "sine-in"),
+        key(1, 0),
+      ],
+      opacity: accentOpacity,
+    },
+    text: {
+      y: [
+        key(0, 0, "sine-out"),
+        key(0.25, 20, "sine-in"),
+        key(0.5, 0, "sine-out"),
+        key(0.75, -20, "sine-in"),
+        key(1, 0),
+      ],
+      opacity: textFadeIn,
+    },
+  },
+};
+
+export const BUILT_IN_TEMPLATES: MotionTemplate[] = ANIMATION_OPTIONS.map(
+  (option) => ({
+    id: option.id,
+    label: option.label,
+    builtIn: true,
+    motion: PRESET_MOTION[option.id],
+  }),
+);
+
+export function motionFromPreset(animation: SceneAnimation): SceneMotion {
+  return cloneMotion(PRESET_MOTION[animation] ?? PRESET_MOTION.zoom);
+}
+
+export function cloneMotion(motion: SceneMotion): SceneMotion {
+  return structuredClone(motion);
+}
+
+export function evaluateLayerMotion(
+  animation: LayerAnimation,
+  progress: number,
+): LayerState {
+  const state = {} as LayerState;
+  for (const property of MOTION_PROPERTIES) {
+    state[property.id] = evaluateTrack(
+      animation[property.id],
+      progress,
+      property.fallback,
+    );
+  }
+  return state;
+}
+
+/**
+ * Rebuilds motion from untrusted input (project files, stored templates),
+ * dropping malformed keyframes. Falls back to `fallback` when the input is
+ * not motion at all.
+ */
+export function normalizeMotion(
+  input: unknown,
+  fallback: SceneMotion,
+): SceneMotion {
+  if (!input || typeof input !== "object") return cloneMotion(fallback);
+  const raw = input as Record<string, unknown>;
+
+  return {
+    accent: normalizeLayerAnimation(raw.accent),
+    text: normalizeLayerAnimation(raw.text),
+  };
+}
+
+export function normalizeLayerAnimation(input: unknown): LayerAnimation {
+  const animation: LayerAnimation = {};
+  if (!input || typeof input !== "object") return animation;
+
+  for (const property of MOTION_PROPERTIES) {
+    const track = normalizeTrack(
+      (input as Record<string, unknown>)[property.id],
+    );
+    if (track.length) {
+      animation[property.id] = track;
+    }
+  }
+  return animation;
+}
+
+function normalizeTrack(input: unknown): KeyframeTrack {
+  if (!Array.isArray(input)) return [];
+  return sortTrack(
+    input.flatMap((entry) => {
+      const keyframe = entry as Partial<Keyframe> | null;
+      if (
+        typeof keyframe?.time !== "number" ||
+        typeof keyframe.value !== "number" ||
+        !EASING_OPTIONS.some((option) => option.id === keyframe.easing?.type)
+      ) {
+        return [];
+      }
+      return [
+        {
+          time: keyframe.time,
+          value: keyframe.value,
+          easing: keyframe.easing as Easing,
+        },
+      ];
+    }),
+  );
+}
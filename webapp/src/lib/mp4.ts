@@ -0,0 +1,227 @@
+import type { EncodedTrack } from "@/lib/webcodecs";
+
+const MOVIE_TIMESCALE = 1000;
+const MAX_MDAT_BYTES = 0xffffffff - 8;
+
+/**
+ * Writes an H.264 track into a progressive MP4 with the `moov` box ahead of
+ * the media data, like ffmpeg's `+faststart`. Frames carry no B-frames, so
+ * decode order is presentation order and no composition offsets are needed.
+ */
+export function createMp4(track: EncodedTrack): Blob {
+  if (!track.description) {
+    throw new Error("H.264 tracks need an avcC record to be muxed.");
+  }
+  const mediaSize = track.samples.reduce(
+    (total, sample) => total + sample.data.length,
+    0,
+  );
+  if (mediaSize > MAX_MDAT_BYTES) {
+    throw new Error("The video is too large to mux in the browser.");
+  }
+
+  const ftyp = box(
+    "ftyp",
+    ascii("isom"),
+    uint32(0x200),
+    ascii("isom"),
+    ascii("iso2"),
+    ascii("avc1"),
+    ascii("mp41"),
+  );
+  // The chunk offset is a fixed-width field, so sizing moov with a
+  // placeholder gives the real offset.
+  const moovSize = buildMoov(track, 0).length;
+  const moov = buildMoov(track, ftyp.length + moovSize + 8);
+  const mdatHeader = concat(uint32(mediaSize + 8), ascii("mdat"));
+
+  return new Blob(
+    [
+      ftyp,
+      moov,
+      mdatHeader,
+      ...track.samples.map((sample) => copy(sample.data)),
+    ],
+    { type: "video/mp4" },
+  );
+}
+
+function buildMoov(track: EncodedTrack, chunkOffset: number) {
+  const { width, height, fps, samples } = track;
+  const timescale = fps * 1000;
+  const mediaDuration = samples.length * 1000;
+  const movieDuration = Math.round((samples.length * MOVIE_TIMESCALE) / fps);
+
+  const mvhd = fullBox(
+    "mvhd",
+    0,
+    0,
+    uint32(0),
+    uint32(0),
+    uint32(MOVIE_TIMESCALE),
+    uint32(movieDuration),
+    uint32(0x00010000),
+    uint16(0x0100),
+    zeros(10),
+    matrix(),
+    zeros(24),
+    uint32(2),
+  );
+  const tkhd = fullBox(
+    "tkhd",
+    0,
+    3,
+    uint32(0),
+    uint32(0),
+    uint32(1),
+    zeros(4),
+    uint32(movieDuration),
+    zeros(8),
+    uint16(0),
+    uint16(0),
+    uint16(0),
+    zeros(2),
+    matrix(),
+    uint32(width * 0x10000),
+    uint32(height * 0x10000),
+  );
+  const mdhd = fullBox(
+    "mdhd",
+    0,
+    0,
+    uint32(0),
+    uint32(0),
+    uint32(timescale),
+    uint32(mediaDuration),
+    // "und", packed as three 5-bit letters.
+    uint16(0x55c4),
+    uint16(0),
+  );
+  const hdlr = fullBox(
+    "hdlr",
+    0,
+    0,
+    uint32(0),
+    ascii("vide"),
+    zeros(12),
+    ascii("VideoHandler\0"),
+  );
+
+  const compressorName = zeros(32);
+  const avc1 = box(
+    "avc1",
+    zeros(6),
+    uint16(1),
+    zeros(16),
+    uint16(width),
+    uint16(height),
+    uint32(0x00480000),
+    uint32(0x00480000),
+    uint32(0),
+    uint16(1),
+    compressorName,
+    uint16(0x18),
+    uint16(0xffff),
+    box("avcC", track.description ?? new Uint8Array()),
+  );
+  const keyFrames = samples.flatMap((sample, index) =>
+    sample.keyFrame ? [index + 1] : [],
+  );
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, uint32(1), avc1),
+    fullBox("stts", 0, 0, uint32(1), uint32(samples.length), uint32(1000)),
+    fullBox(
+      "stss",
+      0,
+      0,
+      uint32(keyFrames.length),
+      ...keyFrames.map((index) => uint32(index)),
+    ),
+    fullBox(
+      "stsc",
+      0,
+      0,
+      uint32(1),
+      uint32(1),
+      uint32(samples.length),
+      uint32(1),
+    ),
+    fullBox(
+      "stsz",
+      0,
+      0,
+      uint32(0),
+      uint32(samples.length),
+      ...samples.map((sample) => uint32(sample.data.length)),
+    ),
+    fullBox("stco", 0, 0, uint32(1), uint32(chunkOffset)),
+  );
+  const minf = box(
+    "minf",
+    fullBox("vmhd", 0, 1, zeros(8)),
+    box("dinf", fullBox("dref", 0, 0, uint32(1), fullBox("url ", 0, 1))),
+    stbl,
+  );
+
+  return box("moov", mvhd, box("trak", tkhd, box("mdia", mdhd, hdlr, minf)));
+}
+
+function box(type: string, ...payload: Uint8Array[]) {
+  const body = concat(...payload);
+  return concat(uint32(body.length + 8), ascii(type), body);
+}
+
+function fullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...payload: Uint8Array[]
+) {
+  return box(type, uint32((version << 24) | flags), ...payload);
+}
+
+/** The identity transform every track and movie header carries. */
+function matrix() {
+  return concat(
+    ...[0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32),
+  );
+}
+
+function uint32(value: number) {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function uint16(value: number) {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+}
+
+function zeros(length: number) {
+  return new Uint8Array(length);
+}
+
+function ascii(text: string) {
+  return Uint8Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function copy(data: Uint8Array) {
+  const bytes = new Uint8Array(data.length);
+  bytes.set(data);
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]) {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
@@ -0,0 +1,110 @@
+import { clamp } from "@/lib/easing";
+
+export type OutputProfile = {
+  width: number;
+  height: number;
+  fps: number;
+};
+
+export type OutputPreset = {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+};
+
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  { id: "hd", label: "HD 720p", width: 1280, height: 720 },
+  { id: "youtube", label: "YouTube 1080p", width: 1920, height: 1080 },
+  { id: "reels", label: "Reels / Shorts", width: 1080, height: 1920 },
+  { id: "square", label: "Square Feed", width: 1080, height: 1080 },
+  { id: "portrait", label: "Portrait 4:5", width: 1080, height: 1350 },
+];
+
+export const FPS_OPTIONS = [24, 25, 30, 60];
+
+export const MIN_DIMENSION = 240;
+export const MAX_DIMENSION = 3840;
+
+export const DEFAULT_OUTPUT: OutputProfile = {
+  width: 1280,
+  height: 720,
+  fps: 24,
+};
+
+/** The design resolution every layout measurement was originally tuned for. */
+const REFERENCE_WIDTH = 1280;
+const REFERENCE_HEIGHT = 720;
+
+export type FrameLayout = {
+  width: number;
+  height: number;
+  /** Multiplier applied to sizes that were designed for 1280×720. */
+  scale: number;
+  padding: number;
+  /** Top edge of the text block. */
+  top: number;
+  textWidth: number;
+};
+
+export function findOutputPreset(
+  profile: Pick<OutputProfile, "width" | "height">,
+) {
+  return OUTPUT_PRESETS.find(
+    (preset) =>
+      preset.width === profile.width && preset.height === profile.height,
+  );
+}
+
+/**
+ * Clamps dimensions to the supported range and rounds them to even numbers,
+ * which yuv420p encoders require.
+ */
+export function normalizeOutput(
+  profile: Partial<OutputProfile>,
+): OutputProfile {
+  const even = (value: number | undefined, fallback: number) =>
+    Math.round(
+      clamp(
+        Number.isFinite(value) ? Number(value) : fallback,
+        MIN_DIMENSION,
+        MAX_DIMENSION,
+      ) / 2,
+    ) * 2;
+
+  return {
+    width: even(profile.width, DEFAULT_OUTPUT.width),
+    height: even(profile.height, DEFAULT_OUTPUT.height),
+    fps: clamp(
+      Math.round(
+        Number.isFinite(profile.fps) ? Number(profile.fps) : DEFAULT_OUTPUT.fps,
+      ),
+      1,
+      60,
+    ),
+  };
+}
+
+/**
+ * Fits the original 16:9 design into any frame. Sizes scale with the
+ * limiting dimension and, on frames taller than 16:9, the text block is
+ * anchored inside a vertically centred 16:9 safe area. At 1280×720 every
+ * value matches the original fixed layout.
+ */
+export function computeFrameLayout(width: number, height: number): FrameLayout {
+  const scale = Math.min(width / REFERENCE_WIDTH, height / REFERENCE_HEIGHT);
+  const padding = Math.round(120 * scale);
+  const safeHeight = Math.min(
+    height,
+    (width * REFERENCE_HEIGHT) / REFERENCE_WIDTH,
+  );
+
+  return {
+    width,
+    height,
+    scale,
+    padding,
+    top: (height - safeHeight) / 2 + padding,
+    textWidth: width - padding * 2,
+  };
+}
@@ -0,0 +1,97 @@
+/** One page holding a single full-bleed JPEG. */
+export type PdfPage = {
+  jpeg: Uint8Array;
+  /** Pixel size of the JPEG. */
+  width: number;
+  height: number;
+};
+
+/** Pixels are laid out at 96 dpi; PDF user space is 72 units per inch. */
+const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Writes a PDF with one image per page. JPEGs embed as-is through the
+ * DCTDecode filter, so pages cost no more than the images themselves.
+ */
+export function createPdf(pages: PdfPage[], title = ""): Blob {
+  if (!pages.length) {
+    throw new Error("A PDF needs at least one page.");
+  }
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(new Uint8Array(bytes));
+    length += bytes.length;
+  };
+  const object = (id: number, ...body: (string | Uint8Array)[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    body.forEach(write);
+    write("\nendobj\n");
+  };
+
+  // Objects 1–3 are the catalog, page tree and info; each page then takes
+  // three: the page, its content stream and its image.
+  const pageId = (index: number) => 4 + index * 3;
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(
+    2,
+    `<< /Type /Pages /Count ${pages.length} /Kids [${pages
+      .map((_, index) => `${pageId(index)} 0 R`)
+      .join(" ")}] >>`,
+  );
+  object(
+    3,
+    `<< /Title ${pdfString(title)} /Producer (agentic-motion-studio) >>`,
+  );
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = round(page.width * POINTS_PER_PIXEL);
+    const height = round(page.height * POINTS_PER_PIXEL);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`,
+    );
+    object(
+      id + 1,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      "\nendstream",
+    );
+  });
+
+  const count = offsets.length;
+  const xref = length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id += 1) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`,
+  );
+
+  return new Blob(chunks, { type: "application/pdf" });
+}
+
+/** A literal string, limited to printable ASCII so no encoding is needed. */
+function pdfString(value: string) {
+  const printable = value.replace(/[^\x20-\x7e]/g, "?");
+  return `(${printable.replace(/[\\()]/g, (character) => `\\${character}`)})`;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,358 @@
+import {
+  createProject,
+  deserializeProject,
+  serializeProject,
+  summarizeProject,
+  type Project,
+  type ProjectDocument,
+  type ProjectSummary,
+} from "@/lib/project";
+import {
+  deserializeBrandKit,
+  normalizeBrandKit,
+  serializeBrandKit,
+  type BrandKit,
+} from "@/lib/brand";
+import {
+  BUILT_IN_TEMPLATES,
+  motionFromPreset,
+  normalizeMotion,
+  type MotionTemplate,
+} from "@/lib/motion";
+import { normalizeReviewComments, type ReviewComment } from "@/lib/review";
+import type { StoryboardTemplate } from "@/lib/storyboard-templates";
+
+const DB_NAME = "agentic-motion-studio";
+const DB_VERSION = 6;
+const PROJECT_STORE = "projects";
+const TEMPLATE_STORE = "motion-templates";
+const BRAND_KIT_STORE = "brand-kits";
+const STORYBOARD_STORE = "storyboard-templates";
+const RENDER_CACHE_STORE = "render-segments";
+const REVIEW_STORE = "review-comments";
+const MAX_RECENT_PROJECTS = 12;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available."));
+  }
+
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(PROJECT_STORE)) {
+        const store = database.createObjectStore(PROJECT_STORE, {
+          keyPath: "id",
+        });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!database.objectStoreNames.contains(TEMPLATE_STORE)) {
+        database.createObjectStore(TEMPLATE_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(BRAND_KIT_STORE)) {
+        database.createObjectStore(BRAND_KIT_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(STORYBOARD_STORE)) {
+        database.createObjectStore(STORYBOARD_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(RENDER_CACHE_STORE)) {
+        database.createObjectStore(RENDER_CACHE_STORE, { keyPath: "hash" });
+      }
+      if (!database.objectStoreNames.contains(REVIEW_STORE)) {
+        database.createObjectStore(REVIEW_STORE, { keyPath: "projectId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error ?? new Error("Unable to open project storage."));
+    };
+  });
+
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = PROJECT_STORE,
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    // A failed commit, e.g. over quota, only fires `abort`.
+    transaction.onerror = transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Project storage failed."));
+  });
+}
+
+export async function saveProject(project: Project) {
+  const document = await serializeProject(project);
+  await withStore("readwrite", (store) => store.put(document));
+}
+
+export async function loadProject(id: string): Promise<Project | null> {
+  const document = await withStore<ProjectDocument | undefined>(
+    "readonly",
+    (store) => store.get(id),
+  );
+  return document ? deserializeProject(document) : null;
+}
+
+export async function deleteProject(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+/**
+ * The most recently edited projects, newest first. Walks the `updatedAt`
+ * index backwards so only the listed documents, media and all, are read.
+ */
+export async function listRecentProjects(): Promise<ProjectSummary[]> {
+  const database = await openDatabase();
+  return new Promise<ProjectSummary[]>((resolve, reject) => {
+    const transaction = database.transaction(PROJECT_STORE, "readonly");
+    const request = transaction
+      .objectStore(PROJECT_STORE)
+      .index("updatedAt")
+      .openCursor(null, "prev");
+    const summaries: ProjectSummary[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      summaries.push(summarizeProject(cursor.value as ProjectDocument));
+      if (summaries.length < MAX_RECENT_PROJECTS) cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(summaries);
+    transaction.onerror = transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Project storage failed."));
+  });
+}
+
+/** User-saved motion templates, shared by every project in this browser. */
+export async function listMotionTemplates(): Promise<MotionTemplate[]> {
+  const templates = await withStore<unknown[]>(
+    "readonly",
+    (store) => store.getAll(),
+    TEMPLATE_STORE,
+  );
+  return templates.flatMap((entry) => {
+    const template = entry as Partial<MotionTemplate>;
+    if (typeof template.id !== "string" || typeof template.label !== "string") {
+      return [];
+    }
+    return [
+      {
+        id: template.id,
+        label: template.label,
+        builtIn: false,
+        motion: normalizeMotion(template.motion, motionFromPreset("zoom")),
+      },
+    ];
+  });
+}
+
+export async function saveMotionTemplate(template: MotionTemplate) {
+  if (BUILT_IN_TEMPLATES.some((entry) => entry.id === template.id)) {
+    throw new Error("Built-in templates cannot be overwritten.");
+  }
+  await withStore(
+    "readwrite",
+    (store) => store.put({ ...template, builtIn: false }),
+    TEMPLATE_STORE,
+  );
+}
+
+export async function deleteMotionTemplate(id: string) {
+  await withStore("readwrite", (store) => store.delete(id), TEMPLATE_STORE);
+}
+
+/** Brand kits available to every project in this browser. */
+export async function listBrandKits(): Promise<BrandKit[]> {
+  const documents = await withStore<unknown[]>(
+    "readonly",
+    (store) => store.getAll(),
+    BRAND_KIT_STORE,
+  );
+  const kits = await Promise.all(
+    documents.map(async (entry) => {
+      try {
+        return [await deserializeBrandKit(normalizeBrandKit(entry))];
+      } catch {
+        return [];
+      }
+    }),
+  );
+  return kits.flat().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveBrandKit(kit: BrandKit) {
+  const document = await serializeBrandKit(kit);
+  await withStore("readwrite", (store) => store.put(document), BRAND_KIT_STORE);
+}
+
+export async function deleteBrandKit(id: string) {
+  await withStore("readwrite", (store) => store.delete(id), BRAND_KIT_STORE);
+}
+
+/**
+ * Storyboard templates the user saved. Each is stored as a project document
+ * so scene assets go through the same serialization as projects.
+ */
+export async function listStoryboardTemplates(): Promise<StoryboardTemplate[]> {
+  const documents = await withStore<unknown[]>(
+    "readonly",
+    (store) => store.getAll(),
+    STORYBOARD_STORE,
+  );
+  const templates = await Promise.all(
+    documents.map(async (entry) => {
+      try {
+        const project = await deserializeProject(entry);
+        const { description } = entry as { description?: unknown };
+        return [
+          {
+            id: project.id,
+            name: project.name,
+            description: typeof description === "string" ? description : "",
+            builtIn: false,
+            scenes: project.scenes,
+            gradients: project.gradients,
+            fonts: project.fonts,
+            settings: project.settings,
+          },
+        ];
+      } catch {
+        return [];
+      }
+    }),
+  );
+  return templates.flat().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveStoryboardTemplate(template: StoryboardTemplate) {
+  if (template.builtIn || !template.settings) {
+    throw new Error("Built-in templates cannot be overwritten.");
+  }
+  const document = await serializeProject({
+    ...createProject(template.settings, template.name),
+    id: template.id,
+    scenes: template.scenes,
+    gradients: template.gradients,
+    fonts: template.fonts,
+  });
+  await withStore(
+    "readwrite",
+    (store) => store.put({ ...document, description: template.description }),
+    STORYBOARD_STORE,
+  );
+}
+
+export async function deleteStoryboardTemplate(id: string) {
+  await withStore("readwrite", (store) => store.delete(id), STORYBOARD_STORE);
+}
+
+/** An encoded scene segment, keyed by the hash of everything it depends on. */
+type CachedSegment = {
+  hash: string;
+  blob: Blob;
+  size: number;
+  usedAt: number;
+};
+
+/** The cached segment for `hash`, marked as just used. */
+export async function loadRenderSegment(hash: string): Promise<Blob | null> {
+  const entry = await withStore<CachedSegment | undefined>(
+    "readonly",
+    (store) => store.get(hash),
+    RENDER_CACHE_STORE,
+  );
+  if (!entry) return null;
+  await withStore(
+    "readwrite",
+    (store) => store.put({ ...entry, usedAt: Date.now() }),
+    RENDER_CACHE_STORE,
+  );
+  return entry.blob;
+}
+
+/**
+ * Caches an encoded segment, first evicting least recently used ones so
+ * the cache stays within `limit` with it added.
+ */
+export async function saveRenderSegment(
+  hash: string,
+  blob: Blob,
+  limit: number,
+) {
+  if (blob.size > limit) return;
+  await trimRenderCache(limit - blob.size);
+  const entry: CachedSegment = {
+    hash,
+    blob,
+    size: blob.size,
+    usedAt: Date.now(),
+  };
+  await withStore("readwrite", (store) => store.put(entry), RENDER_CACHE_STORE);
+}
+
+/** Total bytes of encoded segments in the render cache. */
+export async function getRenderCacheSize() {
+  const entries = await withStore<CachedSegment[]>(
+    "readonly",
+    (store) => store.getAll(),
+    RENDER_CACHE_STORE,
+  );
+  return entries.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/** Evicts the least recently used segments until the cache fits `limit`. */
+export async function trimRenderCache(limit: number) {
+  const entries = await withStore<CachedSegment[]>(
+    "readonly",
+    (store) => store.getAll(),
+    RENDER_CACHE_STORE,
+  );
+  let size = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries.sort((a, b) => a.usedAt - b.usedAt)) {
+    if (size <= limit) break;
+    await withStore(
+      "readwrite",
+      (store) => store.delete(entry.hash),
+      RENDER_CACHE_STORE,
+    );
+    size -= entry.size;
+  }
+}
+
+export async function clearRenderCache() {
+  await withStore("readwrite", (store) => store.clear(), RENDER_CACHE_STORE);
+}
+
+/**
+ * Comments a reviewer has left on a shared project, kept apart from the
+ * author's own projects so reviewing never touches them.
+ */
+export async function loadReviewComments(
+  projectId: string,
+): Promise<ReviewComment[]> {
+  const entry = await withStore<
+    { projectId: string; comments: unknown } | undefined
+  >("readonly", (store) => store.get(projectId), REVIEW_STORE);
+  return normalizeReviewComments(entry?.comments);
+}
+
+export async function saveReviewComments(
+  projectId: string,
+  comments: ReviewComment[],
+) {
+  await withStore(
+    "readwrite",
+    (store) => store.put({ projectId, comments }),
+    REVIEW_STORE,
+  );
+}
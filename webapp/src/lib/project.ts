@@ -0,0 +1,505 @@
+import { nanoid } from "nanoid";
+import {
+  normalizeSoundtrack,
+  normalizeVoiceOver,
+  type AudioAsset,
+  type Soundtrack,
+  type VoiceOver,
+} from "@/lib/audio";
+import {
+  deserializeAsset,
+  downloadBlob,
+  normalizeSerializedAsset,
+  serializeAsset,
+  slugify,
+  type SerializedAsset,
+} from "@/lib/assets";
+import {
+  DEFAULT_TRANSITION,
+  MAX_TRANSITION,
+  TRANSITION_OPTIONS,
+  type TransitionType,
+} from "@/lib/transitions";
+import { normalizeCaptionCues } from "@/lib/captions";
+import { clamp } from "@/lib/easing";
+import {
+  normalizeExportSettings,
+  type ExportSettings,
+} from "@/lib/export-formats";
+import type { SceneAnimation } from "@/lib/animation";
+import {
+  normalizeBackground,
+  normalizeGradients,
+  type CustomGradient,
+  type SceneBackground,
+  type VideoAsset,
+} from "@/lib/backgrounds";
+import {
+  deserializeBrandKit,
+  normalizeBrandKit,
+  serializeBrandKit,
+  type BrandKit,
+  type SerializedBrandKit,
+} from "@/lib/brand";
+import {
+  createDefaultLayers,
+  normalizeLayers,
+  type ImageAsset,
+  type SceneLayer,
+} from "@/lib/layers";
+import { motionFromPreset, normalizeMotion } from "@/lib/motion";
+import { DEFAULT_OUTPUT } from "@/lib/output";
+import { normalizeReviewComments, type ReviewComment } from "@/lib/review";
+import {
+  MAX_DURATION,
+  MAX_SCENES,
+  MIN_DURATION,
+  buildInitialScenes,
+  type Scene,
+} from "@/lib/scene";
+import type { FontAsset } from "@/lib/fonts";
+import { normalizeTypography } from "@/lib/typography";
+
+export const PROJECT_FORMAT = "agentic-motion-studio";
+export const PROJECT_VERSION = 4;
+
+export type ProjectSettings = {
+  canvas: { width: number; height: number };
+  render: { fps: number; export: ExportSettings };
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  scenes: Scene[];
+  soundtrack: Soundtrack | null;
+  /** Uploaded fonts the scenes' typography can use. */
+  fonts: FontAsset[];
+  /** Gradients created in this project, selectable like built-in ones. */
+  gradients: CustomGradient[];
+  /** Copy of the brand kit selected for this project. */
+  brandKit: BrandKit | null;
+  /** Review comments imported from reviewers or left by the author. */
+  comments: ReviewComment[];
+  settings: ProjectSettings;
+};
+
+type SerializedScene = Omit<Scene, "voiceOver" | "layers" | "background"> & {
+  voiceOver?: VoiceOver<SerializedAsset<AudioAsset>>;
+  layers: SceneLayer<SerializedAsset<ImageAsset>>[];
+  background: SceneBackground<
+    SerializedAsset<ImageAsset>,
+    SerializedAsset<VideoAsset>
+  >;
+};
+
+export type ProjectDocument = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  scenes: SerializedScene[];
+  soundtrack: Soundtrack<SerializedAsset<AudioAsset>> | null;
+  fonts: SerializedAsset<FontAsset>[];
+  gradients: CustomGradient[];
+  brandKit: SerializedBrandKit | null;
+  comments: ReviewComment[];
+  canvas: ProjectSettings["canvas"];
+  render: ProjectSettings["render"];
+};
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  updatedAt: string;
+  sceneCount: number;
+};
+
+type RawDocument = Record<string, unknown>;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Each entry upgrades a document from `version` to `version + 1`. Add a new
+ * entry (and bump PROJECT_VERSION) whenever the saved shape changes; fields
+ * that can simply default are filled in by `normalizeScene` instead.
+ */
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  // v1 predates scene transitions and audio.
+  1: (document) => ({
+    ...document,
+    scenes: asArray(document.scenes).map((scene, index) => ({
+      ...asRecord(scene),
+      transition: {
+        ...DEFAULT_TRANSITION,
+        type: index === 0 ? "cut" : DEFAULT_TRANSITION.type,
+      },
+    })),
+    soundtrack: null,
+  }),
+  // v2 stored a preset name instead of keyframe tracks.
+  2: (document) => ({
+    ...document,
+    scenes: asArray(document.scenes).map((scene) => {
+      const { animation, ...rest } = asRecord(scene);
+      const preset = asString(animation, "zoom") as SceneAnimation;
+      return {
+        ...rest,
+        motion: motionFromPreset(preset),
+        motionTemplate: preset,
+      };
+    }),
+  }),
+  // v3 kept one motion per scene; v4 moves it onto the built-in layers.
+  3: (document) => ({
+    ...document,
+    scenes: asArray(document.scenes).map((scene) => {
+      const { motion, ...rest } = asRecord(scene);
+      return {
+        ...rest,
+        layers: createDefaultLayers(
+          normalizeMotion(motion, motionFromPreset("zoom")),
+        ),
+      };
+    }),
+  }),
+};
+
+export function createProject(
+  settings: ProjectSettings,
+  name = "Untitled storyboard",
+): Project {
+  const now = new Date().toISOString();
+  return {
+    id: nanoid(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    scenes: buildInitialScenes(),
+    soundtrack: null,
+    fonts: [],
+    gradients: [],
+    brandKit: null,
+    comments: [],
+    settings,
+  };
+}
+
+export function summarizeProject(document: ProjectDocument): ProjectSummary {
+  return {
+    id: document.id,
+    name: document.name,
+    updatedAt: document.updatedAt,
+    sceneCount: document.scenes.length,
+  };
+}
+
+export async function serializeProject(
+  project: Project,
+): Promise<ProjectDocument> {
+  const scenes = await Promise.all(project.scenes.map(serializeScene));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    scenes,
+    soundtrack: project.soundtrack
+      ? {
+          ...project.soundtrack,
+          asset: await serializeAsset(project.soundtrack.asset),
+        }
+      : null,
+    fonts: await Promise.all(project.fonts.map(serializeAsset)),
+    gradients: project.gradients,
+    brandKit: project.brandKit
+      ? await serializeBrandKit(project.brandKit)
+      : null,
+    comments: project.comments,
+    canvas: project.settings.canvas,
+    render: project.settings.render,
+  };
+}
+
+/**
+ * Validates and upgrades a parsed project file to the current schema.
+ * Throws with a readable message when the input is not a project; what
+ * had to be dropped to open it is added to `warnings`.
+ */
+export function migrateProjectDocument(
+  input: unknown,
+  warnings: string[] = [],
+): ProjectDocument {
+  const raw = asRecord(input);
+  if (raw.format !== PROJECT_FORMAT) {
+    throw new Error("This file is not an Agentic Motion Studio project.");
+  }
+
+  let version = typeof raw.version === "number" ? raw.version : 1;
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version (v${version}). Update the app to open it.`,
+    );
+  }
+
+  let document = raw;
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from project v${version}.`);
+    }
+    document = migrate(document);
+    version += 1;
+  }
+
+  const rawScenes = asArray(document.scenes);
+  if (!rawScenes.length) {
+    throw new Error("The project does not contain any scenes.");
+  }
+  if (rawScenes.length > MAX_SCENES) {
+    warnings.push(
+      `Only the first ${MAX_SCENES} of ${rawScenes.length} scenes were opened.`,
+    );
+  }
+  const scenes = rawScenes.slice(0, MAX_SCENES).map(normalizeScene);
+
+  const now = new Date().toISOString();
+  const canvas = asRecord(document.canvas);
+  const render = asRecord(document.render);
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    id: asString(document.id, nanoid()),
+    name: asString(document.name, "Untitled storyboard"),
+    createdAt: asString(document.createdAt, now),
+    updatedAt: asString(document.updatedAt, now),
+    scenes,
+    soundtrack: normalizeSoundtrack(document.soundtrack, readAudio),
+    fonts: asArray(document.fonts).flatMap((entry) => {
+      const font = normalizeSerializedAsset<FontAsset>(entry, {
+        text: ["family"],
+      });
+      return font ? [font] : [];
+    }),
+    gradients: normalizeGradients(document.gradients),
+    brandKit: document.brandKit
+      ? normalizeProjectBrandKit(document.brandKit)
+      : null,
+    comments: normalizeReviewComments(document.comments),
+    canvas: {
+      width: asNumber(canvas.width, DEFAULT_OUTPUT.width),
+      height: asNumber(canvas.height, DEFAULT_OUTPUT.height),
+    },
+    render: {
+      fps: asNumber(render.fps, DEFAULT_OUTPUT.fps),
+      export: normalizeExportSettings(render.export),
+    },
+  };
+}
+
+export async function deserializeProject(
+  input: unknown,
+  warnings?: string[],
+): Promise<Project> {
+  const document = migrateProjectDocument(input, warnings);
+
+  const scenes = await Promise.all(document.scenes.map(deserializeScene));
+
+  return {
+    id: document.id,
+    name: document.name,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+    scenes,
+    soundtrack: document.soundtrack
+      ? {
+          ...document.soundtrack,
+          asset: await deserializeAsset(document.soundtrack.asset),
+        }
+      : null,
+    fonts: await Promise.all(
+      document.fonts.map((font) => deserializeAsset<FontAsset>(font)),
+    ),
+    gradients: document.gradients,
+    brandKit: document.brandKit
+      ? await deserializeBrandKit(document.brandKit)
+      : null,
+    comments: document.comments,
+    settings: { canvas: document.canvas, render: document.render },
+  };
+}
+
+export async function readProjectFile(
+  file: File,
+  warnings?: string[],
+): Promise<Project> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not valid JSON.`);
+  }
+  return deserializeProject(parsed, warnings);
+}
+
+export async function downloadProjectFile(project: Project) {
+  const document = await serializeProject(project);
+  const blob = new Blob([JSON.stringify(document, null, 2)], {
+    type: "application/json",
+  });
+  downloadBlob(blob, `${slugify(project.name) || "storyboard"}.json`);
+}
+
+// A damaged kit should not keep the rest of the project from opening.
+function normalizeProjectBrandKit(input: unknown) {
+  try {
+    return normalizeBrandKit(input);
+  } catch {
+    return null;
+  }
+}
+
+const readImage = (input: unknown) =>
+  normalizeSerializedAsset<ImageAsset>(input, { sizes: ["width", "height"] });
+const readVideo = (input: unknown) =>
+  normalizeSerializedAsset<VideoAsset>(input, {
+    sizes: ["width", "height", "duration"],
+  });
+const readAudio = (input: unknown) =>
+  normalizeSerializedAsset<AudioAsset>(input, { sizes: ["duration"] });
+
+function normalizeScene(input: unknown, index: number): SerializedScene {
+  const scene = asRecord(input);
+  const transition = asRecord(scene.transition);
+  const voiceOver = normalizeVoiceOver(scene.voiceOver, readAudio);
+
+  return {
+    id: asString(scene.id, nanoid()),
+    title: asString(scene.title, ""),
+    description: asString(scene.description, ""),
+    duration: clamp(asNumber(scene.duration, 3), MIN_DURATION, MAX_DURATION),
+    gradientId: asString(scene.gradientId, "aurora"),
+    textColor: asString(scene.textColor, "#f8fafc"),
+    accent: asString(scene.accent, "#facc15"),
+    typography: normalizeTypography(scene.typography),
+    background: normalizeBackground(scene.background, {
+      image: readImage,
+      video: readVideo,
+    }),
+    layers: normalizeLayers(scene.layers, motionFromPreset("zoom"), readImage),
+    motionTemplate:
+      typeof scene.motionTemplate === "string" ? scene.motionTemplate : null,
+    chapter: typeof scene.chapter === "string" ? scene.chapter : undefined,
+    captions:
+      scene.captions === undefined
+        ? undefined
+        : normalizeCaptionCues(scene.captions),
+    transition: {
+      type: TRANSITION_OPTIONS.some((option) => option.id === transition.type)
+        ? (transition.type as TransitionType)
+        : index === 0
+          ? "cut"
+          : DEFAULT_TRANSITION.type,
+      duration: clamp(
+        asNumber(transition.duration, DEFAULT_TRANSITION.duration),
+        0,
+        MAX_TRANSITION,
+      ),
+      color:
+        typeof transition.color === "string" && HEX_COLOR.test(transition.color)
+          ? transition.color
+          : DEFAULT_TRANSITION.color,
+    },
+    ...(voiceOver && { voiceOver }),
+  };
+}
+
+async function serializeScene({
+  voiceOver,
+  layers,
+  background,
+  ...scene
+}: Scene): Promise<SerializedScene> {
+  return {
+    ...scene,
+    background:
+      background.kind === "image"
+        ? { ...background, asset: await serializeAsset(background.asset) }
+        : background.kind === "video"
+          ? { ...background, asset: await serializeAsset(background.asset) }
+          : background,
+    layers: await Promise.all(
+      layers.map(async (layer) =>
+        layer.kind === "image"
+          ? { ...layer, asset: await serializeAsset(layer.asset) }
+          : layer,
+      ),
+    ),
+    ...(voiceOver && {
+      voiceOver: {
+        ...voiceOver,
+        asset: await serializeAsset(voiceOver.asset),
+      },
+    }),
+  };
+}
+
+async function deserializeScene({
+  voiceOver,
+  layers,
+  background,
+  ...scene
+}: SerializedScene): Promise<Scene> {
+  return {
+    ...scene,
+    background:
+      background.kind === "image"
+        ? {
+            ...background,
+            asset: await deserializeAsset<ImageAsset>(background.asset),
+          }
+        : background.kind === "video"
+          ? {
+              ...background,
+              asset: await deserializeAsset<VideoAsset>(background.asset),
+            }
+          : background,
+    layers: await Promise.all(
+      layers.map(async (layer) =>
+        layer.kind === "image"
+          ? { ...layer, asset: await deserializeAsset(layer.asset) }
+          : layer,
+      ),
+    ),
+    ...(voiceOver && {
+      voiceOver: {
+        ...voiceOver,
+        asset: await deserializeAsset(voiceOver.asset),
+      },
+    }),
+  };
+}
+
+function asRecord(value: unknown): RawDocument {
+  return value && typeof value === "object" ? (value as RawDocument) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown, fallback: string) {
+  return typeof value === "string" ? value : fallback;
+}
+
+function asNumber(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
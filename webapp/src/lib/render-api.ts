@@ -0,0 +1,103 @@
+import type { RenderStats, Stage } from "@/lib/export";
+import type { ExportFormat } from "@/lib/export-formats";
+import { serializeProject, type Project } from "@/lib/project";
+
+export type RenderJobStatus =
+  "queued" | "running" | "done" | "failed" | "cancelled";
+
+/** What `/api/render/[id]` reports about a server render. */
+export type RenderJobSummary = {
+  id: string;
+  status: RenderJobStatus;
+  /** Same stages as `synthesizeVideo`'s `onStage`; null while queued. */
+  stage: Stage | null;
+  progress: number;
+  stats?: RenderStats;
+  /** Jobs ahead of this one; 0 once it runs. */
+  position: number;
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  error?: string;
+  createdAt: string;
+};
+
+const POLL_INTERVAL = 1000;
+
+/**
+ * Whether the app's server can render. False when it lacks the native
+ * canvas, or when there is no server to ask, e.g. a static export.
+ */
+export async function checkServerRender(): Promise<boolean> {
+  try {
+    const response = await fetch("/api/render");
+    const body = (await response.json()) as { available?: unknown };
+    return response.ok && body.available === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders the project on the server: uploads it to `/api/render`, polls the
+ * job and downloads the result. Aborting cancels the server job too.
+ */
+export async function renderOnServer(
+  project: Project,
+  options: {
+    signal?: AbortSignal;
+    onStage?: (stage: Stage, progress: number, stats?: RenderStats) => void;
+  } = {},
+): Promise<Blob> {
+  const { signal } = options;
+  const onStage = options.onStage ?? (() => undefined);
+
+  const created = await fetch("/api/render", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(await serializeProject(project)),
+    signal,
+  });
+  let job = await readJob(created);
+
+  const cancel = () => {
+    void fetch(`/api/render/${job.id}`, { method: "DELETE" }).catch(
+      () => undefined,
+    );
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    while (job.status === "queued" || job.status === "running") {
+      if (job.stage) onStage(job.stage, job.progress, job.stats);
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+      signal?.throwIfAborted();
+      job = await readJob(await fetch(`/api/render/${job.id}`, { signal }));
+    }
+    if (job.status !== "done") {
+      throw new Error(job.error ?? "The server render was cancelled.");
+    }
+
+    const download = await fetch(`/api/render/${job.id}/download`, {
+      signal,
+    });
+    if (!download.ok) {
+      throw new Error("Unable to download the rendered video.");
+    }
+    onStage("muxing", 1);
+    return await download.blob();
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+async function readJob(response: Response): Promise<RenderJobSummary> {
+  const body = (await response.json().catch(() => null)) as
+    (RenderJobSummary & { error?: string }) | null;
+  if (!response.ok || !body) {
+    throw new Error(
+      body?.error ?? `The render server replied ${response.status}.`,
+    );
+  }
+  return body;
+}
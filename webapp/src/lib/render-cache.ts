@@ -0,0 +1,175 @@
+import { resolveGradient, type CustomGradient } from "@/lib/backgrounds";
+import type { ResolvedWatermark } from "@/lib/brand";
+import type { ExportSettings } from "@/lib/export-formats";
+import type { FontAsset } from "@/lib/fonts";
+import type { Scene } from "@/lib/scene";
+import type { BurnedCaptions } from "@/lib/scene-draw";
+import type { SceneTiming } from "@/lib/transitions";
+
+/**
+ * Part of every segment hash. Bump it when a change to the drawing or
+ * encoding code alters frames, so stale segments stop matching.
+ */
+const CACHE_VERSION = 1;
+
+/** Bytes of encoded segments kept across sessions before evicting. */
+export const RENDER_CACHE_LIMIT = 512 * 1024 * 1024;
+
+/**
+ * The frames from one scene's start up to the next scene's start. That
+ * covers the transition into the scene, so a segment depends on its own
+ * scene and, while they overlap, the one before it.
+ */
+export type RenderSegment = {
+  /** Index of the scene the segment belongs to. */
+  scene: number;
+  startFrame: number;
+  frameCount: number;
+  /** SHA-256 of everything the segment's frames depend on. */
+  hash: string;
+};
+
+/** Everything outside the scenes that changes rendered frames. */
+export type SegmentContext = {
+  width: number;
+  height: number;
+  fps: number;
+  exportSettings: ExportSettings;
+  transparent: boolean;
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  watermark: ResolvedWatermark | null;
+  captions: BurnedCaptions | null;
+};
+
+/** Hashing needs SubtleCrypto, which browsers only offer to secure pages. */
+export function supportsRenderCache() {
+  return (
+    typeof indexedDB !== "undefined" &&
+    typeof crypto !== "undefined" &&
+    Boolean(crypto.subtle)
+  );
+}
+
+export async function planRenderSegments(
+  scenes: Scene[],
+  timings: SceneTiming[],
+  totalFrames: number,
+  context: SegmentContext,
+): Promise<RenderSegment[]> {
+  const { fps, exportSettings } = context;
+  const starts = timings.map((timing, index) =>
+    index === 0
+      ? 0
+      : Math.min(totalFrames, Math.ceil(roundTime(timing.start * fps))),
+  );
+  const shared = {
+    version: CACHE_VERSION,
+    width: context.width,
+    height: context.height,
+    fps,
+    transparent: context.transparent,
+    format: exportSettings.format,
+    encoder:
+      exportSettings.format === "png-zip"
+        ? null
+        : exportSettings[exportSettings.format],
+    fonts: context.fonts.map(({ id, family, blob }) => ({ id, family, blob })),
+    watermark: context.watermark,
+  };
+
+  const segments: RenderSegment[] = [];
+  for (const [index, scene] of scenes.entries()) {
+    const startFrame = starts[index];
+    const endFrame = starts[index + 1] ?? totalFrames;
+    if (endFrame <= startFrame) continue;
+
+    const timing = timings[index];
+    const start = timing.start;
+    const previous = index > 0 && timing.overlap > 0 ? index - 1 : null;
+    const endTime = endFrame / fps;
+    const payload = {
+      ...shared,
+      frameCount: endFrame - startFrame,
+      // Where the first frame lands inside the scene; a shift by a
+      // fraction of a frame moves every sample.
+      phase: roundTime(startFrame / fps - start),
+      scene: describeScene(scene, context.gradients),
+      previous:
+        previous === null
+          ? null
+          : {
+              scene: describeScene(scenes[previous], context.gradients),
+              start: roundTime(timings[previous].start - start),
+            },
+      captions: context.captions
+        ? {
+            settings: context.captions.settings,
+            cues: context.captions.track
+              .filter((cue) => cue.end > start && cue.start < endTime)
+              .map((cue) => ({
+                start: roundTime(cue.start - start),
+                end: roundTime(cue.end - start),
+                text: cue.text,
+              })),
+          }
+        : null,
+    };
+
+    segments.push({
+      scene: index,
+      startFrame,
+      frameCount: endFrame - startFrame,
+      hash: await sha256(canonicalJson(payload)),
+    });
+  }
+  return segments;
+}
+
+/** The scene fields that reach the frame, with its gradient resolved. */
+function describeScene(scene: Scene, gradients: CustomGradient[]) {
+  const {
+    id: _id,
+    voiceOver: _voiceOver,
+    captions: _captions,
+    chapter: _chapter,
+    ...drawn
+  } = scene;
+  return { ...drawn, gradient: resolveGradient(scene.gradientId, gradients) };
+}
+
+/**
+ * JSON with sorted keys, so equal values hash equally. Blobs stand in as
+ * their type and size; assets carry their own ids next to them.
+ */
+function canonicalJson(value: unknown): string {
+  if (typeof Blob !== "undefined" && value instanceof Blob) {
+    return JSON.stringify(`blob:${value.type}:${value.size}`);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function roundTime(seconds: number) {
+  return Math.round(seconds * 1e6) / 1e6;
+}
@@ -0,0 +1,80 @@
+import type { CustomGradient } from "@/lib/backgrounds";
+import type { ResolvedWatermark } from "@/lib/brand";
+import { canvasToPng, createRenderContext } from "@/lib/canvas";
+import { prepareSceneFonts, type FontAsset } from "@/lib/fonts";
+import { preloadSceneImages, seekSceneVideos } from "@/lib/media";
+import { computeFrameLayout } from "@/lib/output";
+import type { Scene } from "@/lib/scene";
+import {
+  createFrameBuffers,
+  renderCompositionFrame,
+  type BurnedCaptions,
+  type FrameOptions,
+} from "@/lib/scene-draw";
+import { computeSceneTimings } from "@/lib/transitions";
+
+export type FrameEncoding = "rgba" | "png";
+
+/** `count` consecutive frames from `start`. */
+export type FrameRange = {
+  start: number;
+  count: number;
+};
+
+export type FrameJob = {
+  scenes: Scene[];
+  width: number;
+  height: number;
+  fps: number;
+  transparent: boolean;
+  encoding: FrameEncoding;
+  /** Uploaded fonts the scenes' typography may reference. */
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  watermark: ResolvedWatermark | null;
+  captions: BurnedCaptions | null;
+};
+
+/**
+ * Returns a function that renders frame `index` of the job into a
+ * transferable buffer: raw RGBA pixels for the encoder, or a PNG file for
+ * image sequences. The render worker, the main-thread fallback and the CLI
+ * share it.
+ */
+export function createFrameRenderer(job: FrameJob) {
+  const layout = computeFrameLayout(job.width, job.height);
+  const context = createRenderContext(job.width, job.height, {
+    willReadFrequently: job.encoding === "rgba",
+  });
+  const buffers = createFrameBuffers(layout);
+  const timings = computeSceneTimings(job.scenes);
+  const options: FrameOptions = {
+    transparent: job.transparent,
+    gradients: job.gradients,
+    watermark: job.watermark,
+    captions: job.captions,
+  };
+  // Frames must never draw with fallback fonts, so the first one waits.
+  const assets = Promise.all([
+    preloadSceneImages(job.scenes, job.watermark ? [job.watermark.logo] : []),
+    prepareSceneFonts(job.scenes, job.fonts),
+  ]);
+
+  return async (index: number): Promise<ArrayBuffer> => {
+    await assets;
+    await seekSceneVideos(job.scenes, index / job.fps, timings);
+    renderCompositionFrame(
+      context,
+      job.scenes,
+      index / job.fps,
+      layout,
+      buffers,
+      timings,
+      options,
+    );
+    if (job.encoding === "png") {
+      return canvasToPng(context.canvas);
+    }
+    return context.getImageData(0, 0, job.width, job.height).data.buffer;
+  };
+}
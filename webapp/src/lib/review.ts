@@ -0,0 +1,196 @@
+import { nanoid } from "nanoid";
+import { downloadBlob, slugify } from "@/lib/assets";
+import type { Scene } from "@/lib/scene";
+import type { SceneTiming } from "@/lib/transitions";
+
+export const REVIEW_FORMAT = "agentic-motion-studio-review";
+export const REVIEW_VERSION = 1;
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_AUTHOR_LENGTH = 80;
+
+export type ReviewComment = {
+  id: string;
+  /**
+   * Seconds into the composition, or into the scene when pinned to one,
+   * so scene comments follow their scene when the storyboard is retimed.
+   */
+  time: number;
+  sceneId: string | null;
+  author: string;
+  text: string;
+  createdAt: string;
+};
+
+/** Comments exported from a review, for the author to import. */
+export type ReviewFile = {
+  format: typeof REVIEW_FORMAT;
+  version: number;
+  projectId: string;
+  projectName: string;
+  exportedAt: string;
+  comments: ReviewComment[];
+};
+
+export function createReviewComment(
+  input: Pick<ReviewComment, "time" | "sceneId" | "author" | "text">,
+): ReviewComment {
+  return {
+    id: nanoid(),
+    time: Math.max(0, input.time),
+    sceneId: input.sceneId,
+    author: input.author.trim().slice(0, MAX_AUTHOR_LENGTH),
+    text: input.text.trim().slice(0, MAX_COMMENT_LENGTH),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Where a comment sits on the timeline now: its own time, or its offset
+ * into the scene it is pinned to. `null` once that scene is deleted.
+ */
+export function resolveCommentTime(
+  comment: ReviewComment,
+  scenes: Scene[],
+  timings: SceneTiming[],
+) {
+  if (!comment.sceneId) return comment.time;
+  const index = scenes.findIndex((scene) => scene.id === comment.sceneId);
+  const timing = timings[index];
+  if (index < 0 || !timing) return null;
+  return timing.start + Math.min(comment.time, scenes[index].duration);
+}
+
+/** Timeline pins for the comments that still have a place on it. */
+export function commentMarkers(
+  comments: ReviewComment[],
+  scenes: Scene[],
+  timings: SceneTiming[],
+  selectedCommentId?: string,
+) {
+  return comments.flatMap((comment) => {
+    const time = resolveCommentTime(comment, scenes, timings);
+    if (time === null) return [];
+    return [
+      {
+        id: comment.id,
+        time,
+        label: comment.author
+          ? `${comment.author}: ${comment.text}`
+          : comment.text,
+        active: comment.id === selectedCommentId,
+      },
+    ];
+  });
+}
+
+/** Adds `incoming` to `existing`, skipping comments already there. */
+export function mergeReviewComments(
+  existing: ReviewComment[],
+  incoming: ReviewComment[],
+) {
+  const ids = new Set(existing.map((comment) => comment.id));
+  return [
+    ...existing,
+    ...incoming.filter((comment) => !ids.has(comment.id)),
+  ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Keeps the well-formed comments from untrusted input and drops the rest. */
+export function normalizeReviewComments(input: unknown): ReviewComment[] {
+  if (!Array.isArray(input)) return [];
+  return input.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const comment = entry as Record<string, unknown>;
+    if (
+      typeof comment.text !== "string" ||
+      !comment.text.trim() ||
+      typeof comment.time !== "number" ||
+      !Number.isFinite(comment.time)
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: typeof comment.id === "string" ? comment.id : nanoid(),
+        time: Math.max(0, comment.time),
+        sceneId: typeof comment.sceneId === "string" ? comment.sceneId : null,
+        author:
+          typeof comment.author === "string"
+            ? comment.author.slice(0, MAX_AUTHOR_LENGTH)
+            : "",
+        text: comment.text.slice(0, MAX_COMMENT_LENGTH),
+        createdAt:
+          typeof comment.createdAt === "string"
+            ? comment.createdAt
+            : new Date().toISOString(),
+      },
+    ];
+  });
+}
+
+export function createReviewFile(
+  project: { id: string; name: string },
+  comments: ReviewComment[],
+): ReviewFile {
+  return {
+    format: REVIEW_FORMAT,
+    version: REVIEW_VERSION,
+    projectId: project.id,
+    projectName: project.name,
+    exportedAt: new Date().toISOString(),
+    comments,
+  };
+}
+
+/**
+ * Validates a parsed comments file. Throws with a readable message when
+ * the input is not one.
+ */
+export function parseReviewFile(input: unknown): ReviewFile {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<
+    string,
+    unknown
+  >;
+  if (raw.format !== REVIEW_FORMAT) {
+    throw new Error("This file does not contain review comments.");
+  }
+  const version = typeof raw.version === "number" ? raw.version : 1;
+  if (version > REVIEW_VERSION) {
+    throw new Error(
+      `These comments were saved by a newer version (v${version}). Update the app to import them.`,
+    );
+  }
+  return {
+    format: REVIEW_FORMAT,
+    version: REVIEW_VERSION,
+    projectId: typeof raw.projectId === "string" ? raw.projectId : "",
+    projectName: typeof raw.projectName === "string" ? raw.projectName : "",
+    exportedAt:
+      typeof raw.exportedAt === "string"
+        ? raw.exportedAt
+        : new Date().toISOString(),
+    comments: normalizeReviewComments(raw.comments),
+  };
+}
+
+export async function readReviewFile(file: File): Promise<ReviewFile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not valid JSON.`);
+  }
+  return parseReviewFile(parsed);
+}
+
+export function downloadReviewFile(
+  project: { id: string; name: string },
+  comments: ReviewComment[],
+) {
+  const blob = new Blob(
+    [JSON.stringify(createReviewFile(project, comments), null, 2)],
+    { type: "application/json" },
+  );
+  downloadBlob(blob, `${slugify(project.name) || "storyboard"}-review.json`);
+}
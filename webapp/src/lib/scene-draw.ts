@@ -0,0 +1,755 @@
+import type { ResolvedWatermark } from "@/lib/brand";
+import {
+  captionAt,
+  type CaptionSettings,
+  type TimedCaption,
+} from "@/lib/captions";
+import { clamp, easeOut } from "@/lib/easing";
+import {
+  animateGradient,
+  drawGradientFill,
+  resolveGradient,
+  type BackgroundFit,
+  type CustomGradient,
+} from "@/lib/backgrounds";
+import {
+  createRenderContext,
+  type DrawableImage,
+  type RenderContext,
+} from "@/lib/canvas";
+import { resolveFontStack } from "@/lib/fonts";
+import { resolveLayerState, type SceneLayer } from "@/lib/layers";
+import { getLoadedImage, getSeekedVideo } from "@/lib/media";
+import { evaluateLayerMotion, type LayerState } from "@/lib/motion";
+import type { FrameLayout } from "@/lib/output";
+import type { Scene } from "@/lib/scene";
+import {
+  REVEAL_PORTION,
+  parseEmphasis,
+  type TextAnimation,
+  type TextRole,
+} from "@/lib/typography";
+import {
+  composeTransition,
+  computeSceneTimings,
+  sampleTimeline,
+  type FrameSample,
+  type SceneTiming,
+} from "@/lib/transitions";
+
+const LINE_SLIDE_DISTANCE = 30;
+const WORD_FADE_SPAN = 3;
+
+export type FrameOptions = {
+  /** Skip the background and mist so the frame keeps an alpha channel. */
+  transparent?: boolean;
+  /** Project gradients the scenes' `gradientId` may reference. */
+  gradients?: CustomGradient[];
+  /** Brand logo stamped over every frame, transitions included. */
+  watermark?: ResolvedWatermark | null;
+  /** Caption track burned in over everything else. */
+  captions?: BurnedCaptions | null;
+};
+
+export type BurnedCaptions = {
+  track: TimedCaption[];
+  settings: CaptionSettings;
+};
+
+export type FrameBuffers = {
+  from: RenderContext;
+  to: RenderContext;
+};
+
+export function createFrameBuffers(layout: FrameLayout): FrameBuffers {
+  return {
+    from: createRenderContext(layout.width, layout.height),
+    to: createRenderContext(layout.width, layout.height),
+  };
+}
+
+/**
+ * Draws the composition at `time` seconds. The live preview, the exporter
+ * and the CLI all go through here so transitions land on identical frames.
+ */
+export function renderCompositionFrame(
+  context: RenderContext,
+  scenes: Scene[],
+  time: number,
+  layout: FrameLayout,
+  buffers: FrameBuffers,
+  timings: SceneTiming[] = computeSceneTimings(scenes),
+  options: FrameOptions = {},
+) {
+  const sample = sampleTimeline(scenes, time, timings);
+  if (!sample) return;
+
+  if (sample.kind === "scene") {
+    renderSceneFrame(
+      context,
+      scenes[sample.index],
+      sample.progress,
+      layout,
+      options,
+    );
+  } else {
+    renderTransitionFrame(context, scenes, sample, layout, buffers, options);
+  }
+  if (options.watermark) {
+    drawWatermark(context, options.watermark, layout);
+  }
+  if (options.captions) {
+    const caption = captionAt(options.captions.track, time);
+    if (caption) {
+      drawCaptionBar(context, caption.text, options.captions.settings, layout);
+    }
+  }
+}
+
+function renderTransitionFrame(
+  context: RenderContext,
+  scenes: Scene[],
+  sample: Extract<FrameSample, { kind: "transition" }>,
+  layout: FrameLayout,
+  buffers: FrameBuffers,
+  options: FrameOptions,
+) {
+  renderSceneFrame(
+    buffers.from,
+    scenes[sample.from],
+    sample.fromProgress,
+    layout,
+    options,
+  );
+  renderSceneFrame(
+    buffers.to,
+    scenes[sample.to],
+    sample.toProgress,
+    layout,
+    options,
+  );
+  if (options.transparent) {
+    context.clearRect(0, 0, layout.width, layout.height);
+  }
+  composeTransition(
+    context,
+    buffers.from.canvas,
+    buffers.to.canvas,
+    sample.transition,
+    sample.mix,
+    layout.width,
+    layout.height,
+  );
+}
+
+export function renderSceneFrame(
+  context: RenderContext,
+  scene: Scene,
+  progress: number,
+  layout: FrameLayout,
+  options: FrameOptions = {},
+) {
+  context.save();
+  context.clearRect(0, 0, layout.width, layout.height);
+
+  for (const layer of scene.layers) {
+    if (!layer.visible) continue;
+    // Transparent exports skip the background and mist to keep the alpha.
+    if (layer.kind === "background" && options.transparent) continue;
+
+    const state = resolveLayerState(
+      layer.transform,
+      evaluateLayerMotion(layer.motion, progress),
+    );
+    context.save();
+    context.globalCompositeOperation = layer.blendMode;
+    drawLayer(context, scene, layer, state, layout, progress, options);
+    context.restore();
+  }
+
+  context.restore();
+}
+
+function drawLayer(
+  context: RenderContext,
+  scene: Scene,
+  layer: SceneLayer,
+  state: LayerState,
+  layout: FrameLayout,
+  progress: number,
+  options: FrameOptions,
+) {
+  switch (layer.kind) {
+    case "background":
+      drawBackground(context, scene, state, layout, progress, options);
+      break;
+    case "accent":
+      drawAccent(context, scene.accent, state, layout);
+      break;
+    case "headline":
+      drawTextBlock(context, scene, state, layout, progress);
+      break;
+    case "text": {
+      placeLayer(context, state, layout);
+      context.fillStyle = layer.color;
+      context.font = `${layer.weight} ${layer.size}px ${resolveFontStack(layer.family)}`;
+      context.textAlign = layer.align;
+      context.textBaseline = "top";
+      const lines = wrapText(context, layer.text, layer.width);
+      const lineHeight = layer.size * 1.3;
+      const x =
+        layer.align === "center"
+          ? 0
+          : layer.align === "right" || layer.align === "end"
+            ? layer.width / 2
+            : -layer.width / 2;
+      lines.forEach((line, index) => {
+        context.fillText(line, x, (index - lines.length / 2) * lineHeight);
+      });
+      break;
+    }
+    case "image": {
+      const image = getLoadedImage(layer.asset);
+      if (!image) break;
+      placeLayer(context, state, layout);
+      const height = (layer.width * layer.asset.height) / layer.asset.width;
+      context.drawImage(
+        image,
+        -layer.width / 2,
+        -height / 2,
+        layer.width,
+        height,
+      );
+      break;
+    }
+    case "shape": {
+      placeLayer(context, state, layout);
+      context.fillStyle = layer.color;
+      const { width, height } = layer;
+      if (layer.shape === "ellipse") {
+        context.beginPath();
+        context.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+      } else {
+        const radius =
+          layer.shape === "line"
+            ? height / 2
+            : Math.min(layer.radius, width / 2, height / 2);
+        roundedRect(context, -width / 2, -height / 2, width, height, radius);
+      }
+      context.fill();
+      break;
+    }
+  }
+}
+
+/**
+ * Moves the origin to the layer's center and scales so that added layers can
+ * draw in reference-frame pixels.
+ */
+function placeLayer(
+  context: RenderContext,
+  state: LayerState,
+  layout: FrameLayout,
+) {
+  context.translate(
+    layout.width / 2 + state.x * layout.scale,
+    layout.height / 2 + state.y * layout.scale,
+  );
+  context.scale(state.scale * layout.scale, state.scale * layout.scale);
+  context.rotate((state.rotation * Math.PI) / 180);
+  applyBlur(context, state.blur * layout.scale);
+  context.globalAlpha = clamp(state.opacity, 0, 1);
+}
+
+function drawBackground(
+  context: RenderContext,
+  scene: Scene,
+  state: LayerState,
+  layout: FrameLayout,
+  progress: number,
+  options: FrameOptions,
+) {
+  const { background } = scene;
+  const { width, height } = layout;
+  context.translate(
+    width / 2 + state.x * layout.scale,
+    height / 2 + state.y * layout.scale,
+  );
+  context.scale(state.scale, state.scale);
+  context.rotate((state.rotation * Math.PI) / 180);
+  context.translate(-width / 2, -height / 2);
+  applyBlur(context, state.blur * layout.scale);
+  context.globalAlpha = clamp(state.opacity, 0, 1);
+
+  switch (background.kind) {
+    case "gradient": {
+      const gradient = resolveGradient(
+        scene.gradientId,
+        options.gradients ?? [],
+      );
+      if (!gradient) {
+        throw new Error(`Missing gradient "${scene.gradientId}".`);
+      }
+      drawGradientFill(
+        context,
+        width,
+        height,
+        animateGradient(gradient, background.animation, progress),
+      );
+      drawMist(context, layout);
+      break;
+    }
+    case "solid":
+      context.fillStyle = background.color;
+      context.fillRect(0, 0, width, height);
+      drawMist(context, layout);
+      break;
+    case "image": {
+      const image = getLoadedImage(background.asset);
+      if (image) drawFitted(context, image, background.fit, layout);
+      break;
+    }
+    case "video": {
+      const video = getSeekedVideo(background.asset);
+      // Not seeked yet: the next draw after `seekSceneVideos` fills it in.
+      if (video) drawFitted(context, video, background.fit, layout);
+      break;
+    }
+  }
+}
+
+/** Draws media centered in the frame, cropped (cover) or letterboxed. */
+function drawFitted(
+  context: RenderContext,
+  source: DrawableImage | HTMLVideoElement,
+  fit: BackgroundFit,
+  layout: FrameLayout,
+) {
+  const sourceWidth = "videoWidth" in source ? source.videoWidth : source.width;
+  const sourceHeight =
+    "videoHeight" in source ? source.videoHeight : source.height;
+  const scale = (fit === "cover" ? Math.max : Math.min)(
+    layout.width / sourceWidth,
+    layout.height / sourceHeight,
+  );
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  context.drawImage(
+    source,
+    (layout.width - width) / 2,
+    (layout.height - height) / 2,
+    width,
+    height,
+  );
+}
+
+function drawWatermark(
+  context: RenderContext,
+  watermark: ResolvedWatermark,
+  layout: FrameLayout,
+) {
+  const image = getLoadedImage(watermark.logo);
+  if (!image) return;
+
+  const width = layout.width * watermark.size;
+  const height = (width * watermark.logo.height) / watermark.logo.width;
+  const margin = watermark.margin * layout.scale;
+  const x = watermark.position.endsWith("left")
+    ? margin
+    : layout.width - margin - width;
+  const y = watermark.position.startsWith("top")
+    ? margin
+    : layout.height - margin - height;
+
+  context.save();
+  context.globalAlpha = clamp(watermark.opacity, 0, 1);
+  context.drawImage(image, x, y, width, height);
+  context.restore();
+}
+
+function drawCaptionBar(
+  context: RenderContext,
+  text: string,
+  settings: CaptionSettings,
+  layout: FrameLayout,
+) {
+  const size = settings.size * layout.scale;
+  const lineHeight = size * 1.3;
+  const paddingX = size * 0.6;
+  const paddingY = size * 0.35;
+  const margin = 40 * layout.scale;
+
+  context.save();
+  context.font = `600 ${size}px ${resolveFontStack("Inter")}`;
+  const lines = text
+    .split("\n")
+    .flatMap((line) => wrapText(context, line, layout.width * 0.8));
+  const width =
+    Math.max(...lines.map((line) => context.measureText(line).width)) +
+    paddingX * 2;
+  const height = lines.length * lineHeight + paddingY * 2;
+  const x = (layout.width - width) / 2;
+  const y =
+    settings.position === "top" ? margin : layout.height - margin - height;
+
+  context.globalAlpha = clamp(settings.opacity, 0, 1);
+  context.fillStyle = settings.background;
+  roundedRect(context, x, y, width, height, size * 0.3);
+  context.fill();
+
+  context.globalAlpha = 1;
+  context.fillStyle = settings.color;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  lines.forEach((line, index) => {
+    context.fillText(
+      line,
+      layout.width / 2,
+      y + paddingY + lineHeight * (index + 0.5),
+    );
+  });
+  context.restore();
+}
+
+function drawMist(context: RenderContext, layout: FrameLayout) {
+  const { width, height } = layout;
+  const gradient = context.createRadialGradient(
+    width * 0.3,
+    height * 0.2,
+    0,
+    width * 0.4,
+    height * 0.3,
+    Math.max(width, height) * 0.8,
+  );
+  gradient.addColorStop(0, "rgba(255,255,255,0.18)");
+  gradient.addColorStop(1, "rgba(255,255,255,0)");
+
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+}
+
+function drawAccent(
+  context: RenderContext,
+  accent: string,
+  state: LayerState,
+  layout: FrameLayout,
+) {
+  context.save();
+  context.translate(
+    layout.width / 2 + state.x * layout.scale,
+    layout.height / 2 + state.y * layout.scale,
+  );
+  context.scale(state.scale, state.scale);
+  context.rotate((state.rotation * Math.PI) / 180);
+  applyBlur(context, state.blur * layout.scale);
+
+  const rectWidth = layout.width * 0.65;
+  const rectHeight = layout.height * 0.65;
+
+  const gradient = context.createLinearGradient(
+    -rectWidth / 2,
+    -rectHeight / 2,
+    rectWidth / 2,
+    rectHeight / 2,
+  );
+
+  gradient.addColorStop(0, `${accent}30`);
+  gradient.addColorStop(1, `${accent}00`);
+
+  context.fillStyle = gradient;
+  context.globalAlpha = clamp(state.opacity, 0, 1);
+  roundedRect(
+    context,
+    -rectWidth / 2,
+    -rectHeight / 2,
+    rectWidth,
+    rectHeight,
+    48 * layout.scale,
+  );
+  context.fill();
+  context.restore();
+}
+
+type TextSegment = { text: string; emphasis: boolean; width: number };
+
+type TextWord = { segments: TextSegment[]; width: number };
+
+type TextLine = {
+  words: TextWord[];
+  width: number;
+  font: string;
+  letterSpacing: string;
+  y: number;
+  opacity: number;
+};
+
+/**
+ * Draws the scene title and description. The block is laid out with the
+ * scene typography, anchored in the safe area, and revealed according to
+ * its text animation on top of the headline layer's keyframes.
+ */
+function drawTextBlock(
+  context: RenderContext,
+  scene: Scene,
+  state: LayerState,
+  layout: FrameLayout,
+  progress: number,
+) {
+  const { typography } = scene;
+  const { textWidth, scale } = layout;
+  context.save();
+  context.textBaseline = "top";
+  context.textAlign = "left";
+
+  const lines: TextLine[] = [];
+  let blockHeight = 0;
+  const addRole = (text: string, role: TextRole, opacity: number) => {
+    const font = `${role.weight} ${Math.round(role.size * scale)}px ${resolveFontStack(role.family)}`;
+    const letterSpacing = `${role.letterSpacing * scale}px`;
+    applyTextStyle(context, font, letterSpacing);
+    for (const line of wrapRuns(context, parseEmphasis(text), textWidth)) {
+      lines.push({ ...line, font, letterSpacing, y: blockHeight, opacity });
+      blockHeight += role.size * role.lineHeight * scale;
+    }
+  };
+
+  addRole(scene.title, typography.title, 1);
+  blockHeight += 20 * scale;
+  addRole(scene.description, typography.body, 0.9);
+
+  const top =
+    typography.anchor === "middle"
+      ? (layout.height - blockHeight) / 2
+      : typography.anchor === "bottom"
+        ? layout.height - layout.top - blockHeight
+        : layout.top;
+  context.translate(layout.padding, top);
+
+  context.translate(state.x * scale, state.y * scale);
+  context.scale(state.scale, state.scale);
+  context.rotate((state.rotation * Math.PI) / 180);
+  applyBlur(context, state.blur * scale);
+  const opacity = clamp(state.opacity, 0, 1);
+
+  const reveal = createReveal(
+    typography.animation,
+    progress,
+    lines,
+    LINE_SLIDE_DISTANCE * scale,
+  );
+
+  lines.forEach((line, lineIndex) => {
+    applyTextStyle(context, line.font, line.letterSpacing);
+    const space = context.measureText(" ").width;
+    let x =
+      typography.align === "center"
+        ? (textWidth - line.width) / 2
+        : typography.align === "right"
+          ? textWidth - line.width
+          : 0;
+
+    for (const word of line.words) {
+      const { alpha, offset, characters } = reveal(lineIndex, word);
+      if (alpha > 0 && characters > 0) {
+        context.globalAlpha = opacity * line.opacity * alpha;
+        let segmentX = x;
+        let remaining = characters;
+        for (const segment of word.segments) {
+          if (remaining <= 0) break;
+          const text = segment.text.slice(0, remaining);
+          remaining -= segment.text.length;
+          context.fillStyle = segment.emphasis ? scene.accent : scene.textColor;
+          context.fillText(text, segmentX, line.y + offset);
+          segmentX += segment.width;
+        }
+      }
+      x += word.width + space;
+    }
+  });
+
+  context.restore();
+}
+
+/**
+ * Returns how much of each word to draw: an alpha, a vertical offset and
+ * how many characters are visible. Words are visited in reading order.
+ */
+function createReveal(
+  animation: TextAnimation,
+  progress: number,
+  lines: TextLine[],
+  slideDistance: number,
+) {
+  const amount = clamp(progress / REVEAL_PORTION, 0, 1);
+  const words = lines.flatMap((line) => line.words);
+  const totalCharacters = words.reduce(
+    (sum, word) => sum + countCharacters(word),
+    0,
+  );
+  let seenWords = 0;
+  let seenCharacters = 0;
+
+  return (lineIndex: number, word: TextWord) => {
+    const wordIndex = seenWords;
+    const firstCharacter = seenCharacters;
+    const length = countCharacters(word);
+    seenWords += 1;
+    seenCharacters += length;
+
+    switch (animation) {
+      case "typewriter":
+        return {
+          alpha: 1,
+          offset: 0,
+          characters: Math.floor(amount * totalCharacters) - firstCharacter,
+        };
+      case "word-fade":
+        return {
+          alpha:
+            clamp(
+              amount * (words.length + WORD_FADE_SPAN) - wordIndex,
+              0,
+              WORD_FADE_SPAN,
+            ) / WORD_FADE_SPAN,
+          offset: 0,
+          characters: length,
+        };
+      case "line-slide": {
+        const local = clamp(amount * (lines.length + 1) - lineIndex, 0, 1);
+        return {
+          alpha: local,
+          offset: (1 - easeOut(local)) * slideDistance,
+          characters: length,
+        };
+      }
+      default:
+        return { alpha: 1, offset: 0, characters: length };
+    }
+  };
+}
+
+function countCharacters(word: TextWord) {
+  return word.segments.reduce((sum, segment) => sum + segment.text.length, 0);
+}
+
+function applyTextStyle(
+  context: RenderContext,
+  font: string,
+  letterSpacing: string,
+) {
+  context.font = font;
+  // Letter spacing is newer than the rest of the canvas text API.
+  if ("letterSpacing" in context) {
+    context.letterSpacing = letterSpacing;
+  }
+}
+
+/**
+ * Greedy word wrap over styled runs. Runs that touch without whitespace
+ * form one word, and newlines force a break.
+ */
+function wrapRuns(
+  context: RenderContext,
+  runs: ReturnType<typeof parseEmphasis>,
+  maxWidth: number,
+): Pick<TextLine, "words" | "width">[] {
+  const space = context.measureText(" ").width;
+  const lines: Pick<TextLine, "words" | "width">[] = [];
+  let line: TextWord[] = [];
+  let lineWidth = 0;
+  let word: TextWord | null = null;
+
+  const breakLine = () => {
+    if (line.length) lines.push({ words: line, width: lineWidth });
+    line = [];
+    lineWidth = 0;
+  };
+  const placeWord = () => {
+    if (!word) return;
+    const width = line.length ? lineWidth + space + word.width : word.width;
+    if (width > maxWidth && line.length) {
+      breakLine();
+      line = [word];
+      lineWidth = word.width;
+    } else {
+      line.push(word);
+      lineWidth = width;
+    }
+    word = null;
+  };
+
+  for (const run of runs) {
+    for (const part of run.text.split(/(\s+)/)) {
+      if (!part) continue;
+      if (/^\s+$/.test(part)) {
+        placeWord();
+        for (let count = part.split("\n").length - 1; count > 0; count -= 1) {
+          breakLine();
+        }
+        continue;
+      }
+      const width = context.measureText(part).width;
+      word ??= { segments: [], width: 0 };
+      word.segments.push({ text: part, emphasis: run.emphasis, width });
+      word.width += width;
+    }
+  }
+  placeWord();
+  breakLine();
+  return lines;
+}
+
+function applyBlur(context: RenderContext, radius: number) {
+  if (radius > 0) {
+    context.filter = `blur(${radius}px)`;
+  }
+}
+
+function wrapText(context: RenderContext, text: string, maxWidth: number) {
+  const words = text.split(" ");
+  const lines: string[] = [];
+  let currentLine = "";
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    const metrics = context.measureText(testLine);
+    if (metrics.width > maxWidth && currentLine) {
+      lines.push(currentLine);
+      currentLine = word;
+    } else {
+      currentLine = testLine;
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines;
+}
+
+function roundedRect(
+  context: RenderContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+) {
+  context.beginPath();
+  context.moveTo(x + radius, y);
+  context.lineTo(x + width - radius, y);
+  context.quadraticCurveTo(x + width, y, x + width, y + radius);
+  context.lineTo(x + width, y + height - radius);
+  context.quadraticCurveTo(
+    x + width,
+    y + height,
+    x + width - radius,
+    y + height,
+  );
+  context.lineTo(x + radius, y + height);
+  context.quadraticCurveTo(x, y + height, x, y + height - radius);
+  context.lineTo(x, y + radius);
+  context.quadraticCurveTo(x, y, x + radius, y);
+  context.closePath();
+}
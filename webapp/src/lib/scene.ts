@@ -0,0 +1,120 @@
+import { nanoid } from "nanoid";
+import type { VoiceOver } from "@/lib/audio";
+import type { CaptionCue } from "@/lib/captions";
+import {
+  DEFAULT_BACKGROUND,
+  cloneBackground,
+  type SceneBackground,
+} from "@/lib/backgrounds";
+import { createDefaultLayers, type SceneLayer } from "@/lib/layers";
+import { motionFromPreset } from "@/lib/motion";
+import { DEFAULT_TRANSITION, type SceneTransition } from "@/lib/transitions";
+import {
+  DEFAULT_TYPOGRAPHY,
+  cloneTypography,
+  type SceneTypography,
+} from "@/lib/typography";
+
+export type Scene = {
+  id: string;
+  title: string;
+  description: string;
+  duration: number;
+  gradientId: string;
+  /** What the background layer draws; gradients use `gradientId`. */
+  background: SceneBackground;
+  textColor: string;
+  accent: string;
+  typography: SceneTypography;
+  /** Drawn first to last; see `SceneLayer` for the built-in kinds. */
+  layers: SceneLayer[];
+  /** Template the motion was last taken from; cleared once it is edited. */
+  motionTemplate: string | null;
+  transition: SceneTransition;
+  voiceOver?: VoiceOver;
+  /** Authored caption cues; seeded from the description while unset. */
+  captions?: CaptionCue[];
+  /** Starts a chapter with this title; it runs until the next one. */
+  chapter?: string;
+};
+
+/** A run of scenes under one chapter title. */
+export type SceneChapter = {
+  /** Id of the scene that starts the chapter. */
+  id: string;
+  title: string;
+  /** Index of the first scene. */
+  start: number;
+  /** Index after the last scene. */
+  end: number;
+};
+
+/** Long-form explainers run to dozens of scenes; this is a sanity limit. */
+export const MAX_SCENES = 200;
+export const MIN_DURATION = 2;
+export const MAX_DURATION = 8;
+
+export const buildInitialScenes = (): Scene[] => [
+  {
+    id: nanoid(),
+    title: "Showcase your ideas in motion",
+    description:
+      "Craft cinematic storyboards that turn into silky, production-ready clips with zero hassle.",
+    duration: 4,
+    gradientId: "aurora",
+    background: cloneBackground(DEFAULT_BACKGROUND),
+    textColor: "#f8fafc",
+    accent: "#facc15",
+    typography: cloneTypography(DEFAULT_TYPOGRAPHY),
+    layers: createDefaultLayers(motionFromPreset("zoom")),
+    motionTemplate: "zoom",
+    transition: { ...DEFAULT_TRANSITION, type: "cut" },
+  },
+  {
+    id: nanoid(),
+    title: "Scene-aware pacing",
+    description:
+      "Fine-tune every beat. Dial in timing, gradients, and motion for a smooth narrative arc.",
+    duration: 3.5,
+    gradientId: "midnight",
+    background: cloneBackground(DEFAULT_BACKGROUND),
+    textColor: "#e2e8f0",
+    accent: "#38bdf8",
+    typography: cloneTypography(DEFAULT_TYPOGRAPHY),
+    layers: createDefaultLayers(motionFromPreset("slide")),
+    motionTemplate: "slide",
+    transition: { ...DEFAULT_TRANSITION },
+  },
+  {
+    id: nanoid(),
+    title: "Render to share in one click",
+    description:
+      "Generate studio-grade MP4s in-browser using a fast WASM encoder optimized for Vercel deploys.",
+    duration: 3,
+    gradientId: "sunset",
+    background: cloneBackground(DEFAULT_BACKGROUND),
+    textColor: "#fff7ed",
+    accent: "#fb7185",
+    typography: cloneTypography(DEFAULT_TYPOGRAPHY),
+    layers: createDefaultLayers(motionFromPreset("drift")),
+    motionTemplate: "drift",
+    transition: { ...DEFAULT_TRANSITION, type: "push", duration: 0.8 },
+  },
+];
+
+/** Chapters in order. Scenes before the first chapter belong to none. */
+export function listChapters(scenes: Scene[]): SceneChapter[] {
+  const chapters: SceneChapter[] = [];
+  scenes.forEach((scene, index) => {
+    if (scene.chapter === undefined) return;
+    const previous = chapters[chapters.length - 1];
+    if (previous) previous.end = index;
+    chapters.push({
+      id: scene.id,
+      title: scene.chapter,
+      start: index,
+      end: scenes.length,
+    });
+  });
+  return chapters;
+}
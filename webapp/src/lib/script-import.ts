@@ -0,0 +1,368 @@
+import { nanoid } from "nanoid";
+import {
+  DEFAULT_BACKGROUND,
+  cloneBackground,
+  type AnyGradient,
+} from "@/lib/backgrounds";
+import { clamp } from "@/lib/easing";
+import { createDefaultLayers, extractSceneMotion } from "@/lib/layers";
+import type { MotionTemplate } from "@/lib/motion";
+import {
+  MAX_DURATION,
+  MAX_SCENES,
+  MIN_DURATION,
+  type Scene,
+} from "@/lib/scene";
+import { cloneTypography, stripEmphasis } from "@/lib/typography";
+
+/** Average narration pace (150 words per minute). */
+export const WORDS_PER_SECOND = 2.5;
+
+/** Time to take in a scene before anyone starts reading it. */
+const READING_LEAD = 1;
+
+export type ImportMode = "replace" | "append";
+
+export type ScriptScene = {
+  title: string;
+  description: string;
+  duration: number;
+  /** False when the duration came from front-matter. */
+  estimated: boolean;
+  gradientId?: string;
+  motionTemplate?: string;
+};
+
+export type ParsedScript = {
+  scenes: ScriptScene[];
+  warnings: string[];
+};
+
+export type ScriptImportRow =
+  | { kind: "added"; after: Scene }
+  | { kind: "removed"; before: Scene }
+  | { kind: "unchanged"; before: Scene }
+  | {
+      kind: "changed";
+      before: Scene;
+      after: Scene;
+      fields: (keyof Scene)[];
+    };
+
+export type ScriptImportPlan = {
+  /** The storyboard after the import. */
+  scenes: Scene[];
+  rows: ScriptImportRow[];
+  /** Script scenes that did not fit under MAX_SCENES. */
+  dropped: number;
+};
+
+type Settings = { duration?: number; gradientId?: string; template?: string };
+
+const COMPARED_FIELDS: (keyof Scene)[] = [
+  "title",
+  "description",
+  "duration",
+  "gradientId",
+  "motionTemplate",
+];
+
+/** Seconds to read `text` aloud, rounded to the duration field's 0.5 step. */
+export function estimateDuration(text: string) {
+  const words = stripEmphasis(text).split(/\s+/).filter(Boolean).length;
+  const seconds = READING_LEAD + words / WORDS_PER_SECOND;
+  return clamp(Math.round(seconds * 2) / 2, MIN_DURATION, MAX_DURATION);
+}
+
+/**
+ * Reads a Markdown or plain-text script. Headings start scenes and the
+ * paragraphs under them become the description; without headings, every
+ * blank-line separated block is a scene whose first line is the title.
+ * A `---` front-matter block at the top sets defaults, and one right after
+ * a heading overrides them for that scene. Recognized keys are `duration`,
+ * `gradient` and `animation`.
+ */
+export function parseScript(
+  source: string,
+  options: { gradients: AnyGradient[]; templates: MotionTemplate[] },
+): ParsedScript {
+  const warnings: string[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let cursor = 0;
+
+  const readSettings = (where: string): Settings => {
+    if (lines[cursor]?.trim() !== "---") return {};
+    const end = lines.findIndex(
+      (line, index) => index > cursor && line.trim() === "---",
+    );
+    if (end < 0) {
+      warnings.push(`Unclosed front-matter ${where} was read as text.`);
+      return {};
+    }
+    const block = lines.slice(cursor + 1, end);
+    cursor = end + 1;
+    return parseSettings(block, where, options, warnings);
+  };
+
+  const defaults = readSettings("at the top");
+  const body = lines.slice(cursor);
+  const headings = body.flatMap((line) => {
+    const match = line.match(/^(#{1,6})\s+(.*)$/);
+    return match ? [match[1].length] : [];
+  });
+
+  type Draft = { title: string; paragraphs: string[]; settings: Settings };
+  const drafts: Draft[] = [];
+
+  if (headings.length) {
+    // A lone top-level heading over deeper ones is the script's own title.
+    const topLevel = Math.min(...headings);
+    const skipLevel =
+      headings.filter((level) => level === topLevel).length === 1 &&
+      headings.some((level) => level > topLevel)
+        ? topLevel
+        : 0;
+    let current: Draft | null = null;
+    let paragraph: string[] = [];
+    let skippedIntro = false;
+    const flush = () => {
+      if (!paragraph.length) return;
+      if (current) current.paragraphs.push(joinLines(paragraph));
+      else skippedIntro = true;
+      paragraph = [];
+    };
+
+    for (; cursor < lines.length; cursor += 1) {
+      const line = lines[cursor];
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      if (heading) {
+        flush();
+        if (heading[1].length === skipLevel) {
+          current = null;
+          continue;
+        }
+        current = {
+          title: cleanInline(heading[2]),
+          paragraphs: [],
+          settings: {},
+        };
+        drafts.push(current);
+        cursor += 1;
+        current.settings = readSettings(`under "${current.title}"`);
+        cursor -= 1;
+      } else if (!line.trim()) {
+        flush();
+      } else {
+        paragraph.push(cleanLine(line));
+      }
+    }
+    flush();
+    if (skippedIntro) {
+      warnings.push("Text before the first scene heading was skipped.");
+    }
+  } else {
+    const blocks = body
+      .join("\n")
+      .split(/\n\s*\n/)
+      .map((block) => block.split("\n").filter((line) => line.trim()))
+      .filter((block) => block.length);
+    for (const [first, ...rest] of blocks) {
+      drafts.push({
+        title: cleanInline(first),
+        paragraphs: rest.length ? [joinLines(rest.map(cleanLine))] : [],
+        settings: {},
+      });
+    }
+  }
+
+  const scenes = drafts.map(({ title, paragraphs, settings }): ScriptScene => {
+    const description = paragraphs.join("\n");
+    const duration = settings.duration ?? defaults.duration;
+    return {
+      title,
+      description,
+      duration: duration ?? estimateDuration(`${title} ${description}`),
+      estimated: duration === undefined,
+      gradientId: settings.gradientId ?? defaults.gradientId,
+      motionTemplate: settings.template ?? defaults.template,
+    };
+  });
+  if (!scenes.length) {
+    warnings.push("No scenes found. Start each scene with a # heading.");
+  }
+  return { scenes, warnings };
+}
+
+/**
+ * Turns parsed script scenes into storyboard scenes and works out how the
+ * storyboard changes. New scenes copy their styling from `template`.
+ */
+export function planScriptImport(
+  current: Scene[],
+  script: ScriptScene[],
+  mode: ImportMode,
+  template: Scene,
+  templates: MotionTemplate[],
+): ScriptImportPlan {
+  const room = mode === "replace" ? MAX_SCENES : MAX_SCENES - current.length;
+  const fitting = script.slice(0, Math.max(0, room));
+  const incoming = fitting.map((entry, index) =>
+    createScene(entry, template, templates, mode === "replace" && !index),
+  );
+
+  if (mode === "append") {
+    return {
+      scenes: [...current, ...incoming],
+      rows: [
+        ...current.map((before) => ({ kind: "unchanged" as const, before })),
+        ...incoming.map((after) => ({ kind: "added" as const, after })),
+      ],
+      dropped: script.length - fitting.length,
+    };
+  }
+
+  const rows: ScriptImportRow[] = [];
+  for (
+    let index = 0;
+    index < Math.max(current.length, incoming.length);
+    index += 1
+  ) {
+    const before = current[index];
+    const after = incoming[index];
+    if (!before) {
+      rows.push({ kind: "added", after });
+    } else if (!after) {
+      rows.push({ kind: "removed", before });
+    } else {
+      const fields = COMPARED_FIELDS.filter(
+        (field) => before[field] !== after[field],
+      );
+      rows.push(
+        fields.length
+          ? { kind: "changed", before, after, fields }
+          : { kind: "unchanged", before },
+      );
+    }
+  }
+  return {
+    scenes: incoming,
+    rows,
+    dropped: script.length - fitting.length,
+  };
+}
+
+function createScene(
+  entry: ScriptScene,
+  template: Scene,
+  templates: MotionTemplate[],
+  isFirst: boolean,
+): Scene {
+  const motionTemplate = templates.find(
+    (option) => option.id === entry.motionTemplate,
+  );
+  return {
+    id: nanoid(),
+    title: entry.title,
+    description: entry.description,
+    duration: entry.duration,
+    gradientId: entry.gradientId ?? template.gradientId,
+    background: entry.gradientId
+      ? cloneBackground(DEFAULT_BACKGROUND)
+      : cloneBackground(template.background),
+    textColor: template.textColor,
+    accent: template.accent,
+    typography: cloneTypography(template.typography),
+    layers: createDefaultLayers(
+      motionTemplate?.motion ?? extractSceneMotion(template.layers),
+    ),
+    motionTemplate: motionTemplate?.id ?? template.motionTemplate,
+    transition: isFirst
+      ? { ...template.transition, type: "cut" }
+      : { ...template.transition },
+  };
+}
+
+function parseSettings(
+  block: string[],
+  where: string,
+  options: { gradients: AnyGradient[]; templates: MotionTemplate[] },
+  warnings: string[],
+): Settings {
+  const settings: Settings = {};
+  const matches = (value: string, entry: { id: string; label: string }) =>
+    entry.id.toLowerCase() === value.toLowerCase() ||
+    entry.label.toLowerCase() === value.toLowerCase();
+
+  for (const line of block) {
+    const match = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].replace(/^["']|["']$/g, "");
+
+    switch (key) {
+      case "duration": {
+        const seconds = parseFloat(value);
+        if (!Number.isFinite(seconds)) {
+          warnings.push(`Duration "${value}" ${where} is not a number.`);
+          break;
+        }
+        settings.duration = clamp(seconds, MIN_DURATION, MAX_DURATION);
+        if (settings.duration !== seconds) {
+          warnings.push(
+            `Duration ${seconds}s ${where} was clamped to ${settings.duration}s.`,
+          );
+        }
+        break;
+      }
+      case "gradient": {
+        const gradient = options.gradients.find((entry) =>
+          matches(value, entry),
+        );
+        if (gradient) settings.gradientId = gradient.id;
+        else warnings.push(`Unknown gradient "${value}" ${where}.`);
+        break;
+      }
+      case "animation":
+      case "motion": {
+        const template = options.templates.find((entry) =>
+          matches(value, entry),
+        );
+        if (template) settings.template = template.id;
+        else warnings.push(`Unknown animation "${value}" ${where}.`);
+        break;
+      }
+      default:
+        warnings.push(`Ignored front-matter key "${match[1]}" ${where}.`);
+    }
+  }
+  return settings;
+}
+
+/** Joins wrapped lines with spaces but keeps each bullet on its own line. */
+function joinLines(lines: string[]) {
+  return lines.reduce(
+    (text, line) =>
+      !text ? line : `${text}${line.startsWith("• ") ? "\n" : " "}${line}`,
+    "",
+  );
+}
+
+/** List markers become bullets; the rest goes through `cleanInline`. */
+function cleanLine(line: string) {
+  return cleanInline(line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "• "));
+}
+
+/**
+ * Reduces inline Markdown to plain text. Bold and italic become the
+ * storyboard's own `*emphasis*`.
+ */
+function cleanInline(text: string) {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "*$2*")
+    .replace(/(^|\W)_(.+?)_(?=\W|$)/g, "$1*$2*")
+    .replace(/^>\s?/, "")
+    .trim();
+}
@@ -0,0 +1,118 @@
+import {
+  deserializeProject,
+  serializeProject,
+  type Project,
+} from "@/lib/project";
+import { loadProject } from "@/lib/project-store";
+
+export const REVIEW_PATH = "/review";
+
+/**
+ * Longest project fragment a review link embeds. Browsers take URLs far
+ * longer, but mail and chat clients truncate or refuse them past a few KB,
+ * so anything with uploaded media has to travel as a project file.
+ */
+const MAX_FRAGMENT_LENGTH = 8_000;
+
+export type ReviewLink = {
+  url: string;
+  /**
+   * Whether the project travels inside the link. Otherwise it only opens
+   * where the project is stored: this browser, on this device.
+   */
+  embedded: boolean;
+};
+
+/**
+ * A read-only review link for `project`: the gzipped project document in
+ * the URL fragment, which never reaches a server, or its local project ID
+ * when the document is too big to embed.
+ */
+export async function createReviewLink(
+  project: Project,
+  origin = window.location.origin,
+): Promise<ReviewLink> {
+  const base = `${origin}${REVIEW_PATH}`;
+  if (supportsCompression()) {
+    const document = await serializeProject(project);
+    const fragment = await compress(JSON.stringify(document));
+    if (fragment.length <= MAX_FRAGMENT_LENGTH) {
+      return { url: `${base}#project=${fragment}`, embedded: true };
+    }
+  }
+  return {
+    url: `${base}?project=${encodeURIComponent(project.id)}`,
+    embedded: false,
+  };
+}
+
+/** Opens the project a review page's URL points at. */
+export async function loadReviewProject(location: {
+  hash: string;
+  search: string;
+}): Promise<Project> {
+  const fragment = new URLSearchParams(location.hash.slice(1)).get("project");
+  if (fragment) {
+    if (!supportsCompression()) {
+      throw new Error("This browser cannot open embedded review links.");
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await decompress(fragment));
+    } catch {
+      throw new Error("This review link is damaged or incomplete.");
+    }
+    return deserializeProject(parsed);
+  }
+
+  const id = new URLSearchParams(location.search).get("project");
+  if (!id) {
+    throw new Error("This review link does not point at a project.");
+  }
+  const project = await loadProject(id).catch(() => null);
+  if (!project) {
+    throw new Error(
+      "This project is stored in another browser. Ask its author for a link that embeds the project.",
+    );
+  }
+  return project;
+}
+
+function supportsCompression() {
+  return (
+    typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined"
+  );
+}
+
+async function compress(text: string) {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  return toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+async function decompress(fragment: string) {
+  const stream = new Blob([fromBase64Url(fragment)])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked so long fragments stay under the argument-count limit.
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0));
+}
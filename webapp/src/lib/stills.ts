@@ -0,0 +1,465 @@
+import { slugify } from "@/lib/assets";
+import type { CustomGradient } from "@/lib/backgrounds";
+import type { ResolvedWatermark } from "@/lib/brand";
+import {
+  canvasToImage,
+  createRenderContext,
+  type ImageType,
+  type RenderContext,
+} from "@/lib/canvas";
+import { clamp } from "@/lib/easing";
+import {
+  prepareSceneFonts,
+  resolveFontStack,
+  type FontAsset,
+} from "@/lib/fonts";
+import { preloadSceneImages, seekSceneVideos } from "@/lib/media";
+import { computeFrameLayout, type FrameLayout } from "@/lib/output";
+import { createPdf, type PdfPage } from "@/lib/pdf";
+import type { Scene } from "@/lib/scene";
+import {
+  createFrameBuffers,
+  renderCompositionFrame,
+  renderSceneFrame,
+  type BurnedCaptions,
+} from "@/lib/scene-draw";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+  type SceneTiming,
+} from "@/lib/transitions";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+export type StillFormat = "png" | "jpeg" | "webp";
+
+export type ContactSheetFormat = "png" | "pdf";
+
+export const STILL_FORMATS: {
+  id: StillFormat;
+  label: string;
+  mimeType: ImageType;
+  extension: string;
+  lossy: boolean;
+}[] = [
+  {
+    id: "png",
+    label: "PNG",
+    mimeType: "image/png",
+    extension: "png",
+    lossy: false,
+  },
+  {
+    id: "jpeg",
+    label: "JPEG",
+    mimeType: "image/jpeg",
+    extension: "jpg",
+    lossy: true,
+  },
+  {
+    id: "webp",
+    label: "WebP",
+    mimeType: "image/webp",
+    extension: "webp",
+    lossy: true,
+  },
+];
+
+/** Where in each scene thumbnails are taken, once the headline has landed. */
+export const DEFAULT_STILL_PROGRESS = 0.6;
+export const DEFAULT_STILL_QUALITY = 0.9;
+export const DEFAULT_CONTACT_SHEET_COLUMNS = 3;
+
+/** Long edge of per-scene thumbnails, in pixels. */
+const THUMBNAIL_SIZE = 640;
+
+/** Contact sheet metrics, in sheet pixels. */
+const SHEET = {
+  cellWidth: 360,
+  gap: 24,
+  margin: 48,
+  header: 64,
+  label: 52,
+  /** Tallest single PNG sheet; longer storyboards split into pages. */
+  maxPngHeight: 16_000,
+  /** PDF pages follow A4 landscape proportions. */
+  pageAspect: 297 / 210,
+  background: "#0b1120",
+  border: "rgba(255, 255, 255, 0.12)",
+  text: "#e2e8f0",
+  muted: "#94a3b8",
+  accent: "#60a5fa",
+};
+
+/** What stills are drawn from: the same inputs as a video render. */
+export type StillJob = {
+  scenes: Scene[];
+  width: number;
+  height: number;
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  watermark: ResolvedWatermark | null;
+  captions: BurnedCaptions | null;
+};
+
+/** One scene's line on the contact sheet, matching its timeline label. */
+export type ContactSheetEntry = {
+  number: number;
+  title: string;
+  duration: number;
+  start: number;
+};
+
+/** A still export as the panel asks for it. */
+export type StillRequest =
+  | { kind: "poster"; time: number; format: StillFormat; quality: number }
+  | {
+      kind: "thumbnails";
+      progress: number;
+      format: StillFormat;
+      quality: number;
+    }
+  | {
+      kind: "contact-sheet";
+      progress: number;
+      columns: number;
+      format: ContactSheetFormat;
+    };
+
+export function getStillFormat(format: StillFormat) {
+  return STILL_FORMATS.find((entry) => entry.id === format) ?? STILL_FORMATS[0];
+}
+
+/** Renders `request`, returning the file and a download name for it. */
+export async function renderStill(
+  job: StillJob,
+  request: StillRequest,
+  title: string,
+): Promise<{ blob: Blob; filename: string }> {
+  const basename = slugify(title) || "storyboard";
+  switch (request.kind) {
+    case "poster":
+      return {
+        blob: await renderPoster(
+          job,
+          request.time,
+          request.format,
+          request.quality,
+        ),
+        filename: `${basename}-poster.${getStillFormat(request.format).extension}`,
+      };
+    case "thumbnails":
+      return {
+        blob: await renderSceneThumbnails(
+          job,
+          request.progress,
+          request.format,
+          request.quality,
+        ),
+        filename: `${basename}-thumbnails.zip`,
+      };
+    case "contact-sheet": {
+      const blob = await renderContactSheet(job, { ...request, title });
+      const extension =
+        blob.type === "application/zip" ? "zip" : request.format;
+      return { blob, filename: `${basename}-contact-sheet.${extension}` };
+    }
+  }
+}
+
+/**
+ * The frame at `time` seconds, exactly as the video shows it, watermark
+ * and burned-in captions included.
+ */
+export async function renderPoster(
+  job: StillJob,
+  time: number,
+  format: StillFormat,
+  quality = DEFAULT_STILL_QUALITY,
+): Promise<Blob> {
+  const timings = computeSceneTimings(job.scenes);
+  const duration = totalDurationForTimings(timings);
+  const at = clamp(time, 0, Math.max(0, duration - 1e-3));
+  const layout = computeFrameLayout(job.width, job.height);
+  const context = createRenderContext(job.width, job.height);
+
+  await prepareStills(job);
+  await seekSceneVideos(job.scenes, at, timings);
+  renderCompositionFrame(
+    context,
+    job.scenes,
+    at,
+    layout,
+    createFrameBuffers(layout),
+    timings,
+    {
+      gradients: job.gradients,
+      watermark: job.watermark,
+      captions: job.captions,
+    },
+  );
+  return new Blob([await encodeStill(context, format, quality)], {
+    type: getStillFormat(format).mimeType,
+  });
+}
+
+/**
+ * One image per scene at `progress` through it, scaled down to thumbnail
+ * size and packed into a ZIP named by scene number and title.
+ */
+export async function renderSceneThumbnails(
+  job: StillJob,
+  progress: number,
+  format: StillFormat,
+  quality = DEFAULT_STILL_QUALITY,
+): Promise<Blob> {
+  const spec = getStillFormat(format);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(job.width, job.height));
+  const width = Math.round(job.width * scale);
+  const height = Math.round(job.height * scale);
+  const thumbnail = createRenderContext(width, height);
+  const draw = await createSceneDrawer(job);
+
+  const entries: ZipEntry[] = [];
+  for (const [index, scene] of job.scenes.entries()) {
+    const frame = await draw(index, progress);
+    thumbnail.clearRect(0, 0, width, height);
+    thumbnail.drawImage(frame.canvas, 0, 0, width, height);
+    const name = slugify(scene.title).slice(0, 40);
+    entries.push({
+      name: `scene-${String(index + 1).padStart(2, "0")}${name ? `-${name}` : ""}.${spec.extension}`,
+      data: new Uint8Array(await encodeStill(thumbnail, format, quality)),
+    });
+  }
+  return createZip(entries);
+}
+
+export function describeContactSheet(
+  scenes: Scene[],
+  timings: SceneTiming[] = computeSceneTimings(scenes),
+): ContactSheetEntry[] {
+  return scenes.map((scene, index) => ({
+    number: index + 1,
+    title: scene.title,
+    duration: scene.duration,
+    start: timings[index]?.start ?? 0,
+  }));
+}
+
+/**
+ * A grid of scene frames at `progress`, each labelled with its number,
+ * duration, start time and title. PNG sheets are one image unless they
+ * would grow too tall, in which case the pages come zipped; PDFs put
+ * A4-landscape pages of rows into one document.
+ */
+export async function renderContactSheet(
+  job: StillJob,
+  options: {
+    title: string;
+    columns: number;
+    progress: number;
+    format: ContactSheetFormat;
+  },
+): Promise<Blob> {
+  const timings = computeSceneTimings(job.scenes);
+  const entries = describeContactSheet(job.scenes, timings);
+  const totalDuration = totalDurationForTimings(timings);
+  const columns = clamp(Math.round(options.columns), 1, 8);
+  const rows = Math.ceil(entries.length / columns);
+
+  const cellHeight = Math.round((SHEET.cellWidth * job.height) / job.width);
+  const rowHeight = cellHeight + SHEET.label;
+  const width =
+    SHEET.margin * 2 + columns * SHEET.cellWidth + (columns - 1) * SHEET.gap;
+  const heightFor = (rowCount: number) =>
+    SHEET.margin * 2 +
+    SHEET.header +
+    rowCount * rowHeight +
+    Math.max(0, rowCount - 1) * SHEET.gap;
+  const rowsThatFit = (height: number) =>
+    Math.max(
+      1,
+      Math.floor(
+        (height - SHEET.margin * 2 - SHEET.header + SHEET.gap) /
+          (rowHeight + SHEET.gap),
+      ),
+    );
+  const rowsPerPage =
+    options.format === "pdf"
+      ? rowsThatFit(Math.round(width / SHEET.pageAspect))
+      : heightFor(rows) <= SHEET.maxPngHeight
+        ? rows
+        : rowsThatFit(SHEET.maxPngHeight);
+  const pageCount = Math.max(1, Math.ceil(rows / rowsPerPage));
+
+  const draw = await createSceneDrawer(job);
+  // Each page is encoded as soon as it is drawn, so only one page's
+  // pixels are held at a time.
+  const pdfPages: PdfPage[] = [];
+  const pngs: ArrayBuffer[] = [];
+  for (let page = 0; page < pageCount; page += 1) {
+    const pageRows = Math.min(rowsPerPage, rows - page * rowsPerPage);
+    const height =
+      options.format === "pdf"
+        ? Math.max(heightFor(pageRows), Math.round(width / SHEET.pageAspect))
+        : heightFor(pageRows);
+    const context = createRenderContext(width, height);
+    context.fillStyle = SHEET.background;
+    context.fillRect(0, 0, width, height);
+    drawSheetHeader(
+      context,
+      width,
+      options.title,
+      `${entries.length} ${entries.length === 1 ? "scene" : "scenes"} · ${totalDuration.toFixed(1)}s${
+        pageCount > 1 ? ` · page ${page + 1} of ${pageCount}` : ""
+      }`,
+    );
+
+    const first = page * rowsPerPage * columns;
+    const pageEntries = entries.slice(first, first + pageRows * columns);
+    for (const [offset, entry] of pageEntries.entries()) {
+      const x =
+        SHEET.margin + (offset % columns) * (SHEET.cellWidth + SHEET.gap);
+      const y =
+        SHEET.margin +
+        SHEET.header +
+        Math.floor(offset / columns) * (rowHeight + SHEET.gap);
+      const frame = await draw(entry.number - 1, options.progress);
+      context.drawImage(frame.canvas, x, y, SHEET.cellWidth, cellHeight);
+      context.strokeStyle = SHEET.border;
+      context.lineWidth = 1;
+      context.strokeRect(x + 0.5, y + 0.5, SHEET.cellWidth - 1, cellHeight - 1);
+      drawSheetLabel(context, entry, x, y + cellHeight);
+    }
+    if (options.format === "pdf") {
+      pdfPages.push({
+        jpeg: new Uint8Array(
+          await canvasToImage(context.canvas, "image/jpeg", 0.92),
+        ),
+        width,
+        height,
+      });
+    } else {
+      pngs.push(await canvasToImage(context.canvas, "image/png"));
+    }
+  }
+
+  if (options.format === "pdf") {
+    return createPdf(pdfPages, options.title);
+  }
+  if (pngs.length === 1) {
+    return new Blob([pngs[0]], { type: "image/png" });
+  }
+  return createZip(
+    pngs.map((png, index) => ({
+      name: `contact-sheet-${index + 1}.png`,
+      data: new Uint8Array(png),
+    })),
+  );
+}
+
+/** Loads what scene frames need before the first one is drawn. */
+async function prepareStills(job: StillJob) {
+  await Promise.all([
+    preloadSceneImages(job.scenes, job.watermark ? [job.watermark.logo] : []),
+    prepareSceneFonts(job.scenes, job.fonts),
+  ]);
+}
+
+/**
+ * Returns a function drawing scene `index` at `progress` at full output
+ * size, with its video background seeked to the matching moment.
+ */
+async function createSceneDrawer(job: StillJob) {
+  const timings = computeSceneTimings(job.scenes);
+  const layout: FrameLayout = computeFrameLayout(job.width, job.height);
+  const context = createRenderContext(job.width, job.height);
+  await prepareStills(job);
+
+  return async (index: number, progress: number) => {
+    const scene = job.scenes[index];
+    const at = clamp(progress, 0, 1);
+    await seekSceneVideos(
+      job.scenes,
+      (timings[index]?.start ?? 0) + at * scene.duration,
+      timings,
+    );
+    renderSceneFrame(context, scene, at, layout, {
+      gradients: job.gradients,
+    });
+    return context;
+  };
+}
+
+function drawSheetHeader(
+  context: RenderContext,
+  width: number,
+  title: string,
+  summary: string,
+) {
+  context.save();
+  context.textBaseline = "top";
+  context.fillStyle = SHEET.text;
+  context.font = `700 24px ${resolveFontStack("Inter")}`;
+  context.fillText(
+    fitText(context, title || "Storyboard", width - SHEET.margin * 2),
+    SHEET.margin,
+    SHEET.margin,
+  );
+  context.fillStyle = SHEET.muted;
+  context.font = `500 14px ${resolveFontStack("Inter")}`;
+  context.fillText(summary, SHEET.margin, SHEET.margin + 32);
+  context.restore();
+}
+
+/** The timeline's "Scene N · 4.0s" with the start time, then the title. */
+function drawSheetLabel(
+  context: RenderContext,
+  entry: ContactSheetEntry,
+  x: number,
+  y: number,
+) {
+  const right = x + SHEET.cellWidth;
+  context.save();
+  context.textBaseline = "top";
+  context.font = `700 13px ${resolveFontStack("Inter")}`;
+  context.fillStyle = SHEET.text;
+  context.fillText(
+    `Scene ${entry.number} · ${entry.duration.toFixed(1)}s`,
+    x,
+    y + 10,
+  );
+  context.textAlign = "right";
+  context.fillStyle = SHEET.accent;
+  context.fillText(`${entry.start.toFixed(1)}s`, right, y + 10);
+  context.textAlign = "left";
+  context.font = `500 13px ${resolveFontStack("Inter")}`;
+  context.fillStyle = SHEET.muted;
+  context.fillText(fitText(context, entry.title, SHEET.cellWidth), x, y + 30);
+  context.restore();
+}
+
+/** Truncates `text` with an ellipsis to fit `maxWidth` in the current font. */
+function fitText(context: RenderContext, text: string, maxWidth: number) {
+  if (context.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (
+    end > 0 &&
+    context.measureText(`${text.slice(0, end)}…`).width > maxWidth
+  ) {
+    end -= 1;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+async function encodeStill(
+  context: RenderContext,
+  format: StillFormat,
+  quality: number,
+) {
+  const spec = getStillFormat(format);
+  return canvasToImage(
+    context.canvas,
+    spec.mimeType,
+    spec.lossy ? quality : undefined,
+  );
+}
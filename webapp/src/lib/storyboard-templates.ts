@@ -0,0 +1,449 @@
+import { nanoid } from "nanoid";
+import type { SceneAnimation } from "@/lib/animation";
+import {
+  DEFAULT_BACKGROUND,
+  cloneBackground,
+  type CustomGradient,
+  type GradientAnimation,
+} from "@/lib/backgrounds";
+import type { FontAsset } from "@/lib/fonts";
+import { cloneLayers, createDefaultLayers } from "@/lib/layers";
+import { motionFromPreset } from "@/lib/motion";
+import {
+  createProject,
+  type Project,
+  type ProjectSettings,
+} from "@/lib/project";
+import type { Scene } from "@/lib/scene";
+import { DEFAULT_TRANSITION, type SceneTransition } from "@/lib/transitions";
+import {
+  DEFAULT_TYPOGRAPHY,
+  cloneTypography,
+  type SceneTypography,
+} from "@/lib/typography";
+
+/** A complete storyboard to start new projects from. */
+export type StoryboardTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  scenes: Scene[];
+  /** Project gradients the scenes reference. */
+  gradients: CustomGradient[];
+  /** Uploaded fonts the scenes' typography uses. */
+  fonts: FontAsset[];
+  /** Canvas and export settings; built-ins keep the current ones. */
+  settings: ProjectSettings | null;
+};
+
+type SceneSpec = {
+  title: string;
+  description: string;
+  duration: number;
+  gradientId: string;
+  animation: SceneAnimation;
+  gradientAnimation?: GradientAnimation;
+  transition?: Partial<SceneTransition>;
+};
+
+type TemplateSpec = {
+  id: string;
+  name: string;
+  description: string;
+  textColor: string;
+  accent: string;
+  typography: Partial<Omit<SceneTypography, "title" | "body">>;
+  gradients: CustomGradient[];
+  scenes: SceneSpec[];
+};
+
+const TEMPLATE_SPECS: TemplateSpec[] = [
+  {
+    id: "product-launch",
+    name: "Product Launch",
+    description: "Hook, problem, solution and a launch-day call to action.",
+    textColor: "#f8fafc",
+    accent: "#facc15",
+    typography: { animation: "word-fade" },
+    gradients: [
+      {
+        id: "template-launch-ember",
+        label: "Launch Ember",
+        type: "linear",
+        angle: 120,
+        stops: [
+          { at: 0, color: "#1e1b4b" },
+          { at: 0.55, color: "#9d174d" },
+          { at: 1, color: "#f97316" },
+        ],
+      },
+    ],
+    scenes: [
+      {
+        title: "Meet *Product Name*",
+        description: "The one-line promise that makes people lean in.",
+        duration: 3.5,
+        gradientId: "template-launch-ember",
+        animation: "zoom",
+        gradientAnimation: { hueShift: 0, stopDrift: 0.15 },
+      },
+      {
+        title: "The old way is *broken*",
+        description:
+          "Describe the everyday frustration your audience knows too well.",
+        duration: 4,
+        gradientId: "midnight",
+        animation: "slide",
+      },
+      {
+        title: "So we built something better",
+        description:
+          "Show the core idea in a sentence or two. Keep it concrete.",
+        duration: 4,
+        gradientId: "aurora",
+        animation: "drift",
+        transition: { type: "push" },
+      },
+      {
+        title: "Made for *your team*",
+        description: "• Benefit one\n• Benefit two\n• Benefit three",
+        duration: 4.5,
+        gradientId: "sunset",
+        animation: "slide",
+      },
+      {
+        title: "Available *today*",
+        description: "yourproduct.com · Start free",
+        duration: 3,
+        gradientId: "template-launch-ember",
+        animation: "zoom",
+        transition: { type: "zoom-through" },
+      },
+    ],
+  },
+  {
+    id: "feature-walkthrough",
+    name: "Feature Walkthrough",
+    description: "Step-by-step tour of a feature with numbered beats.",
+    textColor: "#e2e8f0",
+    accent: "#38bdf8",
+    typography: { animation: "line-slide" },
+    gradients: [
+      {
+        id: "template-walkthrough-slate",
+        label: "Walkthrough Slate",
+        type: "radial",
+        angle: 0,
+        stops: [
+          { at: 0, color: "#334155" },
+          { at: 1, color: "#020617" },
+        ],
+      },
+    ],
+    scenes: [
+      {
+        title: "How to *Feature Name*",
+        description: "A quick tour in three steps.",
+        duration: 3,
+        gradientId: "template-walkthrough-slate",
+        animation: "zoom",
+      },
+      {
+        title: "*1* · Open the panel",
+        description: "Say where to click and what appears.",
+        duration: 4,
+        gradientId: "template-walkthrough-slate",
+        animation: "slide",
+        transition: { type: "wipe-left" },
+      },
+      {
+        title: "*2* · Set it up",
+        description: "Walk through the one setting that matters most.",
+        duration: 4,
+        gradientId: "template-walkthrough-slate",
+        animation: "slide",
+        transition: { type: "wipe-left" },
+      },
+      {
+        title: "*3* · See the result",
+        description: "Show what changes and why it saves time.",
+        duration: 4,
+        gradientId: "template-walkthrough-slate",
+        animation: "slide",
+        transition: { type: "wipe-left" },
+      },
+      {
+        title: "Try it now",
+        description: "Available on every plan. Docs at yoursite.com/docs",
+        duration: 3,
+        gradientId: "midnight",
+        animation: "drift",
+      },
+    ],
+  },
+  {
+    id: "event-promo",
+    name: "Event Promo",
+    description: "Date, lineup and tickets for a talk, meetup or launch party.",
+    textColor: "#fff7ed",
+    accent: "#fb7185",
+    typography: { align: "center", anchor: "middle", animation: "word-fade" },
+    gradients: [
+      {
+        id: "template-event-neon",
+        label: "Event Neon",
+        type: "conic",
+        angle: 45,
+        stops: [
+          { at: 0, color: "#7c3aed" },
+          { at: 0.5, color: "#db2777" },
+          { at: 1, color: "#7c3aed" },
+        ],
+      },
+    ],
+    scenes: [
+      {
+        title: "*Event Name* 2025",
+        description: "One night. One city. Big ideas.",
+        duration: 3.5,
+        gradientId: "template-event-neon",
+        animation: "zoom",
+        gradientAnimation: { hueShift: 40, stopDrift: 0 },
+      },
+      {
+        title: "June 12 · *Venue*",
+        description: "Doors at 6pm, talks from 7pm",
+        duration: 3,
+        gradientId: "sunset",
+        animation: "slide",
+        transition: { type: "dip-to-color", color: "#020617" },
+      },
+      {
+        title: "Featuring",
+        description: "Speaker One · Speaker Two · Speaker Three",
+        duration: 4,
+        gradientId: "template-event-neon",
+        animation: "drift",
+        gradientAnimation: { hueShift: 40, stopDrift: 0 },
+      },
+      {
+        title: "Get your *tickets*",
+        description: "yourevent.com — early bird ends soon",
+        duration: 3.5,
+        gradientId: "sunset",
+        animation: "zoom",
+        transition: { type: "zoom-through" },
+      },
+    ],
+  },
+  {
+    id: "quote-cards",
+    name: "Quote Card Series",
+    description: "Customer or speaker quotes, one per card.",
+    textColor: "#f8fafc",
+    accent: "#a5b4fc",
+    typography: { align: "center", anchor: "middle", animation: "typewriter" },
+    gradients: [
+      {
+        id: "template-quote-ink",
+        label: "Quote Ink",
+        type: "linear",
+        angle: 160,
+        stops: [
+          { at: 0, color: "#0f172a" },
+          { at: 1, color: "#312e81" },
+        ],
+      },
+    ],
+    scenes: [
+      {
+        title: "“This changed how our team *works*.”",
+        description: "— Name, Role at Company",
+        duration: 4.5,
+        gradientId: "template-quote-ink",
+        animation: "drift",
+      },
+      {
+        title: "“We shipped in *half the time*.”",
+        description: "— Name, Role at Company",
+        duration: 4.5,
+        gradientId: "template-quote-ink",
+        animation: "drift",
+      },
+      {
+        title: "“I can’t imagine going *back*.”",
+        description: "— Name, Role at Company",
+        duration: 4.5,
+        gradientId: "template-quote-ink",
+        animation: "drift",
+      },
+      {
+        title: "Join them",
+        description: "yourproduct.com",
+        duration: 3,
+        gradientId: "midnight",
+        animation: "zoom",
+      },
+    ],
+  },
+  {
+    id: "changelog-recap",
+    name: "Changelog Recap",
+    description: "What shipped this release: new, improved and fixed.",
+    textColor: "#ecfeff",
+    accent: "#34d399",
+    typography: { animation: "line-slide" },
+    gradients: [
+      {
+        id: "template-changelog-mint",
+        label: "Changelog Mint",
+        type: "linear",
+        angle: 135,
+        stops: [
+          { at: 0, color: "#022c22" },
+          { at: 1, color: "#0e7490" },
+        ],
+      },
+    ],
+    scenes: [
+      {
+        title: "What’s new in *v2.4*",
+        description: "The highlights from this release.",
+        duration: 3,
+        gradientId: "template-changelog-mint",
+        animation: "zoom",
+      },
+      {
+        title: "*New* · Headline feature",
+        description: "One sentence on what it does and who it’s for.",
+        duration: 4,
+        gradientId: "template-changelog-mint",
+        animation: "slide",
+        transition: { type: "push" },
+      },
+      {
+        title: "*Improved* · Faster everywhere",
+        description: "• Improvement one\n• Improvement two",
+        duration: 4,
+        gradientId: "template-changelog-mint",
+        animation: "slide",
+        transition: { type: "push" },
+      },
+      {
+        title: "*Fixed* · Papercuts",
+        description: "• Fix one\n• Fix two\n• Fix three",
+        duration: 4,
+        gradientId: "template-changelog-mint",
+        animation: "slide",
+        transition: { type: "push" },
+      },
+      {
+        title: "Thanks for the feedback",
+        description: "Full notes at yoursite.com/changelog",
+        duration: 3,
+        gradientId: "aurora",
+        animation: "drift",
+      },
+    ],
+  },
+];
+
+export const STORYBOARD_TEMPLATES: StoryboardTemplate[] = TEMPLATE_SPECS.map(
+  (spec) => ({
+    id: spec.id,
+    name: spec.name,
+    description: spec.description,
+    builtIn: true,
+    scenes: spec.scenes.map((scene, index) => buildScene(spec, scene, index)),
+    gradients: spec.gradients,
+    fonts: [],
+    settings: null,
+  }),
+);
+
+/**
+ * Snapshots a project as a personal template. Voice-overs stay behind,
+ * and only the gradients and fonts the scenes use are kept.
+ */
+export function createTemplateFromProject(
+  project: Project,
+  name: string,
+  description: string,
+): StoryboardTemplate {
+  const scenes = project.scenes.map(
+    ({ voiceOver: _voiceOver, ...scene }) => scene,
+  );
+  const families = new Set(
+    scenes.flatMap(({ typography }) => [
+      typography.title.family,
+      typography.body.family,
+    ]),
+  );
+  return {
+    id: nanoid(),
+    name,
+    description,
+    builtIn: false,
+    scenes,
+    gradients: project.gradients.filter((gradient) =>
+      scenes.some((scene) => scene.gradientId === gradient.id),
+    ),
+    fonts: project.fonts.filter((font) => families.has(font.family)),
+    settings: project.settings,
+  };
+}
+
+/** A new project with copies of the template's scenes. */
+export function createProjectFromTemplate(
+  template: StoryboardTemplate,
+  settings: ProjectSettings,
+): Project {
+  return {
+    ...createProject(template.settings ?? settings, template.name),
+    scenes: template.scenes.map(copyScene),
+    gradients: template.gradients.map((gradient) => ({
+      ...gradient,
+      stops: gradient.stops.map((stop) => ({ ...stop })),
+    })),
+    fonts: [...template.fonts],
+  };
+}
+
+function copyScene(scene: Scene): Scene {
+  return {
+    ...scene,
+    id: nanoid(),
+    background: cloneBackground(scene.background),
+    typography: cloneTypography(scene.typography),
+    layers: cloneLayers(scene.layers),
+    transition: { ...scene.transition },
+  };
+}
+
+function buildScene(
+  spec: TemplateSpec,
+  scene: SceneSpec,
+  index: number,
+): Scene {
+  return {
+    id: nanoid(),
+    title: scene.title,
+    description: scene.description,
+    duration: scene.duration,
+    gradientId: scene.gradientId,
+    background: scene.gradientAnimation
+      ? { kind: "gradient", animation: { ...scene.gradientAnimation } }
+      : cloneBackground(DEFAULT_BACKGROUND),
+    textColor: spec.textColor,
+    accent: spec.accent,
+    typography: { ...cloneTypography(DEFAULT_TYPOGRAPHY), ...spec.typography },
+    layers: createDefaultLayers(motionFromPreset(scene.animation)),
+    motionTemplate: scene.animation,
+    transition: {
+      ...DEFAULT_TRANSITION,
+      ...scene.transition,
+      ...(index === 0 && { type: "cut" }),
+    },
+  };
+}
@@ -0,0 +1,205 @@
+import { clamp, easeInOut } from "@/lib/easing";
+import type { RenderContext } from "@/lib/canvas";
+
+export type TransitionType =
+  | "cut"
+  | "crossfade"
+  | "wipe-left"
+  | "wipe-right"
+  | "push"
+  | "zoom-through"
+  | "dip-to-color";
+
+export type SceneTransition = {
+  type: TransitionType;
+  duration: number;
+  color: string;
+};
+
+export const TRANSITION_OPTIONS: { id: TransitionType; label: string }[] = [
+  { id: "cut", label: "Cut" },
+  { id: "crossfade", label: "Crossfade" },
+  { id: "wipe-left", label: "Wipe Left" },
+  { id: "wipe-right", label: "Wipe Right" },
+  { id: "push", label: "Push" },
+  { id: "zoom-through", label: "Zoom" },
+  { id: "dip-to-color", label: "Dip" },
+];
+
+export const MIN_TRANSITION = 0.2;
+export const MAX_TRANSITION = 2;
+
+export const DEFAULT_TRANSITION: SceneTransition = {
+  type: "crossfade",
+  duration: 0.6,
+  color: "#020617",
+};
+
+type TimedScene = {
+  duration: number;
+  transition: SceneTransition;
+};
+
+export type SceneTiming = {
+  start: number;
+  end: number;
+  overlap: number;
+};
+
+export type FrameSample =
+  | { kind: "scene"; index: number; progress: number }
+  | {
+      kind: "transition";
+      from: number;
+      fromProgress: number;
+      to: number;
+      toProgress: number;
+      transition: SceneTransition;
+      mix: number;
+    };
+
+/**
+ * A scene's transition describes how it enters from the previous scene. The
+ * incoming scene starts `overlap` seconds before the outgoing one ends, so
+ * both keep animating while they are blended together.
+ */
+export function computeSceneTimings(scenes: TimedScene[]): SceneTiming[] {
+  const timings: SceneTiming[] = [];
+  let cursor = 0;
+
+  scenes.forEach((scene, index) => {
+    const previous = scenes[index - 1];
+    const overlap = previous
+      ? transitionOverlap(previous.duration, scene.duration, scene.transition)
+      : 0;
+    const start = Math.max(0, cursor - overlap);
+    const end = start + scene.duration;
+    timings.push({ start, end, overlap });
+    cursor = end;
+  });
+
+  return timings;
+}
+
+export function totalDurationForTimings(timings: SceneTiming[]) {
+  return timings.length ? timings[timings.length - 1].end : 0;
+}
+
+export function sampleTimeline(
+  scenes: TimedScene[],
+  time: number,
+  timings: SceneTiming[] = computeSceneTimings(scenes),
+): FrameSample | null {
+  if (!scenes.length) return null;
+
+  const totalDuration = totalDurationForTimings(timings);
+  if (time >= totalDuration) {
+    return { kind: "scene", index: scenes.length - 1, progress: 1 };
+  }
+
+  for (let index = 0; index < scenes.length; index += 1) {
+    const timing = timings[index];
+    if (time < timing.start || time >= timing.end) continue;
+
+    const progress = (time - timing.start) / scenes[index].duration;
+    const next = timings[index + 1];
+
+    if (next && next.overlap > 0 && time >= next.start) {
+      return {
+        kind: "transition",
+        from: index,
+        fromProgress: progress,
+        to: index + 1,
+        toProgress: (time - next.start) / scenes[index + 1].duration,
+        transition: scenes[index + 1].transition,
+        mix: clamp((time - next.start) / next.overlap, 0, 1),
+      };
+    }
+
+    return { kind: "scene", index, progress };
+  }
+
+  return { kind: "scene", index: scenes.length - 1, progress: 1 };
+}
+
+export function composeTransition(
+  context: RenderContext,
+  from: CanvasImageSource,
+  to: CanvasImageSource,
+  transition: SceneTransition,
+  mix: number,
+  width: number,
+  height: number,
+) {
+  const eased = easeInOut(clamp(mix, 0, 1));
+  context.save();
+
+  switch (transition.type) {
+    case "cut":
+      context.drawImage(mix < 0.5 ? from : to, 0, 0, width, height);
+      break;
+    case "crossfade":
+      context.drawImage(from, 0, 0, width, height);
+      context.globalAlpha = mix;
+      context.drawImage(to, 0, 0, width, height);
+      break;
+    case "wipe-left":
+    case "wipe-right": {
+      const edge = width * eased;
+      context.drawImage(from, 0, 0, width, height);
+      context.beginPath();
+      if (transition.type === "wipe-left") {
+        context.rect(width - edge, 0, edge, height);
+      } else {
+        context.rect(0, 0, edge, height);
+      }
+      context.clip();
+      context.drawImage(to, 0, 0, width, height);
+      break;
+    }
+    case "push":
+      context.drawImage(from, -width * eased, 0, width, height);
+      context.drawImage(to, width * (1 - eased), 0, width, height);
+      break;
+    case "zoom-through":
+      drawScaled(context, from, 1 + eased * 0.35, 1 - eased, width, height);
+      drawScaled(context, to, 0.85 + eased * 0.15, eased, width, height);
+      break;
+    case "dip-to-color": {
+      const firstHalf = mix < 0.5;
+      const dip = firstHalf ? mix * 2 : (1 - mix) * 2;
+      context.drawImage(firstHalf ? from : to, 0, 0, width, height);
+      context.globalAlpha = clamp(dip, 0, 1);
+      context.fillStyle = transition.color;
+      context.fillRect(0, 0, width, height);
+      break;
+    }
+  }
+
+  context.restore();
+}
+
+function transitionOverlap(
+  previousDuration: number,
+  duration: number,
+  transition: SceneTransition,
+) {
+  if (transition.type === "cut") return 0;
+  return Math.min(transition.duration, previousDuration / 2, duration / 2);
+}
+
+function drawScaled(
+  context: RenderContext,
+  source: CanvasImageSource,
+  scale: number,
+  alpha: number,
+  width: number,
+  height: number,
+) {
+  context.save();
+  context.globalAlpha = clamp(alpha, 0, 1);
+  context.translate(width / 2, height / 2);
+  context.scale(scale, scale);
+  context.drawImage(source, -width / 2, -height / 2, width, height);
+  context.restore();
+}
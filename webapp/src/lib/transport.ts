@@ -0,0 +1,74 @@
+import { clamp } from "@/lib/easing";
+
+/** Preview loop bounds in seconds; `end` is exclusive. */
+export type LoopRange = {
+  start: number;
+  end: number;
+};
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+/** Frames the exporter produces for a timeline of `duration` seconds. */
+export function countFrames(duration: number, fps: number) {
+  return Math.max(1, Math.round(duration * fps));
+}
+
+/**
+ * The export frame on screen at `time`. Frame `n` covers
+ * `[n / fps, (n + 1) / fps)`, matching the exporter which samples frame `n`
+ * at exactly `n / fps`.
+ */
+export function frameAt(time: number, fps: number, duration: number) {
+  // The epsilon keeps times computed as `n / fps` from landing on `n - 1`.
+  return clamp(
+    Math.floor(time * fps + 1e-6),
+    0,
+    countFrames(duration, fps) - 1,
+  );
+}
+
+export function frameTime(frame: number, fps: number) {
+  return frame / fps;
+}
+
+export function snapToFrame(time: number, fps: number, duration: number) {
+  return frameTime(frameAt(time, fps, duration), fps);
+}
+
+/** Formats `time` as HH:MM:SS:FF on the `fps` grid. */
+export function formatTimecode(time: number, fps: number) {
+  const totalFrames = Math.floor(Math.max(0, time) * fps + 1e-6);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames,
+  ]
+    .map(pad)
+    .join(":");
+}
+
+/** Moves the playhead by `delta` seconds, wrapping at the end of `range`. */
+export function advancePlayhead(time: number, delta: number, range: LoopRange) {
+  const next = time + delta;
+  return next >= range.end ? range.start : next;
+}
+
+/**
+ * Clamps a loop range to the timeline, dropping it when it no longer spans
+ * at least one frame.
+ */
+export function normalizeLoopRange(
+  range: LoopRange | null,
+  fps: number,
+  duration: number,
+): LoopRange | null {
+  if (!range) return null;
+  const start = clamp(range.start, 0, duration);
+  const end = clamp(range.end, 0, duration);
+  return end - start >= 1 / fps ? { start, end } : null;
+}
@@ -0,0 +1,156 @@
+import { clamp } from "@/lib/easing";
+
+export type TextAlignment = "left" | "center" | "right";
+
+export type VerticalAnchor = "top" | "middle" | "bottom";
+
+export type TextAnimation = "none" | "typewriter" | "word-fade" | "line-slide";
+
+/**
+ * One text role (title or body). Sizes and spacing are in pixels of the
+ * 1280×720 reference frame; `lineHeight` is a multiple of `size`.
+ */
+export type TextRole = {
+  family: string;
+  size: number;
+  weight: number;
+  lineHeight: number;
+  letterSpacing: number;
+};
+
+export type SceneTypography = {
+  title: TextRole;
+  body: TextRole;
+  align: TextAlignment;
+  anchor: VerticalAnchor;
+  animation: TextAnimation;
+};
+
+/** A run of text; `emphasis` runs draw in the scene's accent color. */
+export type TextRun = {
+  text: string;
+  emphasis: boolean;
+};
+
+/** Matches the original fixed 64/70px Sora title and 30/44px Inter body. */
+export const DEFAULT_TYPOGRAPHY: SceneTypography = {
+  title: {
+    family: "Sora",
+    size: 64,
+    weight: 700,
+    lineHeight: 70 / 64,
+    letterSpacing: 0,
+  },
+  body: {
+    family: "Inter",
+    size: 30,
+    weight: 400,
+    lineHeight: 44 / 30,
+    letterSpacing: 0,
+  },
+  align: "left",
+  anchor: "top",
+  animation: "none",
+};
+
+export const TEXT_ANIMATIONS: { id: TextAnimation; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "typewriter", label: "Typewriter" },
+  { id: "word-fade", label: "Word Fade" },
+  { id: "line-slide", label: "Line Slide" },
+];
+
+export const FONT_WEIGHTS = [300, 400, 500, 600, 700, 800];
+
+/** Share of the scene the text reveal animations take to finish. */
+export const REVEAL_PORTION = 0.6;
+
+/**
+ * Splits `*emphasis*` markers out of `text`. An unmatched asterisk is kept
+ * as a literal character.
+ */
+export function parseEmphasis(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const pattern = /\*([^*]+)\*/g;
+  let cursor = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      runs.push({ text: text.slice(cursor, index), emphasis: false });
+    }
+    runs.push({ text: match[1], emphasis: true });
+    cursor = index + match[0].length;
+  }
+  if (cursor < text.length) {
+    runs.push({ text: text.slice(cursor), emphasis: false });
+  }
+  return runs;
+}
+
+/** Removes emphasis markers, e.g. for scene lists and captions. */
+export function stripEmphasis(text: string) {
+  return parseEmphasis(text)
+    .map((run) => run.text)
+    .join("");
+}
+
+export function cloneTypography(typography: SceneTypography): SceneTypography {
+  return {
+    ...typography,
+    title: { ...typography.title },
+    body: { ...typography.body },
+  };
+}
+
+/** Rebuilds typography from untrusted input, defaulting each field. */
+export function normalizeTypography(input: unknown): SceneTypography {
+  const raw = asRecord(input);
+  const pick = <T extends string>(
+    value: unknown,
+    options: readonly T[],
+    fallback: T,
+  ) => (options.includes(value as T) ? (value as T) : fallback);
+
+  return {
+    title: normalizeRole(raw.title, DEFAULT_TYPOGRAPHY.title),
+    body: normalizeRole(raw.body, DEFAULT_TYPOGRAPHY.body),
+    align: pick(raw.align, ["left", "center", "right"], "left"),
+    anchor: pick(raw.anchor, ["top", "middle", "bottom"], "top"),
+    animation: pick(
+      raw.animation,
+      TEXT_ANIMATIONS.map((option) => option.id),
+      "none",
+    ),
+  };
+}
+
+function normalizeRole(input: unknown, fallback: TextRole): TextRole {
+  const raw = asRecord(input);
+  const number = (
+    value: unknown,
+    fallbackValue: number,
+    min: number,
+    max: number,
+  ) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? clamp(value, min, max)
+      : fallbackValue;
+
+  return {
+    family:
+      typeof raw.family === "string" && raw.family.trim()
+        ? raw.family
+        : fallback.family,
+    size: number(raw.size, fallback.size, 8, 240),
+    weight: number(raw.weight, fallback.weight, 100, 900),
+    lineHeight: number(raw.lineHeight, fallback.lineHeight, 0.6, 3),
+    letterSpacing: number(raw.letterSpacing, fallback.letterSpacing, -10, 40),
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
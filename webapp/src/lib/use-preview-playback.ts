@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { CustomGradient } from "@/lib/backgrounds";
+import type { ResolvedWatermark } from "@/lib/brand";
+import { prepareSceneFonts, type FontAsset } from "@/lib/fonts";
+import { preloadSceneImages, seekSceneVideos } from "@/lib/media";
+import { computeFrameLayout, type OutputProfile } from "@/lib/output";
+import type { Scene } from "@/lib/scene";
+import {
+  createFrameBuffers,
+  renderCompositionFrame,
+  type BurnedCaptions,
+  type FrameBuffers,
+} from "@/lib/scene-draw";
+import type { SceneTiming } from "@/lib/transitions";
+import {
+  advancePlayhead,
+  frameAt,
+  frameTime,
+  normalizeLoopRange,
+  snapToFrame,
+  type LoopRange,
+} from "@/lib/transport";
+
+/**
+ * The canvas preview shared by the editor and review pages: the playback
+ * clock, transport state and the effects that draw the frame under the
+ * playhead. Attach `canvasRef` to a canvas sized to `output`.
+ */
+export function usePreviewPlayback({
+  scenes,
+  timings,
+  totalDuration,
+  output,
+  fonts,
+  gradients,
+  watermark,
+  captions,
+  autoPlay = false,
+}: {
+  scenes: Scene[];
+  timings: SceneTiming[];
+  totalDuration: number;
+  output: OutputProfile;
+  fonts: FontAsset[];
+  gradients: CustomGradient[];
+  watermark: ResolvedWatermark | null;
+  captions: BurnedCaptions | null;
+  autoPlay?: boolean;
+}) {
+  const [time, setTime] = useState(0);
+  const [isPlaying, setPlaying] = useState(autoPlay);
+  const [rate, setRate] = useState(1);
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+  const [loadedAssets, setLoadedAssets] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const buffersRef = useRef<FrameBuffers>();
+  const { fps } = output;
+
+  const activeLoopRange = useMemo(
+    () => normalizeLoopRange(loopRange, fps, totalDuration),
+    [loopRange, fps, totalDuration],
+  );
+  const frame = frameAt(time, fps, totalDuration);
+
+  const seek = (target: number) =>
+    setTime(snapToFrame(target, fps, totalDuration));
+
+  // The clock lives in the state updater, so the loop subscribes once per
+  // playback session instead of on every tick.
+  useEffect(() => {
+    if (!isPlaying) return;
+    const range = activeLoopRange ?? { start: 0, end: totalDuration };
+    let lastTimestamp: number | null = null;
+    let request = 0;
+
+    const raf = (timestamp: number) => {
+      const delta =
+        lastTimestamp === null
+          ? 0
+          : ((timestamp - lastTimestamp) / 1000) * rate;
+      lastTimestamp = timestamp;
+      setTime((current) => advancePlayhead(current, delta, range));
+      request = requestAnimationFrame(raf);
+    };
+
+    request = requestAnimationFrame(raf);
+    return () => cancelAnimationFrame(request);
+  }, [isPlaying, rate, activeLoopRange, totalDuration]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const layout = computeFrameLayout(canvas.width, canvas.height);
+    if (
+      buffersRef.current?.from.canvas.width !== layout.width ||
+      buffersRef.current?.from.canvas.height !== layout.height
+    ) {
+      buffersRef.current = createFrameBuffers(layout);
+    }
+    renderCompositionFrame(
+      context,
+      scenes,
+      frameTime(frame, fps),
+      layout,
+      buffersRef.current,
+      timings,
+      { gradients, watermark, captions },
+    );
+  }, [
+    frame,
+    scenes,
+    timings,
+    output,
+    gradients,
+    watermark,
+    captions,
+    loadedAssets,
+  ]);
+
+  // Video backgrounds seek asynchronously; draw again once they land.
+  useEffect(() => {
+    let cancelled = false;
+    void seekSceneVideos(scenes, frameTime(frame, fps), timings).then(
+      (moved) => {
+        if (moved && !cancelled) setLoadedAssets((count) => count + 1);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [frame, scenes, timings, fps]);
+
+  // Redraw once images and fonts arrive so a paused preview catches up.
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.all([
+      preloadSceneImages(scenes, watermark ? [watermark.logo] : []),
+      prepareSceneFonts(scenes, fonts),
+    ]).then((loaded) => {
+      if (loaded.some(Boolean) && !cancelled) {
+        setLoadedAssets((count) => count + 1);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scenes, fonts, watermark]);
+
+  return {
+    canvasRef,
+    time,
+    setTime,
+    seek,
+    isPlaying,
+    setPlaying,
+    rate,
+    setRate,
+    loopRange: activeLoopRange,
+    setLoopRange,
+  };
+}
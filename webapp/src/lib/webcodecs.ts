@@ -0,0 +1,279 @@
+import {
+  exportHasAlpha,
+  getExportFormat,
+  type ExportSettings,
+} from "@/lib/export-formats";
+
+/** One encoded frame in decode order. */
+export type EncodedSample = {
+  data: Uint8Array;
+  keyFrame: boolean;
+};
+
+/** A constant-frame-rate video track as the muxers consume it. */
+export type EncodedTrack = {
+  width: number;
+  height: number;
+  fps: number;
+  /** Codec configuration record: `avcC` for H.264, `av1C` for AV1. */
+  description: Uint8Array | null;
+  samples: EncodedSample[];
+};
+
+export type WebCodecsCodec = "h264" | "vp9" | "av1";
+
+/** Which encoder a render uses and, for ffmpeg, why WebCodecs could not. */
+export type EncoderChoice =
+  | {
+      kind: "webcodecs";
+      codec: WebCodecsCodec;
+      label: string;
+      hardware: boolean;
+      config: VideoEncoderConfig;
+    }
+  | { kind: "ffmpeg"; reason: string }
+  | { kind: "zip" };
+
+/** Codecs tried in order for each container the JS muxers can write. */
+const CANDIDATES: Record<
+  "mp4" | "webm",
+  { codec: WebCodecsCodec; label: string }[]
+> = {
+  mp4: [{ codec: "h264", label: "H.264" }],
+  webm: [
+    { codec: "vp9", label: "VP9" },
+    { codec: "av1", label: "AV1" },
+  ],
+};
+
+/** Seconds between forced key frames, matching ffmpeg's default GOP. */
+const KEY_FRAME_INTERVAL = 2;
+/** Frames queued in the encoder before the render loop waits. */
+const MAX_ENCODE_QUEUE = 8;
+
+/** H.264 levels by max frame size and macroblock rate (Table A-1). */
+const AVC_LEVELS = [
+  { id: 0x1f, frameSize: 3600, rate: 108_000 },
+  { id: 0x28, frameSize: 8192, rate: 245_760 },
+  { id: 0x2a, frameSize: 8704, rate: 522_240 },
+  { id: 0x33, frameSize: 36_864, rate: 983_040 },
+  { id: 0x34, frameSize: 36_864, rate: 2_073_600 },
+  { id: 0x3c, frameSize: 139_264, rate: 4_177_920 },
+];
+
+/**
+ * Picks WebCodecs when the browser can encode this export with it, and
+ * otherwise says why ffmpeg.wasm will. Transparent video and the formats
+ * the JS muxers cannot write always go through ffmpeg.
+ */
+export async function chooseEncoder(
+  settings: ExportSettings,
+  output: { width: number; height: number; fps: number },
+): Promise<EncoderChoice> {
+  const format = getExportFormat(settings.format);
+  if (format.encoder === "zip") return { kind: "zip" };
+  if (settings.format !== "mp4" && settings.format !== "webm") {
+    return { kind: "ffmpeg", reason: `${format.label} needs ffmpeg` };
+  }
+  if (exportHasAlpha(settings)) {
+    return { kind: "ffmpeg", reason: "Transparent video needs ffmpeg" };
+  }
+  if (typeof VideoEncoder === "undefined") {
+    return { kind: "ffmpeg", reason: "This browser has no WebCodecs" };
+  }
+
+  for (const candidate of CANDIDATES[settings.format]) {
+    const base = buildConfig(candidate.codec, settings, output);
+    for (const hardwareAcceleration of [
+      "prefer-hardware",
+      "no-preference",
+    ] as const) {
+      const config = { ...base, hardwareAcceleration };
+      try {
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (!support.supported) continue;
+      } catch {
+        continue;
+      }
+      return {
+        kind: "webcodecs",
+        codec: candidate.codec,
+        label: candidate.label,
+        hardware: hardwareAcceleration === "prefer-hardware",
+        config,
+      };
+    }
+  }
+  return {
+    kind: "ffmpeg",
+    reason: `No WebCodecs ${format.label} encoder for ${output.width}×${output.height}`,
+  };
+}
+
+function buildConfig(
+  codec: WebCodecsCodec,
+  settings: ExportSettings,
+  output: { width: number; height: number; fps: number },
+): VideoEncoderConfig {
+  return {
+    codec: codecString(codec, output),
+    width: output.width,
+    height: output.height,
+    framerate: output.fps,
+    bitrate: targetBitrate(settings, output),
+    bitrateMode: "variable",
+    latencyMode: "quality",
+    ...(codec === "h264" ? { avc: { format: "avc" as const } } : {}),
+  };
+}
+
+function codecString(
+  codec: WebCodecsCodec,
+  { width, height, fps }: { width: number; height: number; fps: number },
+) {
+  const large = width * height > 1920 * 1088;
+  switch (codec) {
+    case "vp9":
+      return `vp09.00.${large ? 51 : 41}.08`;
+    case "av1":
+      return `av01.0.${large ? (fps > 30 ? 13 : 12) : fps > 30 ? "09" : "08"}M.08`;
+    case "h264":
+    default: {
+      const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+      const level =
+        AVC_LEVELS.find(
+          (entry) =>
+            macroblocks <= entry.frameSize && macroblocks * fps <= entry.rate,
+        ) ?? AVC_LEVELS[AVC_LEVELS.length - 1];
+      return `avc1.6400${level.id.toString(16).padStart(2, "0")}`;
+    }
+  }
+}
+
+/**
+ * WebCodecs takes a bitrate rather than a CRF, so quality-targeted
+ * settings become an estimate that doubles for every 6 CRF steps down,
+ * the same ratio the two encoders use.
+ */
+function targetBitrate(
+  settings: ExportSettings,
+  { width, height, fps }: { width: number; height: number; fps: number },
+) {
+  const pixelRate = width * height * fps;
+  if (settings.format === "webm") {
+    const { crf, bitrate } = settings.webm;
+    return bitrate > 0
+      ? bitrate * 1000
+      : Math.round(pixelRate * 0.07 * 2 ** ((32 - crf) / 6));
+  }
+  const { crf, bitrate } = settings.mp4;
+  return bitrate > 0
+    ? bitrate * 1000
+    : Math.round(pixelRate * 0.1 * 2 ** ((20 - crf) / 6));
+}
+
+export type TrackEncoder = {
+  /** Queues the next RGBA frame, waiting while the encoder is backed up. */
+  encode: (rgba: ArrayBuffer) => Promise<void>;
+  finish: () => Promise<EncodedTrack>;
+  close: () => void;
+};
+
+/**
+ * Encodes RGBA frames into a track. Frames are stamped on the same
+ * `index / fps` grid the ffmpeg path uses, so both produce the same frame
+ * count and duration.
+ */
+export function createTrackEncoder(
+  choice: Extract<EncoderChoice, { kind: "webcodecs" }>,
+): TrackEncoder {
+  const { width, height } = choice.config;
+  const fps = choice.config.framerate ?? 30;
+  const frameDuration = 1e6 / fps;
+  const keyFrameInterval = Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL));
+  const samples: EncodedSample[] = [];
+  let description: Uint8Array | null = null;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+  let queued = 0;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({ data, keyFrame: chunk.type === "key" });
+      const config = metadata?.decoderConfig?.description;
+      if (config && !description) description = toBytes(config);
+    },
+    error: (error) => {
+      failure = error;
+      wake?.();
+    },
+  });
+  encoder.addEventListener("dequeue", () => {
+    wake?.();
+    wake = null;
+  });
+  encoder.configure(choice.config);
+
+  const close = () => {
+    if (encoder.state !== "closed") encoder.close();
+  };
+
+  return {
+    encode: async (rgba) => {
+      if (failure) throw failure;
+      const frame = new VideoFrame(new Uint8Array(rgba), {
+        format: "RGBA",
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round(queued * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: queued % keyFrameInterval === 0 });
+      frame.close();
+      queued += 1;
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !failure) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+      if (failure) throw failure;
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (failure) throw failure;
+      close();
+      if (samples.length !== queued) {
+        throw new Error(
+          `The encoder returned ${samples.length} of ${queued} frames.`,
+        );
+      }
+      return {
+        width,
+        height,
+        fps,
+        description:
+          description ?? (choice.codec === "av1" ? av1Config(choice) : null),
+        samples,
+      };
+    },
+    close,
+  };
+}
+
+/**
+ * A minimal `av1C` record for encoders that leave the description out:
+ * profile 0, 8-bit 4:2:0, with the level taken from the codec string.
+ */
+function av1Config(choice: Extract<EncoderChoice, { kind: "webcodecs" }>) {
+  const level = Number(choice.config.codec.split(".")[2]?.slice(0, 2)) || 8;
+  return Uint8Array.from([0x81, level & 0x1f, 0x0c, 0x00]);
+}
+
+function toBytes(source: AllowSharedBufferSource) {
+  const view = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  return view.slice();
+}
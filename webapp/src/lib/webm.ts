@@ -0,0 +1,226 @@
+import type { EncodedTrack } from "@/lib/webcodecs";
+
+export type WebmCodec = "V_VP9" | "V_AV1";
+
+/** Block timestamps are in milliseconds. */
+const TIMECODE_SCALE = 1_000_000;
+/** Block timecodes are signed 16-bit offsets from their cluster. */
+const MAX_CLUSTER_SPAN = 32_000;
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+/**
+ * Writes a VP9 or AV1 track into a WebM file. A cluster starts at every
+ * key frame and the cues ahead of the clusters point at each one, so
+ * players can seek without scanning.
+ */
+export function createWebm(track: EncodedTrack, codec: WebmCodec): Blob {
+  const { width, height, fps, samples } = track;
+  const timecode = (index: number) => Math.round((index * 1000) / fps);
+  const duration = (samples.length * 1000) / fps;
+
+  const clusters: { time: number; bytes: Uint8Array<ArrayBuffer> }[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterTime = 0;
+  const closeCluster = () => {
+    if (!blocks.length) return;
+    clusters.push({
+      time: clusterTime,
+      bytes: element(ID.Cluster, uint(ID.Timecode, clusterTime), ...blocks),
+    });
+    blocks = [];
+  };
+  samples.forEach((sample, index) => {
+    const time = timecode(index);
+    if (
+      !blocks.length ||
+      sample.keyFrame ||
+      time - clusterTime > MAX_CLUSTER_SPAN
+    ) {
+      closeCluster();
+      clusterTime = time;
+    }
+    const header = new Uint8Array(4);
+    header[0] = 0x81;
+    new DataView(header.buffer).setInt16(1, time - clusterTime);
+    header[3] = sample.keyFrame ? 0x80 : 0;
+    blocks.push(element(ID.SimpleBlock, header, sample.data));
+  });
+  closeCluster();
+
+  const info = element(
+    ID.Info,
+    uint(ID.TimecodeScale, TIMECODE_SCALE),
+    string(ID.MuxingApp, "agentic-motion-studio"),
+    string(ID.WritingApp, "agentic-motion-studio"),
+    float(ID.Duration, duration),
+  );
+  const tracks = element(
+    ID.Tracks,
+    element(
+      ID.TrackEntry,
+      uint(ID.TrackNumber, 1),
+      uint(ID.TrackUID, 1),
+      uint(ID.TrackType, 1),
+      string(ID.CodecID, codec),
+      ...(track.description
+        ? [element(ID.CodecPrivate, track.description)]
+        : []),
+      uint(ID.DefaultDuration, Math.round(1e9 / fps)),
+      element(
+        ID.Video,
+        uint(ID.PixelWidth, width),
+        uint(ID.PixelHeight, height),
+      ),
+    ),
+  );
+
+  // Cluster positions are fixed-width, so the cues' size is known before
+  // the positions are.
+  const buildCues = (positions: number[]) =>
+    element(
+      ID.Cues,
+      ...clusters.map((cluster, index) =>
+        element(
+          ID.CuePoint,
+          uint(ID.CueTime, cluster.time),
+          element(
+            ID.CueTrackPositions,
+            uint(ID.CueTrack, 1),
+            uint(ID.CueClusterPosition, positions[index] ?? 0, 8),
+          ),
+        ),
+      ),
+    );
+  const clustersStart = info.length + tracks.length + buildCues([]).length;
+  const positions: number[] = [];
+  let offset = clustersStart;
+  for (const cluster of clusters) {
+    positions.push(offset);
+    offset += cluster.bytes.length;
+  }
+  const cues = buildCues(positions);
+
+  const header = element(
+    ID.EBML,
+    uint(ID.EBMLVersion, 1),
+    uint(ID.EBMLReadVersion, 1),
+    uint(ID.EBMLMaxIDLength, 4),
+    uint(ID.EBMLMaxSizeLength, 8),
+    string(ID.DocType, "webm"),
+    uint(ID.DocTypeVersion, 4),
+    uint(ID.DocTypeReadVersion, 2),
+  );
+  const segmentSize = offset;
+  return new Blob(
+    [
+      header,
+      encodeId(ID.Segment),
+      encodeSize(segmentSize),
+      info,
+      tracks,
+      cues,
+      ...clusters.map((cluster) => cluster.bytes),
+    ],
+    { type: "video/webm" },
+  );
+}
+
+function element(id: number, ...payload: Uint8Array[]) {
+  const size = payload.reduce((total, part) => total + part.length, 0);
+  return concat(encodeId(id), encodeSize(size), ...payload);
+}
+
+function uint(id: number, value: number, width = 0) {
+  let length = width;
+  if (!length) {
+    length = 1;
+    while (length < 8 && value >= 2 ** (8 * length)) length += 1;
+  }
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes[index] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return element(id, bytes);
+}
+
+function float(id: number, value: number) {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function string(id: number, value: string) {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function encodeId(id: number) {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/** EBML variable-length size: a length marker bit, then the value. */
+function encodeSize(size: number) {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length += 1;
+  const bytes = new Uint8Array(length);
+  let remaining = size;
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes[index] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]) {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
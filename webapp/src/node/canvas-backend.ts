@@ -0,0 +1,64 @@
+import {
+  GlobalFonts,
+  createCanvas,
+  loadImage,
+  type Canvas,
+} from "@napi-rs/canvas";
+import {
+  setCanvasBackend,
+  type CanvasBackend,
+  type DrawableImage,
+  type RenderContext,
+} from "@/lib/canvas";
+import type { FontAsset } from "@/lib/fonts";
+
+/**
+ * Skia-backed canvases for rendering outside the browser. Its 2D context
+ * implements the same drawing API, so the casts only bridge type names.
+ */
+export const nodeCanvasBackend: CanvasBackend = {
+  createContext: (width, height) =>
+    createCanvas(width, height).getContext("2d") as unknown as RenderContext,
+  encodeImage: async (canvas, type, quality = 0.92) => {
+    const skia = canvas as unknown as Canvas;
+    const buffer =
+      type === "image/png"
+        ? await skia.encode("png")
+        : await skia.encode(
+            type === "image/jpeg" ? "jpeg" : "webp",
+            Math.round(quality * 100),
+          );
+    return new Uint8Array(buffer).buffer;
+  },
+  decodeImage: async (blob) =>
+    (await loadImage(
+      Buffer.from(await blob.arrayBuffer()),
+    )) as unknown as DrawableImage,
+};
+
+export function installNodeCanvas() {
+  setCanvasBackend(nodeCanvasBackend);
+}
+
+/**
+ * Registers the project's uploaded fonts under their family names, plus
+ * every font file in `directories`. The app's bundled families (Sora,
+ * Inter, Geist) are only available to Node if installed or passed in here.
+ */
+export async function registerNodeFonts(
+  fonts: FontAsset[],
+  directories: string[] = [],
+) {
+  for (const directory of directories) {
+    GlobalFonts.loadFontsFromDir(directory);
+  }
+  for (const font of fonts) {
+    const key = GlobalFonts.register(
+      Buffer.from(await font.blob.arrayBuffer()),
+      font.family,
+    );
+    if (!key) {
+      throw new Error(`Unable to load the font "${font.name}".`);
+    }
+  }
+}
@@ -0,0 +1,551 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  DEFAULT_CAPTION_SETTINGS,
+  buildCaptionTrack,
+  type CaptionSettings,
+} from "@/lib/captions";
+import {
+  canvasToPng,
+  createRenderContext,
+  getCanvasBackend,
+  type RenderContext,
+} from "@/lib/canvas";
+import { easeIn, easeInOut, easeOut } from "@/lib/easing";
+import type { SceneLayer } from "@/lib/layers";
+import { computeFrameLayout, type FrameLayout } from "@/lib/output";
+import { createFrameRenderer } from "@/lib/renderer";
+import { buildInitialScenes, type Scene } from "@/lib/scene";
+import {
+  createFrameBuffers,
+  renderCompositionFrame,
+  renderSceneFrame,
+  type FrameOptions,
+} from "@/lib/scene-draw";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+} from "@/lib/transitions";
+import { countFrames, frameTime } from "@/lib/transport";
+import { TEXT_ANIMATIONS } from "@/lib/typography";
+
+/** A frame the renderer must keep drawing the same way. */
+export type GoldenCase = {
+  name: string;
+  width: number;
+  height: number;
+  draw: (context: RenderContext, layout: FrameLayout) => void;
+};
+
+export type GoldenStatus = "pass" | "fail" | "missing" | "resized";
+
+export type GoldenResult = {
+  name: string;
+  status: GoldenStatus;
+  /** Pixels further apart than the threshold. */
+  mismatched: number;
+  total: number;
+  actual: Uint8Array;
+  expected: Uint8Array | null;
+  diff: Uint8Array | null;
+};
+
+/** A frame where the live preview and the exporter disagree. */
+export type ParityMismatch = {
+  frame: number;
+  time: number;
+  mismatched: number;
+  preview: Uint8Array;
+  exported: Uint8Array;
+  diff: Uint8Array;
+};
+
+export type GoldenTolerance = {
+  /** Per-pixel color distance from 0 to 1 that still counts as equal. */
+  threshold: number;
+  /** Share of a frame's pixels allowed past the threshold. */
+  maxDiffRatio: number;
+};
+
+/**
+ * Absorbs anti-aliasing differences between Skia builds without letting a
+ * moved accent bar or retimed easing through.
+ */
+export const DEFAULT_GOLDEN_TOLERANCE: GoldenTolerance = {
+  threshold: 0.1,
+  maxDiffRatio: 0.001,
+};
+
+const CASE_WIDTH = 640;
+const CASE_HEIGHT = 360;
+const SCENE_PROGRESS = [0, 0.3, 0.6, 1];
+const PARITY_FPS = 12;
+const BURNED_CAPTIONS: CaptionSettings = {
+  ...DEFAULT_CAPTION_SETTINGS,
+  burnIn: true,
+};
+
+/** Pixels are marked red in the diff image when they differ. */
+const DIFF_COLOR = [239, 68, 68];
+
+/**
+ * The frames under guard: every starter scene through its reveal, each
+ * text animation mid-reveal, the accent and text layers on their own, a
+ * reference-size and a portrait layout, a transition, burned-in captions
+ * and the easing curves themselves. Scenes are rebuilt for each case, so
+ * cases cannot leak edits into one another.
+ */
+export function listGoldenCases(): GoldenCase[] {
+  const sceneCase = (
+    name: string,
+    progress: number,
+    pick: (scenes: Scene[]) => Scene,
+    size = { width: CASE_WIDTH, height: CASE_HEIGHT },
+  ): GoldenCase => ({
+    name,
+    ...size,
+    draw: (context, layout) =>
+      renderSceneFrame(context, pick(buildInitialScenes()), progress, layout),
+  });
+  const onlyLayers =
+    (kinds: SceneLayer["kind"][]) =>
+    (scenes: Scene[]): Scene => ({
+      ...scenes[0],
+      layers: scenes[0].layers.map((layer) => ({
+        ...layer,
+        visible: layer.visible && kinds.includes(layer.kind),
+      })),
+    });
+  const percent = (progress: number) =>
+    `p${String(Math.round(progress * 100)).padStart(3, "0")}`;
+
+  return [
+    ...[0, 1, 2].flatMap((index) =>
+      SCENE_PROGRESS.map((progress) =>
+        sceneCase(
+          `scene-${index + 1}-${percent(progress)}`,
+          progress,
+          (scenes) => scenes[index],
+        ),
+      ),
+    ),
+    ...TEXT_ANIMATIONS.filter((animation) => animation.id !== "none").map(
+      (animation) =>
+        sceneCase(`text-${animation.id}-${percent(0.3)}`, 0.3, (scenes) => ({
+          ...scenes[0],
+          typography: { ...scenes[0].typography, animation: animation.id },
+        })),
+    ),
+    sceneCase("text-centered-bottom", 0.6, (scenes) => ({
+      ...scenes[1],
+      typography: {
+        ...scenes[1].typography,
+        align: "center",
+        anchor: "bottom",
+      },
+    })),
+    sceneCase(`accent-only-${percent(0.5)}`, 0.5, onlyLayers(["accent"])),
+    sceneCase(`headline-only-${percent(0.5)}`, 0.5, onlyLayers(["headline"])),
+    sceneCase("reference-1280x720", 0.6, (scenes) => scenes[0], {
+      width: 1280,
+      height: 720,
+    }),
+    sceneCase("portrait-360x640", 0.6, (scenes) => scenes[1], {
+      width: 360,
+      height: 640,
+    }),
+    compositionCase(
+      "transition-push-mid",
+      (timings) => timings[2].start + timings[2].overlap / 2,
+    ),
+    compositionCase("captions-burned-in", () => 1.5, {
+      captions: BURNED_CAPTIONS,
+    }),
+    {
+      name: "easing-curves",
+      width: 240,
+      height: 240,
+      draw: drawEasingCurves,
+    },
+  ];
+}
+
+function compositionCase(
+  name: string,
+  pickTime: (timings: ReturnType<typeof computeSceneTimings>) => number,
+  { captions }: { captions?: CaptionSettings } = {},
+): GoldenCase {
+  return {
+    name,
+    width: CASE_WIDTH,
+    height: CASE_HEIGHT,
+    draw: (context, layout) => {
+      const scenes = buildInitialScenes();
+      const timings = computeSceneTimings(scenes);
+      const options: FrameOptions = captions
+        ? {
+            captions: {
+              track: buildCaptionTrack(scenes, timings),
+              settings: captions,
+            },
+          }
+        : {};
+      renderCompositionFrame(
+        context,
+        scenes,
+        pickTime(timings),
+        layout,
+        createFrameBuffers(layout),
+        timings,
+        options,
+      );
+    },
+  };
+}
+
+/** Plots each easing curve so a retimed curve fails on its own. */
+function drawEasingCurves(context: RenderContext, layout: FrameLayout) {
+  const inset = 20;
+  const size = layout.width - inset * 2;
+  context.fillStyle = "#020617";
+  context.fillRect(0, 0, layout.width, layout.height);
+  context.lineWidth = 2;
+  const curves: [(value: number) => number, string][] = [
+    [easeIn, "#38bdf8"],
+    [easeOut, "#facc15"],
+    [easeInOut, "#fb7185"],
+  ];
+  for (const [ease, color] of curves) {
+    context.strokeStyle = color;
+    context.beginPath();
+    for (let step = 0; step <= size; step += 1) {
+      const x = inset + step;
+      const y = inset + size - ease(step / size) * size;
+      if (step === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    }
+    context.stroke();
+  }
+}
+
+export async function renderGoldenCase(goldenCase: GoldenCase) {
+  const context = createRenderContext(goldenCase.width, goldenCase.height);
+  goldenCase.draw(
+    context,
+    computeFrameLayout(goldenCase.width, goldenCase.height),
+  );
+  return {
+    pixels: context.getImageData(0, 0, goldenCase.width, goldenCase.height)
+      .data,
+    png: new Uint8Array(await canvasToPng(context.canvas)),
+  };
+}
+
+/** Writes each case's current rendering as its golden. */
+export async function updateGoldens(cases: GoldenCase[], directory: string) {
+  await mkdir(directory, { recursive: true });
+  for (const goldenCase of cases) {
+    const { png } = await renderGoldenCase(goldenCase);
+    await writeFile(goldenPath(directory, goldenCase), png);
+  }
+}
+
+export async function checkGoldens(
+  cases: GoldenCase[],
+  directory: string,
+  tolerance: GoldenTolerance = DEFAULT_GOLDEN_TOLERANCE,
+): Promise<GoldenResult[]> {
+  const results: GoldenResult[] = [];
+  for (const goldenCase of cases) {
+    const { width, height, name } = goldenCase;
+    const actual = await renderGoldenCase(goldenCase);
+    const base = {
+      name,
+      mismatched: 0,
+      total: width * height,
+      actual: actual.png,
+      expected: null,
+      diff: null,
+    };
+
+    let expected: Uint8Array;
+    try {
+      expected = new Uint8Array(
+        await readFile(goldenPath(directory, goldenCase)),
+      );
+    } catch {
+      results.push({ ...base, status: "missing" });
+      continue;
+    }
+
+    const decoded = await decodePng(expected);
+    if (decoded.width !== width || decoded.height !== height) {
+      results.push({ ...base, expected, status: "resized" });
+      continue;
+    }
+
+    const diff = diffFrames(
+      actual.pixels,
+      decoded.pixels,
+      width,
+      height,
+      tolerance.threshold,
+    );
+    results.push({
+      ...base,
+      expected,
+      mismatched: diff.mismatched,
+      diff: await encodePixels(diff.image, width, height),
+      status:
+        diff.mismatched > base.total * tolerance.maxDiffRatio ? "fail" : "pass",
+    });
+  }
+  return results;
+}
+
+/**
+ * Renders every frame of the starter storyboard the way the preview does
+ * and the way the exporter does, and returns the frames that differ by
+ * even one channel value. A paused preview promises the exported frame.
+ */
+export async function checkPreviewParity(): Promise<ParityMismatch[]> {
+  const scenes = buildInitialScenes();
+  const timings = computeSceneTimings(scenes);
+  const options: FrameOptions = {
+    captions: {
+      track: buildCaptionTrack(scenes, timings),
+      settings: BURNED_CAPTIONS,
+    },
+  };
+  const layout = computeFrameLayout(CASE_WIDTH, CASE_HEIGHT);
+  const preview = createRenderContext(CASE_WIDTH, CASE_HEIGHT);
+  const buffers = createFrameBuffers(layout);
+  const renderExport = createFrameRenderer({
+    scenes,
+    width: CASE_WIDTH,
+    height: CASE_HEIGHT,
+    fps: PARITY_FPS,
+    transparent: false,
+    encoding: "rgba",
+    fonts: [],
+    gradients: [],
+    watermark: null,
+    captions: options.captions ?? null,
+  });
+
+  const mismatches: ParityMismatch[] = [];
+  const totalFrames = countFrames(totalDurationForTimings(timings), PARITY_FPS);
+  for (let frame = 0; frame < totalFrames; frame += 1) {
+    const exported = new Uint8ClampedArray(await renderExport(frame));
+    const time = frameTime(frame, PARITY_FPS);
+    renderCompositionFrame(
+      preview,
+      scenes,
+      time,
+      layout,
+      buffers,
+      timings,
+      options,
+    );
+    const previewed = preview.getImageData(0, 0, CASE_WIDTH, CASE_HEIGHT).data;
+    const diff = diffFrames(previewed, exported, CASE_WIDTH, CASE_HEIGHT, 0);
+    if (!diff.mismatched) continue;
+    mismatches.push({
+      frame,
+      time,
+      mismatched: diff.mismatched,
+      preview: new Uint8Array(await canvasToPng(preview.canvas)),
+      exported: await encodePixels(exported, CASE_WIDTH, CASE_HEIGHT),
+      diff: await encodePixels(diff.image, CASE_WIDTH, CASE_HEIGHT),
+    });
+  }
+  return mismatches;
+}
+
+/**
+ * Counts pixels whose perceived color differs by more than `threshold`,
+ * measured as YIQ distance after blending onto white (the metric
+ * pixelmatch uses); a zero threshold compares exact bytes. The diff image
+ * fades matching pixels and marks the rest red.
+ */
+export function diffFrames(
+  actual: Uint8ClampedArray,
+  expected: Uint8ClampedArray,
+  width: number,
+  height: number,
+  threshold: number,
+) {
+  const maxDelta = 35215 * threshold * threshold;
+  const image = new Uint8ClampedArray(width * height * 4);
+  let mismatched = 0;
+
+  for (let offset = 0; offset < image.length; offset += 4) {
+    // A zero threshold means exact: even an alpha change YIQ misses counts.
+    const differs =
+      threshold === 0
+        ? [0, 1, 2, 3].some(
+            (channel) =>
+              actual[offset + channel] !== expected[offset + channel],
+          )
+        : colorDelta(actual, expected, offset) > maxDelta;
+    if (differs) {
+      mismatched += 1;
+      image.set(DIFF_COLOR, offset);
+    } else {
+      const gray = 255 - (255 - luma(expected, offset)) * 0.2;
+      image.set([gray, gray, gray], offset);
+    }
+    image[offset + 3] = 255;
+  }
+
+  return { mismatched, image };
+}
+
+function colorDelta(
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  offset: number,
+) {
+  const [r1, g1, b1] = blendWhite(a, offset);
+  const [r2, g2, b2] = blendWhite(b, offset);
+  const y = rgbToY(r1, g1, b1) - rgbToY(r2, g2, b2);
+  const i = rgbToI(r1, g1, b1) - rgbToI(r2, g2, b2);
+  const q = rgbToQ(r1, g1, b1) - rgbToQ(r2, g2, b2);
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+function blendWhite(pixels: Uint8ClampedArray, offset: number) {
+  const alpha = pixels[offset + 3] / 255;
+  return [0, 1, 2].map(
+    (channel) => 255 + (pixels[offset + channel] - 255) * alpha,
+  );
+}
+
+function luma(pixels: Uint8ClampedArray, offset: number) {
+  const [r, g, b] = blendWhite(pixels, offset);
+  return rgbToY(r, g, b);
+}
+
+function rgbToY(r: number, g: number, b: number) {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgbToI(r: number, g: number, b: number) {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgbToQ(r: number, g: number, b: number) {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+async function decodePng(data: Uint8Array) {
+  const image = await getCanvasBackend().decodeImage(
+    new Blob([new Uint8Array(data)]),
+  );
+  const context = createRenderContext(image.width, image.height);
+  context.drawImage(image, 0, 0);
+  return {
+    width: image.width,
+    height: image.height,
+    pixels: context.getImageData(0, 0, image.width, image.height).data,
+  };
+}
+
+async function encodePixels(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+) {
+  const context = createRenderContext(width, height);
+  const image = context.createImageData(width, height);
+  image.data.set(pixels);
+  context.putImageData(image, 0, 0);
+  return new Uint8Array(await canvasToPng(context.canvas));
+}
+
+function goldenPath(directory: string, goldenCase: GoldenCase) {
+  return join(directory, `${goldenCase.name}.png`);
+}
+
+/**
+ * Writes an HTML page with expected, actual and diff images side by side
+ * for every golden that did not pass and every parity mismatch. Returns
+ * the page's path.
+ */
+export async function writeGoldenReport(
+  directory: string,
+  results: GoldenResult[],
+  parity: ParityMismatch[],
+) {
+  await mkdir(directory, { recursive: true });
+  const image = async (file: string, data: Uint8Array | null) => {
+    if (!data) return `<div class="empty">none</div>`;
+    await writeFile(join(directory, file), data);
+    return `<img src="${file}" alt="">`;
+  };
+
+  const rows: string[] = [];
+  for (const result of results) {
+    if (result.status === "pass") continue;
+    const share = ((result.mismatched / result.total) * 100).toFixed(3);
+    rows.push(`<section>
+  <h2>${escapeHtml(result.name)} <span class="${result.status}">${result.status}</span></h2>
+  <p>${result.mismatched} of ${result.total} pixels differ (${share}%)</p>
+  <div class="row">
+    <figure>${await image(`${result.name}.expected.png`, result.expected)}<figcaption>Expected</figcaption></figure>
+    <figure>${await image(`${result.name}.actual.png`, result.actual)}<figcaption>Actual</figcaption></figure>
+    <figure>${await image(`${result.name}.diff.png`, result.diff)}<figcaption>Diff</figcaption></figure>
+  </div>
+</section>`);
+  }
+  for (const mismatch of parity) {
+    const name = `parity-${String(mismatch.frame).padStart(4, "0")}`;
+    rows.push(`<section>
+  <h2>Preview ≠ export at frame ${mismatch.frame} (${mismatch.time.toFixed(3)}s) <span class="fail">parity</span></h2>
+  <p>${mismatch.mismatched} pixels differ</p>
+  <div class="row">
+    <figure>${await image(`${name}.preview.png`, mismatch.preview)}<figcaption>Preview</figcaption></figure>
+    <figure>${await image(`${name}.export.png`, mismatch.exported)}<figcaption>Export</figcaption></figure>
+    <figure>${await image(`${name}.diff.png`, mismatch.diff)}<figcaption>Diff</figcaption></figure>
+  </div>
+</section>`);
+  }
+
+  const passed = results.filter((result) => result.status === "pass").length;
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Golden frames</title>
+<style>
+  body { margin: 2rem; background: #020617; color: #e2e8f0; font: 14px system-ui, sans-serif; }
+  h2 { font-size: 1rem; margin: 0 0 0.25rem; }
+  section { margin-bottom: 2rem; padding-bottom: 1.5rem; border-bottom: 1px solid #1e293b; }
+  .row { display: flex; flex-wrap: wrap; gap: 1rem; }
+  figure { margin: 0; }
+  img { display: block; max-width: 420px; border: 1px solid #334155; }
+  figcaption, p { color: #94a3b8; font-size: 12px; }
+  .empty { width: 200px; padding: 2rem 0; text-align: center; color: #64748b; border: 1px dashed #334155; }
+  span { margin-left: 0.5rem; padding: 0.1rem 0.5rem; border-radius: 999px; font-size: 11px; text-transform: uppercase; }
+  .fail, .resized { background: #7f1d1d; }
+  .missing { background: #78350f; }
+</style>
+</head>
+<body>
+<h1>Golden frames</h1>
+<p>${passed} of ${results.length} goldens match · ${parity.length ? `${parity.length} preview/export mismatches` : "preview and export agree"}</p>
+${rows.join("\n")}
+</body>
+</html>
+`;
+  const path = join(directory, "index.html");
+  await writeFile(path, html);
+  return path;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
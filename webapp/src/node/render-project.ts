@@ -0,0 +1,288 @@
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import {
+  audioExtension,
+  buildAudioArgs,
+  buildAudioPlan,
+  type AudioAsset,
+} from "@/lib/audio";
+import { resolveWatermark } from "@/lib/brand";
+import { buildCaptionArgs, buildCaptionTrack, formatSrt } from "@/lib/captions";
+import type { RenderStats, Stage } from "@/lib/export";
+import {
+  buildEncodeArgs,
+  exportHasAlpha,
+  getExportFormat,
+  type ExportFormat,
+} from "@/lib/export-formats";
+import { usesVideoBackgrounds } from "@/lib/media";
+import { normalizeOutput, type OutputProfile } from "@/lib/output";
+import { readProjectFile, type Project } from "@/lib/project";
+import { createFrameRenderer } from "@/lib/renderer";
+import {
+  computeSceneTimings,
+  totalDurationForTimings,
+} from "@/lib/transitions";
+import { countFrames } from "@/lib/transport";
+import { createZip } from "@/lib/zip";
+import { installNodeCanvas, registerNodeFonts } from "@/node/canvas-backend";
+
+export type NodeRenderOptions = {
+  /** Path the video (or PNG ZIP) is written to. */
+  out: string;
+  /** Overrides the project's export format; its other settings still apply. */
+  format?: ExportFormat;
+  /** Overrides the project's canvas size and frame rate. */
+  output?: Partial<OutputProfile>;
+  /** Extra directories of font files, e.g. the app's bundled families. */
+  fontDirectories?: string[];
+  /** Native ffmpeg binary; `ffmpeg` on the PATH by default. */
+  ffmpegPath?: string;
+  signal?: AbortSignal;
+  onStage?: (stage: Stage, progress: number, stats?: RenderStats) => void;
+};
+
+/** Lines of ffmpeg's log kept for the error message when it fails. */
+const FFMPEG_LOG_LINES = 12;
+
+export async function loadProjectFile(path: string): Promise<Project> {
+  let data: Buffer;
+  try {
+    data = await readFile(path);
+  } catch {
+    throw new Error(`Unable to read "${path}".`);
+  }
+  return readProjectFile(new File([new Uint8Array(data)], basename(path)));
+}
+
+/**
+ * Renders a project with the same frame code as the browser export, drawing
+ * on a Node canvas and piping raw frames into a native ffmpeg.
+ */
+export async function renderProject(
+  project: Project,
+  options: NodeRenderOptions,
+) {
+  const { scenes } = project;
+  if (!scenes.length) {
+    throw new Error("Add at least one scene before rendering.");
+  }
+  if (usesVideoBackgrounds(scenes)) {
+    throw new Error(
+      "Video backgrounds can only be rendered in the browser for now.",
+    );
+  }
+
+  const { signal } = options;
+  const onStage = options.onStage ?? (() => undefined);
+  const exportSettings = {
+    ...project.settings.render.export,
+    format: options.format ?? project.settings.render.export.format,
+  };
+  const format = getExportFormat(exportSettings.format);
+  const { width, height, fps } = normalizeOutput({
+    width: options.output?.width ?? project.settings.canvas.width,
+    height: options.output?.height ?? project.settings.canvas.height,
+    fps: options.output?.fps ?? project.settings.render.fps,
+  });
+  const timings = computeSceneTimings(scenes);
+  const totalDuration = totalDurationForTimings(timings);
+  const totalFrames = countFrames(totalDuration, fps);
+  const captions = exportSettings.captions;
+  const captionTrack =
+    captions.burnIn || captions.embed ? buildCaptionTrack(scenes, timings) : [];
+
+  onStage("loading", 0);
+  installNodeCanvas();
+  await registerNodeFonts(project.fonts, options.fontDirectories);
+  const render = createFrameRenderer({
+    scenes,
+    width,
+    height,
+    fps,
+    transparent: exportHasAlpha(exportSettings),
+    encoding: format.encoder === "ffmpeg" ? "rgba" : "png",
+    fonts: project.fonts,
+    gradients: project.gradients,
+    watermark: resolveWatermark(project.brandKit),
+    captions: captions.burnIn
+      ? { track: captionTrack, settings: captions }
+      : null,
+  });
+  onStage("loading", 1);
+
+  const startedAt = performance.now();
+  const renderFrames = async (write: (frame: ArrayBuffer) => Promise<void>) => {
+    for (let index = 0; index < totalFrames; index += 1) {
+      // Drawing is synchronous; yield so a server keeps answering requests.
+      await new Promise((resolve) => setImmediate(resolve));
+      signal?.throwIfAborted();
+      await write(await render(index));
+      const done = index + 1;
+      const rate =
+        done / Math.max(0.001, (performance.now() - startedAt) / 1000);
+      onStage("frames", done / totalFrames, {
+        fps: rate,
+        eta: (totalFrames - done) / rate,
+      });
+    }
+  };
+
+  if (format.encoder === "zip") {
+    const entries: { name: string; data: Uint8Array }[] = [];
+    await renderFrames(async (data) => {
+      entries.push({
+        name: `frame_${String(entries.length).padStart(5, "0")}.png`,
+        data: new Uint8Array(data),
+      });
+    });
+    onStage("muxing", 0.5);
+    const archive = createZip(entries);
+    await writeFile(options.out, new Uint8Array(await archive.arrayBuffer()));
+    onStage("muxing", 1);
+    return;
+  }
+
+  const workDirectory = await mkdtemp(join(tmpdir(), "motion-studio-"));
+  try {
+    const audioPlan = buildAudioPlan(
+      format.supportsAudio ? project.soundtrack : null,
+      format.supportsAudio ? scenes : [],
+      timings,
+      totalDuration,
+    );
+    const writeAsset = async (name: string, asset: AudioAsset) => {
+      const path = join(workDirectory, `${name}.${audioExtension(asset)}`);
+      await writeFile(path, new Uint8Array(await asset.blob.arrayBuffer()));
+      return path;
+    };
+    const audioFiles = {
+      music: audioPlan.music
+        ? await writeAsset("audio_music", audioPlan.music.asset)
+        : undefined,
+      voices: await Promise.all(
+        audioPlan.voices.map((voice, index) =>
+          writeAsset(`audio_vo_${index}`, voice.asset),
+        ),
+      ),
+    };
+    const audioArgs = buildAudioArgs(audioPlan, audioFiles);
+    const encode = buildEncodeArgs(exportSettings, Boolean(audioArgs));
+    let captionArgs: ReturnType<typeof buildCaptionArgs> | null = null;
+    if (captions.embed && format.subtitleCodec && captionTrack.length) {
+      const captionFile = join(workDirectory, "captions.srt");
+      await writeFile(captionFile, formatSrt(captionTrack));
+      captionArgs = buildCaptionArgs(
+        captionFile,
+        format.subtitleCodec,
+        audioArgs,
+      );
+    }
+
+    await runFfmpeg(
+      options.ffmpegPath ?? "ffmpeg",
+      [
+        "-y",
+        "-f",
+        "rawvideo",
+        "-pixel_format",
+        "rgba",
+        "-video_size",
+        `${width}x${height}`,
+        "-framerate",
+        String(fps),
+        "-i",
+        "pipe:0",
+        ...(audioArgs?.inputs ?? []),
+        ...(captionArgs?.inputs ?? []),
+        ...(audioArgs?.outputs ?? []),
+        ...(captionArgs?.outputs ?? []),
+        "-t",
+        String(totalFrames / fps),
+        ...encode.args.map((arg) =>
+          arg === encode.output ? options.out : arg,
+        ),
+      ],
+      renderFrames,
+      signal,
+    );
+    onStage("muxing", 1);
+  } finally {
+    await rm(workDirectory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs ffmpeg with frames streamed to its stdin, respecting backpressure so
+ * only a few frames are ever buffered.
+ */
+async function runFfmpeg(
+  command: string,
+  args: string[],
+  renderFrames: (write: (frame: ArrayBuffer) => Promise<void>) => Promise<void>,
+  signal?: AbortSignal,
+) {
+  const ffmpeg = spawn(command, args, {
+    stdio: ["pipe", "ignore", "pipe"],
+    signal,
+  });
+  const log: string[] = [];
+  ffmpeg.stderr.setEncoding("utf8");
+  ffmpeg.stderr.on("data", (chunk: string) => {
+    log.push(...chunk.split("\n").filter(Boolean));
+    log.splice(0, Math.max(0, log.length - FFMPEG_LOG_LINES));
+  });
+  // A frame write failing because ffmpeg already quit is reported below.
+  ffmpeg.stdin.on("error", () => undefined);
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    ffmpeg.once("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        error.code === "ENOENT"
+          ? new Error(
+              `ffmpeg was not found at "${command}". Install it or pass its path.`,
+            )
+          : error,
+      ),
+    );
+    ffmpeg.once("close", resolve);
+  });
+
+  // Rejects as soon as ffmpeg cannot start or quits before the last frame.
+  const quit = exited.then((code) => {
+    throw new Error(`ffmpeg exited early (code ${code}).`);
+  });
+  try {
+    await Promise.race([
+      renderFrames(async (frame) => {
+        if (ffmpeg.exitCode !== null) await quit;
+        if (!ffmpeg.stdin.write(new Uint8Array(frame))) {
+          // A broken pipe means ffmpeg quit; report its exit instead.
+          await Promise.race([
+            once(ffmpeg.stdin, "drain").catch(() => quit),
+            quit,
+          ]);
+        }
+      }),
+      quit,
+    ]);
+  } catch (error) {
+    ffmpeg.kill();
+    await exited.catch(() => null);
+    throw appendLog(error, log);
+  }
+
+  ffmpeg.stdin.end();
+  const code = await exited;
+  if (code !== 0) {
+    throw appendLog(new Error(`ffmpeg exited with code ${code}.`), log);
+  }
+}
+
+function appendLog(error: unknown, log: string[]) {
+  if (!(error instanceof Error) || !log.length) return error;
+  return new Error(`${error.message}\n${log.join("\n")}`);
+}
@@ -0,0 +1,221 @@
+import { nanoid } from "nanoid";
+import { createReadStream } from "node:fs";
+import { mkdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { slugify } from "@/lib/assets";
+import { exportFilename, getExportFormat } from "@/lib/export-formats";
+import { deserializeProject, type Project } from "@/lib/project";
+import type { RenderJobSummary } from "@/lib/render-api";
+
+type RenderJob = RenderJobSummary & {
+  /** Released once the job has run. */
+  project: Project | null;
+  controller: AbortController;
+  outputPath: string;
+  finishedAt?: number;
+};
+
+type QueueState = {
+  jobs: Map<string, RenderJob>;
+  /** Ids waiting to run, oldest first. */
+  pending: string[];
+  running: boolean;
+};
+
+/** Queued plus running jobs; new ones are refused past this. */
+export const MAX_PENDING_RENDERS = 10;
+
+/** Finished jobs and their files are dropped after an hour. */
+const JOB_TTL = 60 * 60 * 1000;
+
+const OUTPUT_DIRECTORY = join(tmpdir(), "motion-studio-renders");
+
+let canvasCheck: Promise<boolean> | null = null;
+
+// Kept on globalThis so dev-server reloads of this module keep the queue.
+const state: QueueState = ((
+  globalThis as { __motionStudioRenders?: QueueState }
+).__motionStudioRenders ??= { jobs: new Map(), pending: [], running: false });
+
+/**
+ * Whether this server can render at all. `@napi-rs/canvas` is an optional
+ * dependency, so deployments without it still serve the editor.
+ */
+export function isServerRenderAvailable() {
+  canvasCheck ??= import("@napi-rs/canvas").then(
+    () => true,
+    () => false,
+  );
+  return canvasCheck;
+}
+
+export function countPendingRenders() {
+  return state.pending.length + (state.running ? 1 : 0);
+}
+
+/**
+ * Validates a project document and queues it for rendering. Throws with a
+ * readable message when the document cannot be opened.
+ */
+export async function enqueueRender(input: unknown): Promise<RenderJobSummary> {
+  pruneFinishedJobs();
+  const project = await deserializeProject(input);
+  if (!project.scenes.length) {
+    throw new Error("Add at least one scene before rendering.");
+  }
+
+  const settings = project.settings.render.export;
+  const format = getExportFormat(settings.format);
+  const id = nanoid();
+  const job: RenderJob = {
+    id,
+    status: "queued",
+    stage: null,
+    progress: 0,
+    position: state.pending.length + (state.running ? 1 : 0),
+    format: format.id,
+    filename: exportFilename(settings, slugify(project.name) || "storyboard"),
+    mimeType: format.mimeType,
+    createdAt: new Date().toISOString(),
+    project,
+    controller: new AbortController(),
+    outputPath: join(OUTPUT_DIRECTORY, `${id}.${format.extension}`),
+  };
+  state.jobs.set(id, job);
+  state.pending.push(id);
+  void processQueue();
+  return summarize(job);
+}
+
+export function getRenderJob(id: string) {
+  const job = state.jobs.get(id);
+  return job ? summarize(job) : undefined;
+}
+
+/** Stops a queued or running job. Returns false for unknown ids. */
+export function cancelRender(id: string) {
+  const job = state.jobs.get(id);
+  if (!job) return false;
+  if (job.status === "queued") {
+    state.pending = state.pending.filter((pendingId) => pendingId !== id);
+    finish(job, "cancelled");
+  } else if (job.status === "running") {
+    job.controller.abort();
+  }
+  return true;
+}
+
+/** The finished file as a web stream, or undefined until the job is done. */
+export async function openRenderOutput(id: string) {
+  const job = state.jobs.get(id);
+  if (job?.status !== "done") return undefined;
+  const { size } = await stat(job.outputPath);
+  return {
+    job: summarize(job),
+    size,
+    stream: Readable.toWeb(
+      createReadStream(job.outputPath),
+    ) as ReadableStream<Uint8Array>,
+  };
+}
+
+/**
+ * The local worker: renders one job at a time, in order, inside this
+ * server process.
+ */
+async function processQueue() {
+  if (state.running) return;
+  state.running = true;
+  try {
+    for (let id = state.pending.shift(); id; id = state.pending.shift()) {
+      const job = state.jobs.get(id);
+      if (!job?.project) continue;
+      updatePositions();
+      await runJob(job, job.project);
+    }
+  } finally {
+    state.running = false;
+  }
+}
+
+async function runJob(job: RenderJob, project: Project) {
+  job.status = "running";
+  job.position = 0;
+  try {
+    await mkdir(OUTPUT_DIRECTORY, { recursive: true });
+    // Loaded here so the routes never import the native canvas up front.
+    const { renderProject } = await import("@/node/render-project");
+    await renderProject(project, {
+      out: job.outputPath,
+      fontDirectories:
+        process.env.MOTION_STUDIO_FONT_DIRS?.split(":").filter(Boolean),
+      ffmpegPath: process.env.FFMPEG_PATH,
+      signal: job.controller.signal,
+      onStage: (stage, progress, stats) => {
+        job.stage = stage;
+        job.progress = progress;
+        job.stats = stats;
+      },
+    });
+    finish(job, "done");
+  } catch (error) {
+    await rm(job.outputPath, { force: true });
+    if (job.controller.signal.aborted) {
+      finish(job, "cancelled");
+    } else {
+      finish(
+        job,
+        "failed",
+        error instanceof Error ? error.message : "Rendering failed.",
+      );
+    }
+  }
+}
+
+function finish(
+  job: RenderJob,
+  status: "done" | "failed" | "cancelled",
+  error?: string,
+) {
+  job.status = status;
+  job.error = error;
+  job.stats = undefined;
+  job.project = null;
+  job.finishedAt = Date.now();
+  updatePositions();
+}
+
+function updatePositions() {
+  state.pending.forEach((id, index) => {
+    const job = state.jobs.get(id);
+    if (job) job.position = index + 1;
+  });
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - JOB_TTL;
+  for (const job of state.jobs.values()) {
+    if (job.finishedAt !== undefined && job.finishedAt < cutoff) {
+      state.jobs.delete(job.id);
+      void rm(job.outputPath, { force: true });
+    }
+  }
+}
+
+function summarize(job: RenderJob): RenderJobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    stats: job.stats,
+    position: job.position,
+    format: job.format,
+    filename: job.filename,
+    mimeType: job.mimeType,
+    error: job.error,
+    createdAt: job.createdAt,
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  loadFontSources,
+  registerFontAliases,
+  type FontSource,
+} from "@/lib/fonts";
+import {
+  createFrameRenderer,
+  type FrameJob,
+  type FrameRange,
+} from "@/lib/renderer";
+
+export type RenderWorkerRequest =
+  | {
+      type: "start";
+      job: FrameJob;
+      /** Rendered in order; the render cache skips unchanged segments. */
+      ranges: FrameRange[];
+      fonts: FontSource[];
+      /** Bundled family names as resolved on the page. */
+      aliases: Record<string, string>;
+    }
+  | { type: "ack" };
+
+export type RenderWorkerMessage =
+  | { type: "frame"; index: number; data: ArrayBuffer }
+  | { type: "error"; message: string };
+
+/**
+ * Frames the worker may render ahead of the encoder. The main thread acks
+ * every frame it consumes, which keeps memory bounded at 4K where a single
+ * RGBA frame is 33 MB.
+ */
+const MAX_IN_FLIGHT = 4;
+
+let credits = MAX_IN_FLIGHT;
+let resume: (() => void) | null = null;
+
+const post = (message: RenderWorkerMessage, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "ack") {
+    credits += 1;
+    resume?.();
+    resume = null;
+    return;
+  }
+
+  registerFontAliases(message.aliases);
+  renderFrames(message.job, message.ranges, message.fonts).catch((error) =>
+    post({
+      type: "error",
+      message:
+        error instanceof Error ? error.message : "Frame rendering failed.",
+    }),
+  );
+};
+
+async function renderFrames(
+  job: FrameJob,
+  ranges: FrameRange[],
+  fonts: FontSource[],
+) {
+  const fontSet = (self as unknown as { fonts?: FontFaceSet }).fonts;
+  if (fontSet) {
+    await loadFontSources(fonts, fontSet);
+  }
+
+  const render = createFrameRenderer(job);
+  for (const range of ranges) {
+    for (
+      let index = range.start;
+      index < range.start + range.count;
+      index += 1
+    ) {
+      while (credits <= 0) {
+        await new Promise<void>((resolve) => {
+          resume = resolve;
+        });
+      }
+      credits -= 1;
+      const data = await render(index);
+      post({ type: "frame", index, data }, [data]);
+    }
+  }
+}